@@ -1,59 +1,331 @@
 "use client"
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
 import { useErrorHandler } from '@/hooks/use-error-handler'
 import { useKeyboardShortcuts, KeyboardShortcut } from '@/hooks/use-keyboard-shortcuts'
-import { FileText, AlertCircle, CheckCircle2, Keyboard } from 'lucide-react'
+import { useFilePersistence } from '@/hooks/use-file-persistence'
+import { FileText, AlertCircle, CheckCircle2, Keyboard, Undo2, Redo2, RotateCcw, Download } from 'lucide-react'
+import { saveAs } from 'file-saver'
 import { MainLayout, Sidebar, SidebarSection, EmptyState } from '@/components/layout/main-layout'
 import { FileUpload, FileUploadStatus } from '@/components/file-upload'
-import { JsonTreeView } from '@/components/json-tree-view'
+import { JsonTreeView, TreeRowHighlight } from '@/components/json-tree-view'
 import { JsonSyntaxHighlighter, CodeBlock } from '@/components/json-syntax-highlighter'
 import { KeyboardShortcutsHelp } from '@/components/keyboard-shortcuts-help'
+import { ParseErrorDetails } from '@/components/parse-error-details'
+import { SchemaValidationPanel } from '@/components/schema-validation-panel'
+import { SchemaInferenceDialog } from '@/components/schema-inference-dialog'
+import { JsonDiffView } from '@/components/json-diff-view'
+import { JsonQueryConsole } from '@/components/json-query-console'
+import { JqFilterPanel } from '@/components/jq-filter-panel'
+import { JsonFormattedView } from '@/components/json-formatted-view'
+import { JsonLinesNavigator } from '@/components/json-lines-navigator'
+import { FileTree } from '@/components/file-tree'
+import { RecentFiles } from '@/components/recent-files'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Toaster } from '@/components/ui/sonner'
 import { LoadingSpinner } from '@/components/ui/spinner'
+import { Progress } from '@/components/ui/progress'
 import { ErrorBoundary } from '@/components/ui/error-boundary'
-import { parseJsonString } from '@/lib/json-parser'
-import { FileData } from '@/types'
+import { Alert } from '@/components/ui/alert'
+import {
+  parseJsonString,
+  parseJsonLines,
+  validateJsonSchema,
+  formatJsonString,
+  formatJsonLines,
+  analyzeJsonStructure,
+  getDocumentFormat,
+  JsonParseOptions,
+  ParseResult
+} from '@/lib/json-parser'
+import { formatJsonWithComments } from '@/lib/json5-parser'
+import { formatYaml, toYamlFileName } from '@/lib/yaml-converter'
+import { formatCsv, toCsvFileName, CSV_DELIMITERS, DEFAULT_CSV_OPTIONS } from '@/lib/csv-converter'
+import { formatXml, toXmlFileName, DEFAULT_XML_OPTIONS, XML_ATTRIBUTE_PREFIXES, XML_TEXT_KEYS } from '@/lib/xml-converter'
+import { formatToml, toTomlFileName } from '@/lib/toml-converter'
+import { formatIni } from '@/lib/ini-converter'
+import {
+  base64ToBytes,
+  bytesToBase64,
+  encodeBinary,
+  formatHexDump,
+  getBase64ByteLength,
+  isBinaryFormat,
+  toBinaryFileName,
+  BINARY_FORMATS
+} from '@/lib/binary-converter'
+import { decodeText, encodeText, getEncodingLabel, TEXT_ENCODINGS } from '@/lib/text-encoding'
+import { parseJsonInWorker, shouldParseInWorker, isParseCancelled } from '@/lib/json-worker'
+import { formatParseErrorLocation } from '@/lib/json-source-parser'
+import { JsonPathMatch } from '@/lib/json-path'
+import { joinIndexPath, getRelativePath, joinTreePath } from '@/lib/json-tree-model'
+import { JqFilterResult } from '@/lib/jq-filter'
+import {
+  applyJsonEdit,
+  describeJsonEdit,
+  createEditState,
+  recordEdit,
+  undoEdit,
+  redoEdit,
+  revertEdits,
+  remapAnnotations,
+  JsonEditOperation
+} from '@/lib/json-edit'
+import { buildFileTree } from '@/lib/file-tree'
+import { isFileStorageAvailable, loadDocument, loadSession, StoredDocument } from '@/lib/file-storage'
+import { generateId } from '@/lib/utils'
+import { usePreferencesStore } from '@/stores/preferences-store'
+import { toIndent } from '@/lib/preferences'
+import { FileData, JsonAnnotations, JsonEditState, ViewMode, CsvDelimiter, CsvOptions, XmlOptions, BinaryFormat, SourceText, TextEncoding } from '@/types'
 import { FILE_LIMITS } from '@/config/constants'
 import { toast } from 'sonner'
 
+const FILTER_HISTORY_LIMIT = 10
+
+function applyParseResult(file: FileData, parseResult: ParseResult): FileData {
+  return {
+    ...file,
+    parsedData: parseResult.data,
+    metadata: parseResult.metadata,
+    errors: parseResult.errors,
+    warnings: parseResult.warnings,
+    jsonLines: parseResult.jsonLines,
+    comments: parseResult.comments,
+    duplicateKeys: parseResult.duplicateKeys,
+    documentCount: parseResult.documentCount,
+    csv: parseResult.csv,
+    extendedTypes: parseResult.extendedTypes
+  }
+}
+
+function getParseOptions(file: FileData): JsonParseOptions {
+  return {
+    maxNodes: FILE_LIMITS.freeViewLimit,
+    strict: false,
+    jsonLines: file.format === 'ndjson',
+    lenient: file.parseMode === 'lenient',
+    yaml: file.format === 'yaml',
+    csv: file.format === 'csv' ? file.csvOptions ?? DEFAULT_CSV_OPTIONS : undefined,
+    xml: file.format === 'xml' ? file.xmlOptions ?? DEFAULT_XML_OPTIONS : undefined,
+    toml: file.format === 'toml',
+    ini: file.format === 'ini',
+    binary: isBinaryFormat(file.format) ? file.format : undefined
+  }
+}
+
+// Path annotations of the whole document, narrowed to the record on screen
+function scopeToRecord<T extends { path: string }>(items: T[] | undefined, recordPath: string | undefined): T[] | undefined {
+  if (!items || recordPath === undefined) return items
+
+  return items.flatMap(item => {
+    const relativePath = getRelativePath(item.path, recordPath)
+    return relativePath === null ? [] : [{ ...item, path: relativePath }]
+  })
+}
+
+// Only JSON sources get JSON syntax highlighting
+function getSourceLanguage(file: FileData): 'json' | 'text' {
+  return (file.format ?? 'json') === 'json' || file.format === 'ndjson' ? 'json' : 'text'
+}
+
+function parseFileContent(file: FileData): FileData {
+  try {
+    return applyParseResult(file, parseJsonString(file.content, getParseOptions(file)))
+  } catch (error) {
+    return {
+      ...file,
+      errors: [{ message: `Failed to process: ${error instanceof Error ? error.message : 'Unknown error'}` }]
+    }
+  }
+}
+
+function getAnnotations(file: FileData): JsonAnnotations {
+  return { comments: file.comments, extendedTypes: file.extendedTypes }
+}
+
+// Edited documents are re-serialized so the raw view, exports and derived
+// tools all see the current version
+function applyEditState(file: FileData, state: JsonEditState): FileData {
+  const data = state.editedData
+  const { comments, extendedTypes } = state.annotations
+  const isJsonLines = file.format === 'ndjson' && Array.isArray(data)
+  const indent = toIndent(usePreferencesStore.getState().indentSize)
+  let content = state.originalContent
+  let serializeError: string | undefined
+  if (state.hasChanges) {
+    if (isJsonLines) {
+      content = formatJsonLines(data)
+    } else if (file.format === 'yaml') {
+      content = formatYaml(data, (file.documentCount ?? 0) > 1)
+    } else if (file.format === 'csv') {
+      content = formatCsv(data, file.csv?.delimiter)
+    } else if (file.format === 'xml' || file.format === 'toml') {
+      // Edits can introduce values the format cannot hold; keep the last
+      // written version until they are fixed
+      try {
+        content = file.format === 'xml' ? formatXml(data, file.xmlOptions) : formatToml(data, extendedTypes)
+      } catch (error) {
+        content = file.content
+        serializeError = `Cannot write the edits as ${file.format.toUpperCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    } else if (file.format === 'ini') {
+      content = formatIni(data)
+    } else if (isBinaryFormat(file.format)) {
+      // Values the format cannot hold keep the last encoded bytes until they are fixed
+      try {
+        content = bytesToBase64(encodeBinary(data, file.format, extendedTypes, file.documentCount))
+      } catch (error) {
+        content = file.content
+        serializeError = `Cannot write the edits as ${BINARY_FORMATS[file.format].label}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    } else if (comments && comments.length > 0) {
+      content = formatJsonWithComments(data, comments, indent)
+    } else {
+      content = formatJsonString(data, indent)
+    }
+  }
+  const analysis = analyzeJsonStructure(data, 100, FILE_LIMITS.freeViewLimit)
+
+  // Edited records are written one per line; the original's line numbers
+  // and errors only apply again once every edit is undone
+  let jsonLines = file.jsonLines
+  if (isJsonLines) {
+    jsonLines = state.hasChanges
+      ? {
+          lineCount: data.length,
+          recordCount: data.length,
+          recordLines: data.map((_: any, index: number) => index + 1),
+          lineErrors: [],
+          skippedLines: 0
+        }
+      : parseJsonLines(content).jsonLines
+  }
+
+  return {
+    ...file,
+    parsedData: data,
+    content,
+    serializeError,
+    comments,
+    extendedTypes,
+    jsonLines,
+    size: isBinaryFormat(file.format) ? getBase64ByteLength(content) : new Blob([content]).size,
+    metadata: file.metadata && {
+      ...file.metadata,
+      type: analysis.type,
+      depth: analysis.depth,
+      nodeCount: analysis.nodeCount
+    }
+  }
+}
+
+function omitIds<T>(record: Record<string, T>, ids: Set<string>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).filter(([id]) => !ids.has(id)))
+}
+
 export default function HomePage() {
   const [files, setFiles] = useState<FileData[]>([])
   const [activeFileIndex, setActiveFileIndex] = useState(0)
-  const [viewMode, setViewMode] = useState<'tree' | 'raw'>('tree')
+  const [viewMode, setViewMode] = useState<ViewMode>('tree')
   const [isProcessing, setIsProcessing] = useState(false)
+  const [errorLine, setErrorLine] = useState<number | undefined>(undefined)
+  const [parseProgress, setParseProgress] = useState<Record<string, { progress: number; stage: string }>>({})
+  const parseJobsRef = useRef(new Map<string, AbortController>())
+  const [compareFileId, setCompareFileId] = useState<string | null>(null)
+  const [schemas, setSchemas] = useState<Record<string, { name: string; schema: any }>>({})
+  const [queryHighlights, setQueryHighlights] = useState<Map<string, TreeRowHighlight>>()
+  const [filterHistory, setFilterHistory] = useState<Record<string, string[]>>({})
+  // Each file keeps a single jq result document that is replaced on every run
+  const filterResultIdsRef = useRef(new Map<string, string>())
+  const [editStates, setEditStates] = useState<Record<string, JsonEditState>>({})
+  const [recordIndexes, setRecordIndexes] = useState<Record<string, number>>({})
+  const [showAllRecords, setShowAllRecords] = useState(false)
+  const [expandedPaths, setExpandedPaths] = useState<Record<string, string[]>>({})
+  const [isRestored, setIsRestored] = useState(false)
+  // Edits kept from an earlier visit, applied once their file is parsed
+  const restoredEditsRef = useRef(new Map<string, { data: any; annotations?: JsonAnnotations }>())
+  const restoreStartedRef = useRef(false)
   const { handleError } = useErrorHandler()
+  const xmlOptions = usePreferencesStore(state => state.xmlOptions)
+  const setXmlOptions = usePreferencesStore(state => state.setXmlOptions)
+  const persistFiles = usePreferencesStore(state => state.persistFiles)
+  const setPersistFiles = usePreferencesStore(state => state.setPersistFiles)
+  const { recentFiles, storageEstimate, forgetRecentFile, clearStoredFiles } = useFilePersistence({
+    files,
+    editStates,
+    expandedPaths,
+    activeFileId: files[activeFileIndex]?.id,
+    enabled: isRestored && persistFiles
+  })
+
+  // Stored preferences are only read in the browser, after the first render
+  useEffect(() => {
+    setViewMode(usePreferencesStore.getState().defaultViewMode)
+  }, [])
+
+  useEffect(() => {
+    setErrorLine(undefined)
+    setQueryHighlights(undefined)
+  }, [activeFileIndex])
+
+  // Cancel any background parses still running when the page unmounts
+  useEffect(() => {
+    const jobs = parseJobsRef.current
+    return () => jobs.forEach(controller => controller.abort())
+  }, [])
+
+  const startWorkerParse = useCallback((file: FileData) => {
+    const controller = new AbortController()
+    parseJobsRef.current.set(file.id, controller)
+
+    parseJsonInWorker(file.content, getParseOptions(file), {
+      signal: controller.signal,
+      onProgress: (progress, stage) => {
+        setParseProgress(prev => ({ ...prev, [file.id]: { progress, stage } }))
+      }
+    })
+      .then(parseResult => {
+        setFiles(prev => prev.map(f => f.id === file.id ? applyParseResult(f, parseResult) : f))
+      })
+      .catch(error => {
+        if (isParseCancelled(error)) return
+        setFiles(prev => prev.map(f => f.id === file.id ? {
+          ...f,
+          errors: [{ message: `Failed to process: ${error instanceof Error ? error.message : 'Unknown error'}` }]
+        } : f))
+      })
+      .finally(() => {
+        parseJobsRef.current.delete(file.id)
+        setParseProgress(prev => {
+          const { [file.id]: _done, ...rest } = prev
+          return rest
+        })
+      })
+  }, [])
+
+  // Large files are added in a pending state and parsed off the main thread
+  const parseNewFiles = useCallback((newFiles: FileData[]): FileData[] => {
+    const backgroundFiles: FileData[] = []
+    const processedFiles = newFiles.map((file): FileData => {
+      if (shouldParseInWorker(file.content.length)) {
+        backgroundFiles.push(file)
+        return file
+      }
+
+      return parseFileContent(file)
+    })
+    backgroundFiles.forEach(startWorkerParse)
+    return processedFiles
+  }, [startWorkerParse])
 
   const handleFileSelect = useCallback(async (newFiles: FileData[]) => {
     setIsProcessing(true)
     
     try {
-      const processedFiles = await Promise.all(
-        newFiles.map(async (file) => {
-          try {
-            const parseResult = parseJsonString(file.content, {
-              maxNodes: FILE_LIMITS.freeViewLimit,
-              strict: false
-            })
-
-            return {
-              ...file,
-              parsedData: parseResult.data,
-              metadata: parseResult.metadata,
-              errors: parseResult.errors,
-              warnings: parseResult.warnings
-            }
-          } catch (error) {
-            return {
-              ...file,
-              errors: [`Failed to process: ${error instanceof Error ? error.message : 'Unknown error'}`]
-            }
-          }
-        })
-      )
-
+      const processedFiles = parseNewFiles(newFiles.map(added =>
+        added.format === 'xml' && !added.xmlOptions ? { ...added, xmlOptions } : added
+      ))
       setFiles(prev => [...prev, ...processedFiles])
       
       if (files.length === 0) {
@@ -67,32 +339,419 @@ export default function HomePage() {
     } finally {
       setIsProcessing(false)
     }
-  }, [files.length, handleError])
+  }, [files.length, handleError, parseNewFiles, xmlOptions])
+
+  // Reopens documents kept on the device; files that are already open are
+  // left as they are
+  const openStoredDocuments = useCallback((documents: StoredDocument[], activeFileId?: string) => {
+    const openIds = new Set(files.map(file => file.id))
+    const reopened = documents.filter(document => !openIds.has(document.file.id))
+
+    reopened.forEach(({ file, editedData, editedAnnotations }) => {
+      if (editedData !== undefined) restoredEditsRef.current.set(file.id, { data: editedData, annotations: editedAnnotations })
+    })
+    setExpandedPaths(prev => {
+      const next = { ...prev }
+      reopened.forEach(({ file, expandedPaths: paths }) => {
+        if (paths) next[file.id] = paths
+      })
+      return next
+    })
+
+    const processedFiles = parseNewFiles(reopened.map(document => document.file))
+    setFiles(prev => {
+      const next = [...prev, ...processedFiles.filter(file => !prev.some(open => open.id === file.id))]
+      const activeIndex = next.findIndex(file => file.id === activeFileId)
+      if (activeIndex !== -1) setActiveFileIndex(activeIndex)
+      return next
+    })
+  }, [files, parseNewFiles])
+
+  // Reopen what was open when the page was last left
+  useEffect(() => {
+    if (restoreStartedRef.current) return
+    restoreStartedRef.current = true
+
+    if (!persistFiles || !isFileStorageAvailable()) {
+      setIsRestored(true)
+      return
+    }
+    loadSession()
+      .then(({ documents, activeFileId }) => {
+        if (documents.length > 0) openStoredDocuments(documents, activeFileId)
+      })
+      .catch(error => console.error('Error restoring files:', error))
+      .finally(() => setIsRestored(true))
+  }, [openStoredDocuments, persistFiles])
+
+  const handleOpenRecentFile = useCallback(async (id: string) => {
+    try {
+      const document = await loadDocument(id)
+      if (!document) {
+        toast.error('The file is no longer stored on this device')
+        return
+      }
+      openStoredDocuments([document], id)
+      toast.success(`Reopened ${document.file.name}`)
+    } catch (error) {
+      handleError(error, 'reopening file')
+    }
+  }, [openStoredDocuments, handleError])
+
+  const handleForgetRecentFile = useCallback((id: string) => {
+    forgetRecentFile(id).catch(error => handleError(error, 'removing stored file'))
+  }, [forgetRecentFile, handleError])
+
+  // Saving stops as well, so the open files are not written back right away
+  const handleClearStoredFiles = useCallback(async () => {
+    if (!window.confirm('Remove all files kept on this device? Open files stay open until you close them or reload.')) return
+
+    setPersistFiles(false)
+    try {
+      await clearStoredFiles()
+      toast.success('Removed all stored files')
+    } catch (error) {
+      handleError(error, 'clearing stored files')
+    }
+  }, [setPersistFiles, clearStoredFiles, handleError])
+
+  const handleExpandedPathsChange = useCallback((fileId: string, paths: string[]) => {
+    setExpandedPaths(prev => {
+      const current = prev[fileId]
+      if (current && current.length === paths.length && current.every((path, i) => path === paths[i])) return prev
+      return { ...prev, [fileId]: paths }
+    })
+  }, [])
+
+  // Re-parses a file from its source with other parse settings
+  const handleReparse = useCallback((file: FileData, settings: Partial<Pick<FileData, 'parseMode' | 'csvOptions' | 'xmlOptions' | 'content' | 'format' | 'encoding' | 'hasBom' | 'sourceText'>>) => {
+    parseJobsRef.current.get(file.id)?.abort()
+    // Undo history refers to the previous parse
+    setEditStates(prev => {
+      const { [file.id]: _discarded, ...rest } = prev
+      return rest
+    })
+    const pending: FileData = {
+      ...file,
+      ...settings,
+      parsedData: undefined,
+      metadata: undefined,
+      errors: undefined,
+      warnings: undefined,
+      jsonLines: undefined,
+      comments: undefined,
+      duplicateKeys: undefined,
+      csv: undefined,
+      extendedTypes: undefined
+    }
+
+    if (shouldParseInWorker(pending.content.length)) {
+      setFiles(prev => prev.map(f => f.id === file.id ? pending : f))
+      startWorkerParse(pending)
+    } else {
+      setFiles(prev => prev.map(f => f.id === file.id ? parseFileContent(pending) : f))
+    }
+  }, [startWorkerParse])
 
   const handleFileError = useCallback((error: string) => {
     toast.error(error)
   }, [])
 
+  // Everything kept per document goes when the document is closed
+  const discardFileState = useCallback((ids: Set<string>) => {
+    ids.forEach(id => {
+      parseJobsRef.current.get(id)?.abort()
+      filterResultIdsRef.current.delete(id)
+    })
+    setEditStates(prev => omitIds(prev, ids))
+    setSchemas(prev => omitIds(prev, ids))
+    setFilterHistory(prev => omitIds(prev, ids))
+    setRecordIndexes(prev => omitIds(prev, ids))
+    setExpandedPaths(prev => omitIds(prev, ids))
+    setParseProgress(prev => omitIds(prev, ids))
+  }, [])
+
   const handleRemoveFile = useCallback((index: number) => {
-    setFiles(prev => {
-      const newFiles = prev.filter((_, i) => i !== index)
-      
-      if (index === activeFileIndex && newFiles.length > 0) {
-        setActiveFileIndex(Math.min(activeFileIndex, newFiles.length - 1))
-      } else if (newFiles.length === 0) {
-        setActiveFileIndex(0)
+    const removed = files[index]
+    if (!removed) return
+
+    discardFileState(new Set([removed.id]))
+    setFiles(prev => prev.filter(file => file.id !== removed.id))
+
+    const remainingCount = files.length - 1
+    if (index === activeFileIndex && remainingCount > 0) {
+      setActiveFileIndex(Math.min(activeFileIndex, remainingCount - 1))
+    } else if (remainingCount === 0) {
+      setActiveFileIndex(0)
+    }
+
+    toast.success('File removed')
+  }, [files, activeFileIndex, discardFileState])
+
+  // Closes every file extracted from one uploaded archive
+  const handleCloseArchive = useCallback((archiveId: string) => {
+    const closing = files.filter(file => file.archiveId === archiveId)
+    if (closing.length === 0) return
+
+    const closingIds = new Set(closing.map(file => file.id))
+    discardFileState(closingIds)
+    const remaining = files.filter(file => !closingIds.has(file.id))
+    setFiles(remaining)
+
+    // Stay on the active file when it remains open
+    const activeId = files[activeFileIndex]?.id
+    const activeIndex = remaining.findIndex(file => file.id === activeId)
+    setActiveFileIndex(activeIndex !== -1 ? activeIndex : Math.min(activeFileIndex, Math.max(remaining.length - 1, 0)))
+
+    toast.success(`Closed ${closing[0].extractedFrom ?? 'archive'} (${closing.length} file${closing.length === 1 ? '' : 's'})`)
+  }, [files, activeFileIndex, discardFileState])
+
+  const handleLoadSchema = useCallback(async (fileId: string, schemaFile: File) => {
+    try {
+      const parseResult = parseJsonString(await schemaFile.text())
+      if (parseResult.errors && parseResult.errors.length > 0) {
+        toast.error(`${schemaFile.name}: ${formatParseErrorLocation(parseResult.errors[0])}`)
+        return
       }
-      
-      return newFiles
+
+      setSchemas(prev => ({ ...prev, [fileId]: { name: schemaFile.name, schema: parseResult.data } }))
+      toast.success(`Validating against ${schemaFile.name}`)
+    } catch (error) {
+      handleError(error, 'loading schema')
+    }
+  }, [handleError])
+
+  const handleClearSchema = useCallback((fileId: string) => {
+    setSchemas(prev => {
+      const { [fileId]: _removed, ...rest } = prev
+      return rest
     })
-    
-    toast.success('File removed')
-  }, [activeFileIndex])
+  }, [])
+
+  const handleQueryMatches = useCallback((matches: JsonPathMatch[]) => {
+    setQueryHighlights(matches.length > 0
+      ? new Map(matches.map(match => [match.path, 'match' as const]))
+      : undefined)
+  }, [])
+
+  // Query results open as a new document alongside the source file
+  const handleOpenQueryResults = useCallback((source: FileData, results: any[]) => {
+    const content = formatJsonString(results, toIndent(usePreferencesStore.getState().indentSize))
+    const parseResult = parseJsonString(content, { maxNodes: FILE_LIMITS.freeViewLimit })
+    const derivedFile: FileData = applyParseResult({
+      id: generateId(),
+      name: `${source.name.replace(/\.[^.]+$/, '')}-query.json`,
+      content,
+      size: new Blob([content]).size,
+      type: '.json',
+      lastModified: Date.now(),
+      derivedFrom: source.name
+    }, parseResult)
+
+    setFiles(prev => [...prev, derivedFile])
+    setActiveFileIndex(files.length)
+    toast.success(`Opened ${results.length} result(s) as ${derivedFile.name}`)
+  }, [files.length])
+
+  const handleFilterResult = useCallback((source: FileData, filter: string, result: JqFilterResult) => {
+    setFilterHistory(prev => ({
+      ...prev,
+      [source.id]: [filter, ...(prev[source.id] ?? []).filter(entry => entry !== filter)].slice(0, FILTER_HISTORY_LIMIT)
+    }))
+
+    // A single output becomes the document itself, a stream becomes an array
+    const output = result.outputs.length === 1 ? result.outputs[0] : result.outputs
+    const content = formatJsonString(output, toIndent(usePreferencesStore.getState().indentSize))
+    const warnings: string[] = []
+    if (result.outputs.length !== 1) {
+      warnings.push(`Filter produced ${result.outputs.length} outputs, shown as an array`)
+    }
+    if (result.truncated) {
+      warnings.push(`Output truncated to the first ${result.outputs.length} results`)
+    }
+    warnings.push(...(result.warnings ?? []))
+
+    const resultId = filterResultIdsRef.current.get(source.id) ?? generateId()
+    filterResultIdsRef.current.set(source.id, resultId)
+
+    const parseResult = parseJsonString(content, { maxNodes: FILE_LIMITS.freeViewLimit })
+    const resultFile = applyParseResult({
+      id: resultId,
+      name: `${source.name.replace(/\.[^.]+$/, '')}.jq.json`,
+      content,
+      size: new Blob([content]).size,
+      type: '.json',
+      lastModified: Date.now(),
+      derivedFrom: source.name,
+      readOnly: true
+    }, parseResult)
+    resultFile.warnings = [...warnings, ...(resultFile.warnings ?? [])]
+
+    setFiles(prev => prev.some(file => file.id === resultId)
+      ? prev.map(file => file.id === resultId ? resultFile : file)
+      : [...prev, resultFile])
+  }, [])
+
+  const handleOpenFilterResult = useCallback((source: FileData) => {
+    const resultId = filterResultIdsRef.current.get(source.id)
+    const index = files.findIndex(file => file.id === resultId)
+    if (index !== -1) setActiveFileIndex(index)
+  }, [files])
+
+  const commitEditState = useCallback((fileId: string, state: JsonEditState) => {
+    setEditStates(prev => ({ ...prev, [fileId]: state }))
+    setFiles(prev => prev.map(file => file.id === fileId ? applyEditState(file, state) : file))
+  }, [])
+
+  // Restored edits become a single undoable step on top of the parsed source
+  useEffect(() => {
+    const pending = restoredEditsRef.current
+    if (pending.size === 0) return
+
+    files.forEach(file => {
+      if (!pending.has(file.id)) return
+      if (file.parsedData === undefined) {
+        if (file.errors) pending.delete(file.id) // The source no longer parses
+        return
+      }
+      const { data, annotations = {} } = pending.get(file.id)!
+      pending.delete(file.id)
+      const state = createEditState(file.parsedData, file.content, getAnnotations(file))
+      commitEditState(file.id, recordEdit(state, data, 'Restore unsaved edits', annotations))
+    })
+  }, [files, commitEditState])
+
+  const handleEdit = useCallback((file: FileData, operation: JsonEditOperation) => {
+    try {
+      const data = applyJsonEdit(file.parsedData, operation)
+      if (data === file.parsedData) return
+
+      const state = editStates[file.id] ?? createEditState(file.parsedData, file.content, getAnnotations(file))
+      const annotations = remapAnnotations(state.annotations, file.parsedData, operation)
+      commitEditState(file.id, recordEdit(state, data, describeJsonEdit(operation), annotations))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Edit failed')
+    }
+  }, [editStates, commitEditState])
+
+  const handleUndo = useCallback(() => {
+    const file = files[activeFileIndex]
+    const state = file && editStates[file.id]
+    if (!state || state.undoStack.length === 0) return
+
+    toast(`Undo: ${state.undoStack[state.undoStack.length - 1].label}`)
+    commitEditState(file.id, undoEdit(state))
+  }, [files, activeFileIndex, editStates, commitEditState])
+
+  const handleRedo = useCallback(() => {
+    const file = files[activeFileIndex]
+    const state = file && editStates[file.id]
+    if (!state || state.redoStack.length === 0) return
+
+    toast(`Redo: ${state.redoStack[state.redoStack.length - 1].label}`)
+    commitEditState(file.id, redoEdit(state))
+  }, [files, activeFileIndex, editStates, commitEditState])
+
+  const handleRevert = useCallback((file: FileData) => {
+    const state = editStates[file.id]
+    if (!state?.hasChanges) return
+
+    commitEditState(file.id, revertEdits(state))
+    toast.success(`Reverted ${file.name} to the original`)
+  }, [editStates, commitEditState])
 
   const handleCopyValue = useCallback((value: any, path: string) => {
     toast.success(`Copied ${path || 'value'} to clipboard`)
   }, [])
 
+  // JSON Lines records and YAML streams are written as one document each
+  const handleExportYaml = useCallback((file: FileData) => {
+    try {
+      const multiDocument = file.format === 'ndjson' || (file.documentCount ?? 0) > 1
+      const yaml = formatYaml(file.parsedData, multiDocument)
+      saveAs(new Blob([yaml], { type: 'application/yaml' }), toYamlFileName(file.name))
+    } catch (error) {
+      toast.error(`YAML export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [])
+
+  const handleExportCsv = useCallback((file: FileData, delimiter: CsvDelimiter) => {
+    try {
+      const csv = formatCsv(file.parsedData, delimiter)
+      const type = delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv'
+      saveAs(new Blob([csv], { type }), toCsvFileName(file.name, delimiter))
+    } catch (error) {
+      toast.error(`CSV export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [])
+
+  // The text as first read is turned back into the file's bytes and decoded
+  // again, so switching to an encoding that loses characters can be undone
+  // and edits are not mistaken for the source
+  const handleEncodingChange = useCallback((file: FileData, encoding: TextEncoding) => {
+    try {
+      const sourceText: SourceText = file.sourceText ?? {
+        content: editStates[file.id]?.originalContent ?? file.content,
+        encoding: file.encoding ?? 'utf-8',
+        hasBom: !!file.hasBom
+      }
+      const bytes = encodeText(sourceText.content, sourceText.encoding, sourceText.hasBom)
+      const decoded = decodeText(bytes, encoding)
+      handleReparse(file, {
+        content: decoded.text,
+        format: getDocumentFormat(file.name, decoded.text),
+        encoding,
+        hasBom: decoded.hasBom,
+        sourceText
+      })
+    } catch (error) {
+      toast.error(`Could not read ${file.name} as ${getEncodingLabel(encoding)}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [editStates, handleReparse])
+
+  const handleCsvOptionsChange = useCallback((file: FileData, changes: Partial<CsvOptions>) => {
+    handleReparse(file, { csvOptions: { ...(file.csvOptions ?? DEFAULT_CSV_OPTIONS), ...changes } })
+  }, [handleReparse])
+
+  const handleExportToml = useCallback((file: FileData) => {
+    try {
+      const toml = formatToml(file.parsedData, file.extendedTypes)
+      saveAs(new Blob([toml], { type: 'application/toml' }), toTomlFileName(file.name))
+    } catch (error) {
+      toast.error(`TOML export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [])
+
+  // Types kept from a binary source, such as BSON ObjectIds, are encoded as
+  // such again; JSON Lines records and streams are written back to back
+  const handleExportBinary = useCallback((file: FileData, format: BinaryFormat) => {
+    try {
+      const documentCount = file.format === 'ndjson' && Array.isArray(file.parsedData)
+        ? file.parsedData.length
+        : file.documentCount
+      const bytes = encodeBinary(file.parsedData, format, file.extendedTypes, documentCount)
+      saveAs(new Blob([new Uint8Array(bytes)], { type: 'application/octet-stream' }), toBinaryFileName(file.name, format))
+    } catch (error) {
+      toast.error(`${BINARY_FORMATS[format].label} export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [])
+
+  // The mapping is remembered for XML files added later
+  const handleXmlOptionsChange = useCallback((file: FileData, changes: Partial<XmlOptions>) => {
+    setXmlOptions(changes)
+    handleReparse(file, { xmlOptions: { ...(file.xmlOptions ?? DEFAULT_XML_OPTIONS), ...changes } })
+  }, [handleReparse, setXmlOptions])
+
+  // Documents read from XML are written back with their own mapping
+  const handleExportXml = useCallback((file: FileData) => {
+    try {
+      const xml = formatXml(file.parsedData, file.xmlOptions ?? xmlOptions)
+      saveAs(new Blob([xml], { type: 'application/xml' }), toXmlFileName(file.name))
+    } catch (error) {
+      toast.error(`XML export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [xmlOptions])
+
   // Define keyboard shortcuts
   const shortcuts: KeyboardShortcut[] = [
     {
@@ -116,6 +775,35 @@ export default function HomePage() {
       description: 'Switch to raw view',
       category: 'View'
     },
+    {
+      key: 'f',
+      ctrlKey: true,
+      action: () => setViewMode('formatted'),
+      description: 'Switch to formatted view',
+      category: 'View'
+    },
+    {
+      key: 'z',
+      ctrlKey: true,
+      action: handleUndo,
+      description: 'Undo edit',
+      category: 'Editing'
+    },
+    {
+      key: 'y',
+      ctrlKey: true,
+      action: handleRedo,
+      description: 'Redo edit',
+      category: 'Editing'
+    },
+    {
+      key: 'z',
+      ctrlKey: true,
+      shiftKey: true,
+      action: handleRedo,
+      description: 'Redo edit',
+      category: 'Editing'
+    },
     {
       key: 'ArrowUp',
       ctrlKey: true,
@@ -207,6 +895,79 @@ export default function HomePage() {
   useKeyboardShortcuts(shortcuts)
 
   const activeFile = files[activeFileIndex]
+  const activeSchema = activeFile ? schemas[activeFile.id] : undefined
+  const activeEditState = activeFile ? editStates[activeFile.id] : undefined
+
+  const isComparable = (file: FileData) =>
+    file.parsedData !== undefined && !(file.errors && file.errors.length > 0)
+  const comparableFiles = files.filter(file => file.id !== activeFile?.id && isComparable(file))
+  const compareFile = activeFile && isComparable(activeFile)
+    ? comparableFiles.find(file => file.id === compareFileId)
+    : undefined
+  const isEditable = !!activeFile && !activeFile.readOnly && isComparable(activeFile)
+
+  const schemaValidation = useMemo(() => {
+    if (!activeSchema || activeFile?.parsedData === undefined) return undefined
+    return validateJsonSchema(activeFile.parsedData, activeSchema.schema)
+  }, [activeSchema, activeFile?.parsedData])
+
+  // JSON Lines documents show one record at a time unless "show all" is on;
+  // tree paths are then relative to that record
+  const activeRecords = activeFile?.jsonLines && activeFile.parsedData !== undefined
+    ? activeFile.jsonLines
+    : undefined
+  const activeRecordIndex = activeRecords
+    ? Math.max(0, Math.min(recordIndexes[activeFile!.id] ?? 0, activeRecords.recordCount - 1))
+    : 0
+  const recordPath = activeRecords && activeRecords.recordCount > 0 && !showAllRecords
+    ? joinIndexPath('', activeRecordIndex)
+    : undefined
+  const treeData = recordPath !== undefined ? activeFile?.parsedData[activeRecordIndex] : activeFile?.parsedData
+
+  const treeHighlights = useMemo(() => {
+    if (!queryHighlights || recordPath === undefined) return queryHighlights
+
+    const scoped = new Map<string, TreeRowHighlight>()
+    queryHighlights.forEach((highlight, path) => {
+      const relativePath = getRelativePath(path, recordPath)
+      if (relativePath !== null) scoped.set(relativePath, highlight)
+    })
+    return scoped
+  }, [queryHighlights, recordPath])
+
+  const treeValidationErrors = useMemo(() => {
+    if (recordPath === undefined) return schemaValidation?.errors
+
+    return schemaValidation?.errors?.flatMap(error => {
+      const relativePath = getRelativePath(error.path, recordPath)
+      return relativePath === null ? [] : [{ ...error, path: relativePath }]
+    })
+  }, [schemaValidation, recordPath])
+
+  // Duplicates describe the source, so they stop applying once it is edited
+  const treeDuplicateKeys = useMemo(
+    () => scopeToRecord(activeEditState?.hasChanges ? undefined : activeFile?.duplicateKeys, recordPath),
+    [activeFile?.duplicateKeys, activeEditState?.hasChanges, recordPath]
+  )
+
+  // Binary sources are shown as a hex dump of their bytes
+  const rawContent = useMemo(() => {
+    if (!activeFile) return ''
+    if (!isBinaryFormat(activeFile.format)) return activeFile.content
+    try {
+      return formatHexDump(base64ToBytes(activeFile.content))
+    } catch {
+      return activeFile.content
+    }
+  }, [activeFile?.content, activeFile?.format])
+
+  const fileTree = useMemo(() => buildFileTree(files), [files])
+
+  // Source types move with their values when the document is edited
+  const treeExtendedTypes = useMemo(
+    () => scopeToRecord(activeFile?.extendedTypes, recordPath),
+    [activeFile?.extendedTypes, recordPath]
+  )
 
   const sidebar = (
     <Sidebar>
@@ -214,19 +975,21 @@ export default function HomePage() {
         {files.length === 0 ? (
           <p className="text-sm text-muted-foreground">No files uploaded</p>
         ) : (
-          <div className="space-y-2">
-            {files.map((file, index) => (
+          <FileTree
+            nodes={fileTree}
+            onCloseArchive={handleCloseArchive}
+            renderFile={({ file, index, name }) => (
               <Button
-                key={index}
                 variant={index === activeFileIndex ? "default" : "ghost"}
                 className="w-full justify-start h-auto p-3"
                 onClick={() => setActiveFileIndex(index)}
+                title={file.name}
               >
                 <div className="flex items-center space-x-3 w-full">
                   <div className="flex-shrink-0">
                     {file.errors && file.errors.length > 0 ? (
                       <AlertCircle className="size-4 text-destructive" />
-                    ) : file.parsedData ? (
+                    ) : file.parsedData !== undefined ? (
                       <CheckCircle2 className="size-4 text-green-500" />
                     ) : (
                       <FileText className="size-4" />
@@ -234,18 +997,38 @@ export default function HomePage() {
                   </div>
                   
                   <div className="flex-1 min-w-0 text-left">
-                    <p className="text-sm font-medium truncate">{file.name}</p>
+                    <div className="flex items-center gap-1.5">
+                      <p className="text-sm font-medium truncate">{name}</p>
+                      {editStates[file.id]?.hasChanges && (
+                        <span className="size-2 rounded-full bg-amber-500 flex-shrink-0" title="Modified" />
+                      )}
+                    </div>
                     <p className="text-xs text-muted-foreground">
                       {(file.size / 1024).toFixed(1)} KB
+                      {file.derivedFrom && ` • from ${file.derivedFrom}`}
+                      {file.readOnly && ' • read-only'}
+                      {parseProgress[file.id] && ` • parsing ${Math.round(parseProgress[file.id].progress)}%`}
                     </p>
                   </div>
                 </div>
               </Button>
-            ))}
-          </div>
+            )}
+          />
         )}
       </SidebarSection>
 
+      {isRestored && isFileStorageAvailable() && (
+        <RecentFiles
+          entries={recentFiles.filter(entry => !files.some(file => file.id === entry.id))}
+          storageEstimate={storageEstimate}
+          persistFiles={persistFiles}
+          onOpen={handleOpenRecentFile}
+          onForget={handleForgetRecentFile}
+          onPersistFilesChange={setPersistFiles}
+          onClearAll={handleClearStoredFiles}
+        />
+      )}
+
       {activeFile && (
         <>
           <SidebarSection title="View Mode">
@@ -266,9 +1049,286 @@ export default function HomePage() {
               >
                 Raw
               </Button>
+              <Button
+                variant={viewMode === 'formatted' ? "default" : "outline"}
+                size="sm"
+                onClick={() => setViewMode('formatted')}
+                className="flex-1"
+              >
+                Formatted
+              </Button>
             </div>
           </SidebarSection>
 
+          {(activeFile.format ?? 'json') === 'json' && !activeFile.derivedFrom && (
+            <SidebarSection title="Parse Mode">
+              <div className="flex space-x-2">
+                {(['strict', 'lenient'] as const).map(mode => (
+                  <Button
+                    key={mode}
+                    variant={(activeFile.parseMode ?? 'strict') === mode ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleReparse(activeFile, { parseMode: mode })}
+                    disabled={(activeFile.parseMode ?? 'strict') === mode || !!activeEditState?.hasChanges}
+                    className="flex-1"
+                  >
+                    {mode === 'strict' ? 'Strict' : 'JSON5 / JSONC'}
+                  </Button>
+                ))}
+              </div>
+              {activeEditState?.hasChanges && (
+                <p className="text-xs text-muted-foreground">Revert your edits to change the parse mode.</p>
+              )}
+            </SidebarSection>
+          )}
+
+          {activeFile.format === 'csv' && !activeFile.derivedFrom && (
+            <SidebarSection title="CSV Options">
+              <label className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">Delimiter</span>
+                <select
+                  value={(activeFile.csvOptions ?? DEFAULT_CSV_OPTIONS).delimiter}
+                  onChange={(e) => handleCsvOptionsChange(activeFile, { delimiter: e.target.value as CsvOptions['delimiter'] })}
+                  disabled={!!activeEditState?.hasChanges}
+                  className="px-2 py-1 text-sm border rounded-md bg-background"
+                >
+                  <option value="auto">Detect</option>
+                  {CSV_DELIMITERS.map(option => (
+                    <option key={option.label} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">First row</span>
+                <select
+                  value={(activeFile.csvOptions ?? DEFAULT_CSV_OPTIONS).header}
+                  onChange={(e) => handleCsvOptionsChange(activeFile, { header: e.target.value as CsvOptions['header'] })}
+                  disabled={!!activeEditState?.hasChanges}
+                  className="px-2 py-1 text-sm border rounded-md bg-background"
+                >
+                  <option value="auto">Detect</option>
+                  <option value="yes">Column names</option>
+                  <option value="no">Data</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={(activeFile.csvOptions ?? DEFAULT_CSV_OPTIONS).coerceTypes}
+                  onChange={(e) => handleCsvOptionsChange(activeFile, { coerceTypes: e.target.checked })}
+                  disabled={!!activeEditState?.hasChanges}
+                />
+                Convert numbers, booleans and empty cells
+              </label>
+              {activeEditState?.hasChanges && (
+                <p className="text-xs text-muted-foreground">Revert your edits to change how the file is read.</p>
+              )}
+            </SidebarSection>
+          )}
+
+          {activeFile.format === 'xml' && !activeFile.derivedFrom && (
+            <SidebarSection title="XML Mapping">
+              <label className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">Attributes</span>
+                <select
+                  value={(activeFile.xmlOptions ?? DEFAULT_XML_OPTIONS).ignoreAttributes ? '' : (activeFile.xmlOptions ?? DEFAULT_XML_OPTIONS).attributePrefix}
+                  onChange={(e) => handleXmlOptionsChange(activeFile, e.target.value
+                    ? { ignoreAttributes: false, attributePrefix: e.target.value }
+                    : { ignoreAttributes: true })}
+                  disabled={!!activeEditState?.hasChanges}
+                  className="px-2 py-1 text-sm border rounded-md bg-background"
+                >
+                  {XML_ATTRIBUTE_PREFIXES.map(prefix => (
+                    <option key={prefix} value={prefix}>{prefix}name</option>
+                  ))}
+                  <option value="">Ignore</option>
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">Text</span>
+                <select
+                  value={(activeFile.xmlOptions ?? DEFAULT_XML_OPTIONS).textKey}
+                  onChange={(e) => handleXmlOptionsChange(activeFile, { textKey: e.target.value })}
+                  disabled={!!activeEditState?.hasChanges}
+                  className="px-2 py-1 text-sm border rounded-md bg-background"
+                >
+                  {XML_TEXT_KEYS.map(key => (
+                    <option key={key} value={key}>{key}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={(activeFile.xmlOptions ?? DEFAULT_XML_OPTIONS).alwaysArray}
+                  onChange={(e) => handleXmlOptionsChange(activeFile, { alwaysArray: e.target.checked })}
+                  disabled={!!activeEditState?.hasChanges}
+                />
+                Arrays for every child element
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={(activeFile.xmlOptions ?? DEFAULT_XML_OPTIONS).namespaces === 'strip'}
+                  onChange={(e) => handleXmlOptionsChange(activeFile, { namespaces: e.target.checked ? 'strip' : 'keep' })}
+                  disabled={!!activeEditState?.hasChanges}
+                />
+                Strip namespace prefixes
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={(activeFile.xmlOptions ?? DEFAULT_XML_OPTIONS).coerceTypes}
+                  onChange={(e) => handleXmlOptionsChange(activeFile, { coerceTypes: e.target.checked })}
+                  disabled={!!activeEditState?.hasChanges}
+                />
+                Convert numbers and booleans
+              </label>
+              {activeEditState?.hasChanges && (
+                <p className="text-xs text-muted-foreground">Revert your edits to change the mapping.</p>
+              )}
+            </SidebarSection>
+          )}
+
+          {isEditable && (
+            <SidebarSection title="Editing">
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleUndo}
+                  disabled={!activeEditState?.undoStack.length}
+                  className="flex-1"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="size-4 mr-1" />
+                  Undo
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRedo}
+                  disabled={!activeEditState?.redoStack.length}
+                  className="flex-1"
+                  title="Redo (Ctrl+Y)"
+                >
+                  <Redo2 className="size-4 mr-1" />
+                  Redo
+                </Button>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => handleRevert(activeFile)}
+                disabled={!activeEditState?.hasChanges}
+              >
+                <RotateCcw className="size-4 mr-1" />
+                Revert to original
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Double-click a key or value to edit it.
+              </p>
+            </SidebarSection>
+          )}
+
+          {activeFile.parsedData !== undefined && (
+            <SidebarSection title="Export">
+              <div className="grid grid-cols-3 gap-2">
+                <Button variant="outline" size="sm" onClick={() => handleExportYaml(activeFile)}>
+                  <Download className="size-4 mr-1" />
+                  YAML
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExportXml(activeFile)}
+                  title={`Attributes as ${(activeFile.xmlOptions ?? xmlOptions).attributePrefix}name, text as ${(activeFile.xmlOptions ?? xmlOptions).textKey}`}
+                >
+                  <Download className="size-4 mr-1" />
+                  XML
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExportToml(activeFile)}>
+                  <Download className="size-4 mr-1" />
+                  TOML
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExportCsv(activeFile, ',')}
+                  title="Nested fields become dotted columns"
+                >
+                  <Download className="size-4 mr-1" />
+                  CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExportCsv(activeFile, '\t')}
+                  title="Nested fields become dotted columns"
+                >
+                  <Download className="size-4 mr-1" />
+                  TSV
+                </Button>
+                {(Object.keys(BINARY_FORMATS) as BinaryFormat[]).map(format => (
+                  <Button
+                    key={format}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleExportBinary(activeFile, format)}
+                    title={`Download as ${BINARY_FORMATS[format].label}`}
+                  >
+                    <Download className="size-4 mr-1" />
+                    {format === 'msgpack' ? 'MsgPack' : BINARY_FORMATS[format].label}
+                  </Button>
+                ))}
+              </div>
+            </SidebarSection>
+          )}
+
+          {activeFile.parsedData !== undefined && comparableFiles.length > 0 && (
+            <SidebarSection title="Compare">
+              <select
+                value={compareFile?.id ?? ''}
+                onChange={(e) => setCompareFileId(e.target.value || null)}
+                className="w-full px-2 py-1.5 text-sm border rounded-md bg-background"
+              >
+                <option value="">Compare with…</option>
+                {comparableFiles.map(file => (
+                  <option key={file.id} value={file.id}>{file.name}</option>
+                ))}
+              </select>
+              {compareFile && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setCompareFileId(null)}
+                >
+                  Stop comparing
+                </Button>
+              )}
+            </SidebarSection>
+          )}
+
+          {activeFile.parsedData !== undefined && (
+            <SidebarSection title="Schema Validation">
+              <SchemaValidationPanel
+                schemaName={activeSchema?.name}
+                validation={schemaValidation}
+                onLoadSchema={(schemaFile) => handleLoadSchema(activeFile.id, schemaFile)}
+                onClearSchema={() => handleClearSchema(activeFile.id)}
+              />
+              <SchemaInferenceDialog
+                files={files}
+                activeFileId={activeFile.id}
+                onUseSchema={(schema, name) => {
+                  setSchemas(prev => ({ ...prev, [activeFile.id]: { name, schema } }))
+                }}
+              />
+            </SidebarSection>
+          )}
+
           <SidebarSection title="Help">
             <KeyboardShortcutsHelp 
               shortcuts={shortcuts}
@@ -287,6 +1347,25 @@ export default function HomePage() {
                 <span className="text-muted-foreground">Size:</span>
                 <span>{(activeFile.size / 1024).toFixed(1)} KB</span>
               </div>
+
+              {activeFile.encoding && (
+                <label className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">Encoding:</span>
+                  <select
+                    value={activeFile.encoding}
+                    onChange={(e) => handleEncodingChange(activeFile, e.target.value as TextEncoding)}
+                    disabled={!!activeEditState?.hasChanges}
+                    title={activeEditState?.hasChanges ? 'Revert your edits to read the file in another encoding' : 'Read the file in another encoding'}
+                    className="px-2 py-1 text-sm border rounded-md bg-background"
+                  >
+                    {TEXT_ENCODINGS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}{option.value === activeFile.encoding && activeFile.hasBom ? ' (BOM)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
               
               {activeFile.metadata && (
                 <>
@@ -305,6 +1384,51 @@ export default function HomePage() {
                     <span>{activeFile.metadata.depth}</span>
                   </div>
                   
+                  {activeFile.jsonLines && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Lines:</span>
+                        <span>{activeFile.jsonLines.lineCount}</span>
+                      </div>
+
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Records:</span>
+                        <span>{activeFile.jsonLines.recordCount}</span>
+                      </div>
+
+                      {activeFile.jsonLines.skippedLines > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Invalid lines:</span>
+                          <span className="text-red-600">{activeFile.jsonLines.skippedLines}</span>
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  {activeFile.documentCount !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Documents:</span>
+                      <span>{activeFile.documentCount}</span>
+                    </div>
+                  )}
+
+                  {activeFile.csv && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Delimiter:</span>
+                        <span>{CSV_DELIMITERS.find(option => option.value === activeFile.csv?.delimiter)?.label}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Columns:</span>
+                        <span>{activeFile.csv.columns.length}{activeFile.csv.hasHeader ? '' : ' (no header)'}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Rows:</span>
+                        <span>{activeFile.csv.rowCount.toLocaleString()}</span>
+                      </div>
+                    </>
+                  )}
+
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Valid:</span>
                     <span className={activeFile.metadata.isValid ? "text-green-600" : "text-red-600"}>
@@ -328,12 +1452,37 @@ export default function HomePage() {
             </SidebarSection>
           )}
 
+          {activeFile.parsedData !== undefined && activeFile.jsonLines && activeFile.jsonLines.lineErrors.length > 0 && (
+            <SidebarSection title="Line Errors">
+              <div className="space-y-1 max-h-60 overflow-auto">
+                {activeFile.jsonLines.lineErrors.map((error, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => {
+                      setViewMode('raw')
+                      setErrorLine(error.line)
+                    }}
+                    className="block w-full text-left text-xs text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    {formatParseErrorLocation(error)}
+                  </button>
+                ))}
+                {activeFile.jsonLines.skippedLines > activeFile.jsonLines.lineErrors.length && (
+                  <div className="text-xs text-muted-foreground italic">
+                    ... {activeFile.jsonLines.skippedLines - activeFile.jsonLines.lineErrors.length} more
+                  </div>
+                )}
+              </div>
+            </SidebarSection>
+          )}
+
           {activeFile.errors && activeFile.errors.length > 0 && (
             <SidebarSection title="Errors">
               <div className="space-y-1">
                 {activeFile.errors.map((error, index) => (
                   <div key={index} className="text-xs text-red-600 dark:text-red-400">
-                    {error}
+                    {formatParseErrorLocation(error)}
                   </div>
                 ))}
               </div>
@@ -352,7 +1501,7 @@ export default function HomePage() {
           <EmptyState
             icon={FileText}
             title="Upload JSON Files"
-            description="Drag and drop your JSON files here to start viewing and analyzing them. Supports JSON, TXT, and ZIP files."
+            description="Drag and drop your JSON files here to start viewing and analyzing them. Supports JSON, JSON5/JSONC, NDJSON/JSON Lines, TXT, and ZIP, tar and gzip archives."
             action={
               <FileUpload
                 onFileSelect={handleFileSelect}
@@ -382,28 +1531,119 @@ export default function HomePage() {
               </CardContent>
             </Card>
 
+            {/* Structural diff */}
+            {activeFile && compareFile && (
+              <JsonDiffView
+                left={activeFile}
+                right={compareFile}
+                maxNodes={FILE_LIMITS.freeViewLimit}
+                onCopy={handleCopyValue}
+                onSwap={() => {
+                  const leftId = activeFile.id
+                  setActiveFileIndex(files.findIndex(file => file.id === compareFile.id))
+                  setCompareFileId(leftId)
+                }}
+                onClose={() => setCompareFileId(null)}
+              />
+            )}
+
             {/* JSON Viewer */}
-            {activeFile && (
+            {activeFile && !compareFile && (
               <>
+                {activeFile.serializeError && (
+                  <Alert variant="error" title="The raw view shows the last version that could be written">
+                    {activeFile.serializeError}
+                  </Alert>
+                )}
                 {activeFile.errors && activeFile.errors.length > 0 ? (
                   <Card>
-                    <CardContent className="py-12 text-center">
-                      <AlertCircle className="size-12 text-destructive mx-auto mb-4" />
-                      <h3 className="text-lg font-semibold mb-2">Failed to Parse File</h3>
-                      <div className="text-sm text-muted-foreground space-y-1">
+                    <CardContent className="py-12">
+                      <div className="text-center">
+                        <AlertCircle className="size-12 text-destructive mx-auto mb-4" />
+                        <h3 className="text-lg font-semibold mb-2">Failed to Parse File</h3>
+                        {activeFile.parseMode !== 'lenient' && (activeFile.format ?? 'json') === 'json' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mb-4"
+                            onClick={() => handleReparse(activeFile, { parseMode: 'lenient' })}
+                          >
+                            Retry as JSON5 / JSONC
+                          </Button>
+                        )}
+                      </div>
+                      <div className="space-y-4 max-w-3xl mx-auto">
                         {activeFile.errors.map((error, index) => (
-                          <p key={index}>{error}</p>
+                          <ParseErrorDetails
+                            key={index}
+                            error={error}
+                            onJumpToLine={setErrorLine}
+                          />
                         ))}
                       </div>
+                      {activeFile.errors.some(error => error.line !== undefined) && (
+                        <CodeBlock
+                          code={activeFile.content}
+                          language={getSourceLanguage(activeFile)}
+                          maxHeight="400px"
+                          highlightLine={errorLine ?? activeFile.errors.find(error => error.line !== undefined)?.line}
+                          className="mt-6"
+                        />
+                      )}
                     </CardContent>
                   </Card>
-                ) : activeFile.parsedData ? (
+                ) : activeFile.parsedData !== undefined ? (
                   viewMode === 'tree' ? (
-                    <JsonTreeView
+                    <>
+                      <JsonQueryConsole
+                        key={`query-${activeFile.id}`}
+                        data={activeFile.parsedData}
+                        onMatchesChange={handleQueryMatches}
+                        onOpenAsFile={(results) => handleOpenQueryResults(activeFile, results)}
+                        onCopy={(values: any[]) => toast.success(`Copied ${values.length} result(s) to clipboard`)}
+                      />
+                      <JqFilterPanel
+                        key={`jq-${activeFile.id}`}
+                        data={activeFile.parsedData}
+                        history={filterHistory[activeFile.id]}
+                        onResult={(filter, result) => handleFilterResult(activeFile, filter, result)}
+                        onOpenResult={() => handleOpenFilterResult(activeFile)}
+                      />
+                      {activeRecords && activeRecords.recordCount > 0 && (
+                        <JsonLinesNavigator
+                          info={activeRecords}
+                          index={activeRecordIndex}
+                          showAll={showAllRecords}
+                          onIndexChange={(index) => setRecordIndexes(prev => ({ ...prev, [activeFile.id]: index }))}
+                          onShowAllChange={setShowAllRecords}
+                        />
+                      )}
+                      <JsonTreeView
+                        key={activeFile.id}
+                        data={treeData}
+                        title={recordPath !== undefined
+                          ? `${activeFile.name} - Record ${activeRecordIndex + 1}`
+                          : `${activeFile.name} - Tree View`}
+                        maxNodes={FILE_LIMITS.freeViewLimit}
+                        onCopy={handleCopyValue}
+                        validationErrors={treeValidationErrors}
+                        highlightedPaths={treeHighlights}
+                        duplicateKeys={treeDuplicateKeys}
+                        extendedTypes={treeExtendedTypes}
+                        onEdit={isEditable ? (operation) => handleEdit(activeFile, recordPath === undefined
+                          ? operation
+                          : { ...operation, path: joinTreePath(recordPath, operation.path) }
+                        ) : undefined}
+                        initialExpandedPaths={expandedPaths[activeFile.id]}
+                        onExpandedPathsChange={(paths) => handleExpandedPathsChange(activeFile.id, paths)}
+                      />
+                    </>
+                  ) : viewMode === 'formatted' ? (
+                    <JsonFormattedView
                       data={activeFile.parsedData}
-                      title={`${activeFile.name} - Tree View`}
-                      maxNodes={FILE_LIMITS.freeViewLimit}
-                      onCopy={handleCopyValue}
+                      comments={activeFile.comments}
+                      title={`${activeFile.name} - Formatted`}
+                      onCopy={() => toast.success('Copied formatted JSON to clipboard')}
                     />
                   ) : (
                     <Card>
@@ -414,9 +1654,10 @@ export default function HomePage() {
                       </CardHeader>
                       <CardContent>
                         <CodeBlock
-                          code={activeFile.content}
-                          language="json"
+                          code={rawContent}
+                          language={getSourceLanguage(activeFile)}
                           maxHeight="600px"
+                          highlightLine={errorLine}
                         />
                       </CardContent>
                     </Card>
@@ -428,6 +1669,16 @@ export default function HomePage() {
                         text="Processing JSON file..." 
                         size="lg" 
                       />
+                      {parseProgress[activeFile.id] && (
+                        <div className="mt-6 w-full max-w-sm mx-auto">
+                          <Progress
+                            value={parseProgress[activeFile.id].progress}
+                            showLabel={true}
+                            label={parseProgress[activeFile.id].stage}
+                            size="sm"
+                          />
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 )}
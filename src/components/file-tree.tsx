@@ -0,0 +1,74 @@
+"use client"
+
+import { useState } from 'react'
+import { Archive, ChevronDown, ChevronRight, Folder, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { FileTreeFile, FileTreeFolder, FileTreeNode } from '@/lib/file-tree'
+
+interface FileTreeProps {
+  nodes: FileTreeNode[]
+  renderFile: (node: FileTreeFile) => React.ReactNode
+  onCloseArchive: (archiveId: string) => void
+}
+
+const INDENT_PX = 12
+
+export function FileTree({ nodes, renderFile, onCloseArchive }: FileTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const toggle = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const renderFolder = (folder: FileTreeFolder, depth: number) => {
+    const isExpanded = !collapsed.has(folder.key)
+    const Icon = folder.archiveId ? Archive : Folder
+
+    return (
+      <div key={folder.key} className="space-y-1">
+        <div className="flex items-center gap-1" style={{ paddingLeft: depth * INDENT_PX }}>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex-1 min-w-0 justify-start px-2"
+            onClick={() => toggle(folder.key)}
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? <ChevronDown className="size-3" /> : <ChevronRight className="size-3" />}
+            <Icon className={folder.archiveId ? 'size-4 text-blue-500' : 'size-4 text-muted-foreground'} />
+            <span className="truncate text-sm">{folder.name}</span>
+            <span className="ml-auto text-xs text-muted-foreground">{folder.fileCount}</span>
+          </Button>
+          {folder.archiveId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="size-8 p-0 flex-shrink-0"
+              onClick={() => onCloseArchive(folder.archiveId!)}
+              title={`Close all ${folder.fileCount} files of ${folder.name}`}
+            >
+              <X className="size-4" />
+            </Button>
+          )}
+        </div>
+        {isExpanded && folder.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    )
+  }
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    if (node.kind === 'folder') return renderFolder(node, depth)
+    return (
+      <div key={node.key} style={{ paddingLeft: depth * INDENT_PX }}>
+        {renderFile(node)}
+      </div>
+    )
+  }
+
+  return <div className="space-y-2">{nodes.map(node => renderNode(node, 0))}</div>
+}
@@ -7,10 +7,15 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { LoadingSpinner } from '@/components/ui/spinner'
 import { Progress } from '@/components/ui/progress'
-import { cn } from '@/lib/utils'
+import { cn, generateId } from '@/lib/utils'
 import { FileData } from '@/types'
 import { FILE_LIMITS } from '@/config/constants'
-import { extractZipFile, isZipFile, getZipExtractionSummary } from '@/lib/zip-extractor'
+import { extractArchiveFile, isArchiveFile, getZipExtractionSummary, ARCHIVE_EXTENSIONS } from '@/lib/zip-extractor'
+import { getDocumentFormat, getDefaultParseMode, DOCUMENT_EXTENSIONS } from '@/lib/json-parser'
+import { bytesToBase64, isBinaryFile } from '@/lib/binary-converter'
+import { decodeText } from '@/lib/text-encoding'
+
+const DEFAULT_ACCEPTED_TYPES = [...DOCUMENT_EXTENSIONS, ...ARCHIVE_EXTENSIONS]
 
 interface FileUploadProps {
   onFileSelect: (files: FileData[]) => void
@@ -24,7 +29,7 @@ export function FileUpload({
   onFileSelect,
   onError,
   maxFiles = 10,
-  acceptedTypes = ['.json', '.txt', '.zip'],
+  acceptedTypes = DEFAULT_ACCEPTED_TYPES,
   className
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false)
@@ -49,13 +54,13 @@ export function FileUpload({
         const file = files[i]
         setExtractionStatus(`Processing ${file.name}...`)
 
-        // Check if it's a ZIP file
-        if (isZipFile(file)) {
+        // Check if it's an archive (ZIP, tar or gzip)
+        if (isArchiveFile(file)) {
           try {
-            const extractionResult = await extractZipFile(file, {
+            const extractionResult = await extractArchiveFile(file, {
               maxFileSize: FILE_LIMITS.maxSizeBytes,
               maxFiles: maxFiles - processedFiles.length,
-              supportedExtensions: ['.json', '.txt'],
+              maxDepth: FILE_LIMITS.maxArchiveDepth,
               onProgress: (progress, currentFile) => {
                 setExtractionProgress(progress)
                 setExtractionStatus(`Extracting: ${currentFile}`)
@@ -67,10 +72,10 @@ export function FileUpload({
             warnings.push(...extractionResult.warnings)
 
             const summary = getZipExtractionSummary(extractionResult)
-            setExtractionStatus(`ZIP processed: ${summary}`)
+            setExtractionStatus(`${file.name} processed: ${summary}`)
 
           } catch (error) {
-            const err = handleError(error, `extracting ZIP file ${file.name}`)
+            const err = handleError(error, `extracting archive ${file.name}`)
             errors.push(`${file.name}: ${err.message}`)
           }
           continue
@@ -98,13 +103,18 @@ export function FileUpload({
 
         // Read file content
         try {
-          const content = await readFileContent(file)
+          const { content, encoding, hasBom } = await readFileContent(file)
           processedFiles.push({
+            id: generateId(),
             name: file.name,
             size: file.size,
             type: fileExtension,
             content,
-            lastModified: file.lastModified
+            encoding,
+            hasBom,
+            lastModified: file.lastModified,
+            format: getDocumentFormat(file.name, content),
+            parseMode: getDefaultParseMode(file.name)
           })
         } catch (error) {
           const err = handleError(error, `reading file ${file.name}`)
@@ -135,16 +145,22 @@ export function FileUpload({
     }
   }, [onFileSelect, onError, maxFiles, acceptedTypes, handleError])
 
-  const readFileContent = (file: File): Promise<string> => {
+  // Binary formats are kept as base64; text is decoded in the encoding its
+  // byte order mark or content points to
+  const readFileContent = (file: File): Promise<Pick<FileData, 'content' | 'encoding' | 'hasBom'>> => {
+    const isBinary = isBinaryFile(file.name)
     return new Promise((resolve, reject) => {
       const reader = new FileReader()
       
       reader.onload = (e) => {
         const content = e.target?.result
-        if (typeof content === 'string') {
-          resolve(content)
+        if (!(content instanceof ArrayBuffer)) {
+          reject(new Error('Failed to read file'))
+        } else if (isBinary) {
+          resolve({ content: bytesToBase64(new Uint8Array(content)) })
         } else {
-          reject(new Error('Failed to read file as text'))
+          const { text, encoding, hasBom } = decodeText(new Uint8Array(content))
+          resolve({ content: text, encoding, hasBom })
         }
       }
       
@@ -152,7 +168,7 @@ export function FileUpload({
         reject(new Error('File reading failed'))
       }
       
-      reader.readAsText(file)
+      reader.readAsArrayBuffer(file)
     })
   }
 
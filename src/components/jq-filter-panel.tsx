@@ -0,0 +1,161 @@
+"use client"
+
+import { useState, useRef, useEffect } from 'react'
+import { Play, Square, History, ExternalLink } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Spinner } from '@/components/ui/spinner'
+import { CodeBlock } from '@/components/json-syntax-highlighter'
+import { runJqFilterInWorker, isParseCancelled } from '@/lib/json-worker'
+import { JqFilterResult } from '@/lib/jq-filter'
+import { formatJsonString } from '@/lib/json-parser'
+
+interface JqFilterPanelProps {
+  data: any
+  history?: string[]
+  onResult?: (filter: string, result: JqFilterResult) => void
+  onOpenResult?: () => void
+  className?: string
+}
+
+// Highlighting megabytes of output in the pane would stall the page; the full
+// result is available as a document
+const PREVIEW_LENGTH = 100_000
+
+export function JqFilterPanel({
+  data,
+  history = [],
+  onResult,
+  onOpenResult,
+  className
+}: JqFilterPanelProps) {
+  const [filter, setFilter] = useState('.')
+  const [isRunning, setIsRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<JqFilterResult | null>(null)
+  const jobRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => jobRef.current?.abort(), [])
+
+  const runFilter = async (text: string = filter) => {
+    if (!text.trim() || isRunning) return
+
+    const controller = new AbortController()
+    jobRef.current = controller
+    setIsRunning(true)
+    setError(null)
+
+    try {
+      const filterResult = await runJqFilterInWorker(data, text, {}, { signal: controller.signal })
+      setResult(filterResult)
+      onResult?.(text.trim(), filterResult)
+    } catch (err) {
+      if (isParseCancelled(err)) return
+      setResult(null)
+      setError(err instanceof Error ? err.message : 'Filter failed')
+    } finally {
+      if (jobRef.current === controller) jobRef.current = null
+      setIsRunning(false)
+    }
+  }
+
+  const preview = result
+    ? result.outputs.map(output => formatJsonString(output, 2)).join('\n')
+    : ''
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">jq Filter</CardTitle>
+      </CardHeader>
+
+      <CardContent className="pt-0 space-y-3">
+        <textarea
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault()
+              runFilter()
+            }
+          }}
+          rows={3}
+          spellCheck={false}
+          placeholder='.items | map(select(.active)) | group_by(.type) | map({type: .[0].type, count: length})'
+          className="w-full px-3 py-2 text-sm font-mono border rounded-md bg-background resize-y"
+        />
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">Ctrl+Enter to run</span>
+          {isRunning ? (
+            <div className="flex items-center space-x-2">
+              <Spinner size="sm" />
+              <Button size="sm" variant="outline" onClick={() => jobRef.current?.abort()}>
+                <Square className="size-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button size="sm" onClick={() => runFilter()} disabled={!filter.trim()}>
+              <Play className="size-4 mr-1" />
+              Run
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400 font-mono whitespace-pre-wrap">{error}</p>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <History className="size-3" />
+              Recent filters
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {history.map(entry => (
+                <button
+                  key={entry}
+                  type="button"
+                  title={entry}
+                  onClick={() => setFilter(entry)}
+                  className="max-w-full truncate px-2 py-0.5 text-xs font-mono border rounded-md hover:bg-muted"
+                >
+                  {entry}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {result.outputs.length} output{result.outputs.length === 1 ? '' : 's'}
+                {result.truncated && ' (truncated)'}
+              </span>
+              {onOpenResult && (
+                <Button variant="ghost" size="sm" onClick={onOpenResult} className="h-7 text-xs">
+                  <ExternalLink className="size-3 mr-1" />
+                  Open result
+                </Button>
+              )}
+            </div>
+            {result.warnings?.map(warning => (
+              <p key={warning} className="text-xs text-amber-600 dark:text-amber-400">{warning}</p>
+            ))}
+            {result.outputs.length > 0 && (
+              <CodeBlock
+                code={preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}\n…` : preview}
+                language="json"
+                maxHeight="240px"
+              />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
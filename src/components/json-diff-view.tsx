@@ -0,0 +1,208 @@
+"use client"
+
+import { useState, useMemo } from 'react'
+import { ArrowLeftRight, Copy, Download, X } from 'lucide-react'
+import { saveAs } from 'file-saver'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { JsonTreeView, TreeRowHighlight } from '@/components/json-tree-view'
+import { diffJson, DiffChangeKind, JsonPatchOperation } from '@/lib/json-diff'
+import { formatJsonString } from '@/lib/json-parser'
+import { cn } from '@/lib/utils'
+import { FileData } from '@/types'
+
+interface JsonDiffViewProps {
+  left: FileData
+  right: FileData
+  maxNodes?: number
+  onSwap?: () => void
+  onClose?: () => void
+  onCopy?: (value: any, path: string) => void
+}
+
+const KIND_LABELS: Record<DiffChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  moved: 'Moved'
+}
+
+const KIND_CLASSES: Record<DiffChangeKind, string> = {
+  added: 'text-green-600 dark:text-green-400',
+  removed: 'text-red-600 dark:text-red-400',
+  changed: 'text-amber-600 dark:text-amber-400',
+  moved: 'text-blue-600 dark:text-blue-400'
+}
+
+const OP_CLASSES: Record<JsonPatchOperation['op'], string> = {
+  add: 'text-green-600 dark:text-green-400',
+  remove: 'text-red-600 dark:text-red-400',
+  replace: 'text-amber-600 dark:text-amber-400',
+  move: 'text-blue-600 dark:text-blue-400'
+}
+
+function previewValue(value: any): string {
+  const text = formatJsonString(value, 0)
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text
+}
+
+export function JsonDiffView({ left, right, maxNodes, onSwap, onClose, onCopy }: JsonDiffViewProps) {
+  const [matchKey, setMatchKey] = useState('')
+  const [detectMoves, setDetectMoves] = useState(true)
+
+  const diff = useMemo(
+    () => diffJson(left.parsedData, right.parsedData, {
+      arrayMatchKey: matchKey.trim() || undefined,
+      detectMoves
+    }),
+    [left.parsedData, right.parsedData, matchKey, detectMoves]
+  )
+
+  const { leftHighlights, rightHighlights } = useMemo(() => {
+    const leftHighlights = new Map<string, TreeRowHighlight>()
+    const rightHighlights = new Map<string, TreeRowHighlight>()
+
+    diff.changes.forEach(change => {
+      if (change.leftPath !== undefined) leftHighlights.set(change.leftPath, change.kind)
+      if (change.rightPath !== undefined) rightHighlights.set(change.rightPath, change.kind)
+    })
+
+    return { leftHighlights, rightHighlights }
+  }, [diff])
+
+  const patchText = useMemo(() => formatJsonString(diff.patch, 2), [diff.patch])
+  const patchName = `${left.name.replace(/\.[^.]+$/, '')}-to-${right.name.replace(/\.[^.]+$/, '')}.patch.json`
+
+  const handleCopyPatch = async () => {
+    try {
+      await navigator.clipboard.writeText(patchText)
+      onCopy?.(diff.patch, 'JSON Patch')
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error)
+    }
+  }
+
+  const handleExportPatch = () => {
+    saveAs(new Blob([patchText], { type: 'application/json-patch+json' }), patchName)
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="text-lg truncate">
+              {left.name} ↔ {right.name}
+            </CardTitle>
+
+            <div className="flex items-center space-x-2">
+              {onSwap && (
+                <Button variant="ghost" size="sm" onClick={onSwap} className="h-8" title="Swap sides">
+                  <ArrowLeftRight className="size-4" />
+                </Button>
+              )}
+              {onClose && (
+                <Button variant="ghost" size="sm" onClick={onClose} className="h-8" title="Close comparison">
+                  <X className="size-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="pt-0 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(KIND_LABELS) as DiffChangeKind[]).map(kind => (
+              <Badge key={kind} variant="outline" className={KIND_CLASSES[kind]}>
+                {KIND_LABELS[kind]}: {diff.summary[kind]}
+              </Badge>
+            ))}
+            {diff.changes.length === 0 && (
+              <span className="text-sm text-muted-foreground">Documents are identical</span>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <span className="text-muted-foreground">Match array items by key</span>
+              <input
+                type="text"
+                placeholder="e.g. id"
+                value={matchKey}
+                onChange={(e) => setMatchKey(e.target.value)}
+                className="w-28 px-2 py-1 text-sm border rounded-md bg-background"
+              />
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={detectMoves}
+                onChange={(e) => setDetectMoves(e.target.checked)}
+              />
+              Detect moved elements
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 xl:grid-cols-2">
+        <JsonTreeView
+          data={left.parsedData}
+          title={left.name}
+          maxNodes={maxNodes}
+          onCopy={onCopy}
+          highlightedPaths={leftHighlights}
+        />
+        <JsonTreeView
+          data={right.parsedData}
+          title={right.name}
+          maxNodes={maxNodes}
+          onCopy={onCopy}
+          highlightedPaths={rightHighlights}
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">JSON Patch ({diff.patch.length} operations)</CardTitle>
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="sm" onClick={handleCopyPatch} className="h-8 text-xs">
+                <Copy className="size-4 mr-1" />
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleExportPatch} className="h-8 text-xs">
+                <Download className="size-4 mr-1" />
+                Export
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="pt-0">
+          {diff.patch.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No operations needed</p>
+          ) : (
+            <div className="font-mono text-xs max-h-96 overflow-auto border rounded-md p-3 bg-muted/30 space-y-1">
+              {diff.patch.map((operation, index) => (
+                <div key={index} className="flex gap-3 whitespace-nowrap">
+                  <span className={cn('w-16 flex-shrink-0 font-semibold', OP_CLASSES[operation.op])}>
+                    {operation.op}
+                  </span>
+                  <span className="flex-shrink-0">{operation.path || '/'}</span>
+                  {operation.from !== undefined && (
+                    <span className="text-muted-foreground">from {operation.from || '/'}</span>
+                  )}
+                  {'value' in operation && (
+                    <span className="text-muted-foreground truncate">{previewValue(operation.value)}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+"use client"
+
+import { useState, useMemo } from 'react'
+import { Copy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { JsonSyntaxHighlighter } from '@/components/json-syntax-highlighter'
+import { formatJsonString } from '@/lib/json-parser'
+import { formatJsonWithComments } from '@/lib/json5-parser'
+import { INDENT_SIZES, toIndent } from '@/lib/preferences'
+import { usePreferencesStore } from '@/stores/preferences-store'
+import { IndentSize, JsonComment } from '@/types'
+
+interface JsonFormattedViewProps {
+  data: any
+  comments?: JsonComment[]
+  title?: string
+  className?: string
+  onCopy?: (text: string) => void
+}
+
+// Tokenizing hundreds of thousands of lines would stall the page
+const MAX_RENDERED_LINES = 5000
+
+export function JsonFormattedView({
+  data,
+  comments,
+  title = 'Formatted',
+  className,
+  onCopy
+}: JsonFormattedViewProps) {
+  // Follows the indentation preference until changed here
+  const preferredIndent = usePreferencesStore(state => state.indentSize)
+  const [indentOverride, setIndentOverride] = useState<IndentSize | null>(null)
+  const indent = indentOverride ?? preferredIndent
+  const [sortKeys, setSortKeys] = useState(false)
+  const [minify, setMinify] = useState(false)
+  const [keepComments, setKeepComments] = useState(true)
+  const hasComments = !!comments && comments.length > 0
+
+  // Minified output has no lines to put comments on
+  const text = useMemo(() => {
+    const spacing = minify ? 0 : toIndent(indent)
+    return hasComments && keepComments && !minify
+      ? formatJsonWithComments(data, comments, spacing, sortKeys)
+      : formatJsonString(data, spacing, undefined, sortKeys)
+  }, [data, comments, hasComments, indent, sortKeys, minify, keepComments])
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      onCopy?.(text)
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error)
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">{title}</CardTitle>
+
+          <Button variant="ghost" size="sm" onClick={handleCopy} className="h-8 text-xs">
+            <Copy className="size-4 mr-1" />
+            Copy
+          </Button>
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Indent</span>
+            <select
+              value={indent}
+              onChange={(e) => setIndentOverride(e.target.value as IndentSize)}
+              disabled={minify}
+              className="px-2 py-1 text-sm border rounded-md bg-background"
+            >
+              {INDENT_SIZES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={sortKeys}
+              onChange={(e) => setSortKeys(e.target.checked)}
+            />
+            Sort keys
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={minify}
+              onChange={(e) => setMinify(e.target.checked)}
+            />
+            Minify
+          </label>
+          {hasComments && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={keepComments}
+                onChange={(e) => setKeepComments(e.target.checked)}
+                disabled={minify}
+              />
+              Keep comments
+            </label>
+          )}
+          <span className="text-xs text-muted-foreground">
+            {(new Blob([text]).size / 1024).toFixed(1)} KB
+          </span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="pt-0">
+        <div className="border rounded-md p-4 bg-muted/30 overflow-auto" style={{ maxHeight: 600 }}>
+          <JsonSyntaxHighlighter
+            code={text}
+            showLineNumbers={true}
+            maxLines={MAX_RENDERED_LINES}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { JsonLinesInfo } from '@/types'
+
+interface JsonLinesNavigatorProps {
+  info: JsonLinesInfo
+  index: number
+  showAll: boolean
+  onIndexChange: (index: number) => void
+  onShowAllChange: (showAll: boolean) => void
+  className?: string
+}
+
+export function JsonLinesNavigator({
+  info,
+  index,
+  showAll,
+  onIndexChange,
+  onShowAllChange,
+  className
+}: JsonLinesNavigatorProps) {
+  const [text, setText] = useState(String(index + 1))
+  const lastIndex = info.recordCount - 1
+
+  useEffect(() => {
+    setText(String(index + 1))
+  }, [index])
+
+  const goTo = (target: number) => {
+    onIndexChange(Math.min(Math.max(target, 0), lastIndex))
+  }
+
+  const jumpToTyped = () => {
+    const record = Number.parseInt(text, 10)
+    if (Number.isNaN(record)) {
+      setText(String(index + 1))
+    } else {
+      goTo(record - 1)
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardContent className="py-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" onClick={() => goTo(0)} disabled={showAll || index === 0} className="h-7 w-7 p-0" title="First record">
+            <ChevronsLeft className="size-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => goTo(index - 1)} disabled={showAll || index === 0} className="h-7 w-7 p-0" title="Previous record">
+            <ChevronLeft className="size-4" />
+          </Button>
+          <span className="text-muted-foreground">Record</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={jumpToTyped}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') jumpToTyped()
+            }}
+            disabled={showAll}
+            className="w-16 px-2 py-0.5 text-sm text-center border rounded-md bg-background"
+          />
+          <span className="text-muted-foreground">of {info.recordCount}</span>
+          <Button variant="ghost" size="sm" onClick={() => goTo(index + 1)} disabled={showAll || index >= lastIndex} className="h-7 w-7 p-0" title="Next record">
+            <ChevronRight className="size-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => goTo(lastIndex)} disabled={showAll || index >= lastIndex} className="h-7 w-7 p-0" title="Last record">
+            <ChevronsRight className="size-4" />
+          </Button>
+        </div>
+
+        {!showAll && info.recordLines[index] !== undefined && (
+          <span className="text-xs text-muted-foreground">line {info.recordLines[index]}</span>
+        )}
+
+        <label className="flex items-center gap-2 cursor-pointer ml-auto">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => onShowAllChange(e.target.checked)}
+          />
+          Show all records
+        </label>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import { useState, useCallback } from 'react'
+import { Play, Copy, FilePlus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { queryJsonPath, toJsonPathExpression, JsonPathMatch } from '@/lib/json-path'
+import { formatJsonString, getJsonType } from '@/lib/json-parser'
+
+interface JsonQueryConsoleProps {
+  data: any
+  onMatchesChange?: (matches: JsonPathMatch[]) => void
+  onOpenAsFile?: (results: any[], query: string) => void
+  onCopy?: (value: any, path: string) => void
+  className?: string
+}
+
+// Rendering every match of a broad query like `$..*` would stall the page
+const MAX_LISTED_MATCHES = 200
+
+function previewValue(value: any): string {
+  const type = getJsonType(value)
+  if (type === 'object') return `Object(${Object.keys(value).length})`
+  if (type === 'array') return `Array(${value.length})`
+  const text = formatJsonString(value, 0)
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text
+}
+
+export function JsonQueryConsole({
+  data,
+  onMatchesChange,
+  onOpenAsFile,
+  onCopy,
+  className
+}: JsonQueryConsoleProps) {
+  const [query, setQuery] = useState('')
+  const [matches, setMatches] = useState<JsonPathMatch[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const runQuery = useCallback(() => {
+    if (!query.trim()) return
+
+    try {
+      const results = queryJsonPath(data, query)
+      setMatches(results)
+      setError(null)
+      onMatchesChange?.(results)
+    } catch (err) {
+      setMatches(null)
+      setError(err instanceof Error ? err.message : 'Invalid query')
+      onMatchesChange?.([])
+    }
+  }, [data, query, onMatchesChange])
+
+  const clearQuery = useCallback(() => {
+    setQuery('')
+    setMatches(null)
+    setError(null)
+    onMatchesChange?.([])
+  }, [onMatchesChange])
+
+  const handleCopyResults = async () => {
+    if (!matches) return
+    const values = matches.map(match => match.value)
+    try {
+      await navigator.clipboard.writeText(formatJsonString(values, 2))
+      onCopy?.(values, query)
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+    }
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">JSONPath Query</CardTitle>
+      </CardHeader>
+
+      <CardContent className="pt-0 space-y-3">
+        <div className="flex items-center space-x-2">
+          <div className="relative flex-1">
+            <input
+              type="text"
+              placeholder="$.store.book[?(@.price < 10)].title"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') runQuery()
+                if (e.key === 'Escape') clearQuery()
+              }}
+              spellCheck={false}
+              className="w-full px-3 py-2 pr-8 text-sm font-mono border rounded-md bg-background"
+            />
+            {query && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearQuery}
+                className="absolute right-1 top-1 h-6 w-6 p-0"
+              >
+                <X className="size-3" />
+              </Button>
+            )}
+          </div>
+          <Button size="sm" onClick={runQuery} disabled={!query.trim()}>
+            <Play className="size-4 mr-1" />
+            Run
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {matches && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {matches.length} match{matches.length === 1 ? '' : 'es'}
+              </span>
+              <div className="flex items-center space-x-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleCopyResults}
+                  disabled={matches.length === 0}
+                  className="h-7 text-xs"
+                >
+                  <Copy className="size-3 mr-1" />
+                  Copy as array
+                </Button>
+                {onOpenAsFile && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onOpenAsFile(matches.map(match => match.value), query)}
+                    disabled={matches.length === 0}
+                    className="h-7 text-xs"
+                  >
+                    <FilePlus className="size-3 mr-1" />
+                    Open as file
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {matches.length > 0 && (
+              <div className="font-mono text-xs max-h-60 overflow-auto border rounded-md p-2 bg-muted/30 space-y-0.5">
+                {matches.slice(0, MAX_LISTED_MATCHES).map((match, index) => (
+                  <div key={index} className="flex gap-3 whitespace-nowrap">
+                    <span className="text-red-600 dark:text-red-400 flex-shrink-0">
+                      {toJsonPathExpression(match.path)}
+                    </span>
+                    <span className="truncate text-muted-foreground">
+                      {previewValue(match.value)}
+                    </span>
+                  </div>
+                ))}
+                {matches.length > MAX_LISTED_MATCHES && (
+                  <div className="text-muted-foreground italic pt-1">
+                    ... {matches.length - MAX_LISTED_MATCHES} more
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useMemo } from 'react'
+import { useMemo, useEffect, useRef } from 'react'
 import { cn } from '@/lib/utils'
 
 interface SyntaxHighlighterProps {
@@ -8,11 +8,12 @@ interface SyntaxHighlighterProps {
   language?: 'json' | 'javascript' | 'text'
   showLineNumbers?: boolean
   maxLines?: number
+  highlightLine?: number // 1-based line to mark and scroll into view
   className?: string
 }
 
 interface Token {
-  type: 'key' | 'string' | 'number' | 'boolean' | 'null' | 'punctuation' | 'whitespace' | 'error'
+  type: 'key' | 'string' | 'number' | 'boolean' | 'null' | 'punctuation' | 'whitespace' | 'comment' | 'error'
   value: string
   line: number
   column: number
@@ -52,9 +53,19 @@ function tokenizeJson(code: string): Token[] {
       continue
     }
 
-    // String (including keys)
-    if (char === '"') {
-      let string = '"'
+    // Comments (JSONC / JSON5)
+    if (char === '/' && (code[i + 1] === '/' || code[i + 1] === '*')) {
+      const terminator = code[i + 1] === '/' ? '\n' : '*/'
+      const end = code.indexOf(terminator, i + 2)
+      const commentEnd = end === -1 ? code.length : terminator === '\n' ? end : end + 2
+      addToken('comment', code.slice(i, commentEnd))
+      i = commentEnd
+      continue
+    }
+
+    // String (including keys); JSON5 also allows single quotes
+    if (char === '"' || char === '\'') {
+      let string = char
       i++
       let escaped = false
       
@@ -66,7 +77,7 @@ function tokenizeJson(code: string): Token[] {
           escaped = false
         } else if (currentChar === '\\') {
           escaped = true
-        } else if (currentChar === '"') {
+        } else if (currentChar === char) {
           i++
           break
         }
@@ -85,14 +96,26 @@ function tokenizeJson(code: string): Token[] {
     }
 
     // Numbers
-    if (/[\d\-]/.test(char)) {
+    if (/[\d\-+.]/.test(char)) {
       let number = ''
       
-      // Handle negative sign
-      if (char === '-') {
+      // Handle sign
+      if (char === '-' || char === '+') {
         number += char
         i++
       }
+
+      // JSON5 hexadecimal
+      if (code[i] === '0' && /[xX]/.test(code[i + 1] ?? '')) {
+        number += code.slice(i, i + 2)
+        i += 2
+        while (i < code.length && /[0-9a-fA-F]/.test(code[i])) {
+          number += code[i]
+          i++
+        }
+        addToken('number', number)
+        continue
+      }
       
       // Integer part
       while (i < code.length && /\d/.test(code[i])) {
@@ -128,22 +151,30 @@ function tokenizeJson(code: string): Token[] {
       continue
     }
 
-    // Boolean and null
-    if (char === 't' && code.slice(i, i + 4) === 'true') {
-      addToken('boolean', 'true')
-      i += 4
-      continue
-    }
-    
-    if (char === 'f' && code.slice(i, i + 5) === 'false') {
-      addToken('boolean', 'false')
-      i += 5
-      continue
-    }
-    
-    if (char === 'n' && code.slice(i, i + 4) === 'null') {
-      addToken('null', 'null')
-      i += 4
+    // Literals, plus JSON5 unquoted keys, Infinity and NaN
+    if (/[A-Za-z_$]/.test(char)) {
+      let word = ''
+      while (i < code.length && /[\w$]/.test(code[i])) {
+        word += code[i]
+        i++
+      }
+
+      let j = i
+      while (j < code.length && /\s/.test(code[j])) {
+        j++
+      }
+
+      if (code[j] === ':') {
+        addToken('key', word)
+      } else if (word === 'true' || word === 'false') {
+        addToken('boolean', word)
+      } else if (word === 'null') {
+        addToken('null', word)
+      } else if (word === 'Infinity' || word === 'NaN') {
+        addToken('number', word)
+      } else {
+        addToken('error', word)
+      }
       continue
     }
 
@@ -176,6 +207,8 @@ function getTokenClassName(type: Token['type']): string {
       return 'text-gray-500 dark:text-gray-400 font-medium'
     case 'punctuation':
       return 'text-gray-700 dark:text-gray-300'
+    case 'comment':
+      return 'text-gray-500 dark:text-gray-400 italic'
     case 'error':
       return 'text-red-500 dark:text-red-400 bg-red-100 dark:bg-red-900/30'
     default:
@@ -183,94 +216,100 @@ function getTokenClassName(type: Token['type']): string {
   }
 }
 
+function splitTokensIntoLines(tokens: Token[]): Token[][] {
+  const lines: Token[][] = [[]]
+
+  for (const token of tokens) {
+    const parts = token.value.split('\n')
+    parts.forEach((part, index) => {
+      if (index > 0) lines.push([])
+      if (part) lines[lines.length - 1].push({ ...token, value: part })
+    })
+  }
+
+  return lines
+}
+
 export function JsonSyntaxHighlighter({
   code,
   language = 'json',
   showLineNumbers = true,
   maxLines,
+  highlightLine,
   className
 }: SyntaxHighlighterProps) {
-  const { tokens, lineCount } = useMemo(() => {
+  const highlightRef = useRef<HTMLDivElement>(null)
+
+  const lines = useMemo(() => {
     if (language !== 'json') {
       // For non-JSON, just return the code as-is
-      const lines = code.split('\n')
-      return {
-        tokens: [{ type: 'whitespace' as const, value: code, line: 1, column: 1 }],
-        lineCount: lines.length
-      }
+      return splitTokensIntoLines([{ type: 'whitespace', value: code, line: 1, column: 1 }])
     }
 
-    const tokens = tokenizeJson(code)
-    const lineCount = Math.max(1, ...tokens.map(t => t.line))
-    
-    return { tokens, lineCount }
+    return splitTokensIntoLines(tokenizeJson(code))
   }, [code, language])
 
-  const displayTokens = useMemo(() => {
-    if (!maxLines) return tokens
-
-    return tokens.filter(token => token.line <= maxLines)
-  }, [tokens, maxLines])
-
-  const lineNumbers = useMemo(() => {
-    const totalLines = maxLines ? Math.min(lineCount, maxLines) : lineCount
-    return Array.from({ length: totalLines }, (_, i) => i + 1)
-  }, [lineCount, maxLines])
-
-  if (language !== 'json') {
-    return (
-      <div className={cn('font-mono text-sm overflow-auto', className)}>
-        <div className="flex">
-          {showLineNumbers && (
-            <div className="flex-shrink-0 pr-4 text-muted-foreground border-r mr-4 select-none">
-              {lineNumbers.map(num => (
-                <div key={num} className="text-right leading-6">
-                  {num}
-                </div>
-              ))}
-            </div>
-          )}
-          
-          <div className="flex-1 min-w-0">
-            <pre className="leading-6 whitespace-pre-wrap break-words">
-              {code}
-            </pre>
-          </div>
-        </div>
-      </div>
-    )
-  }
+  const lineCount = lines.length
+
+  const displayLines = useMemo(() => {
+    if (!maxLines) return lines
+
+    return lines.slice(0, maxLines)
+  }, [lines, maxLines])
+
+  // Bring the highlighted line (e.g. a syntax error) into view
+  useEffect(() => {
+    if (highlightLine) {
+      highlightRef.current?.scrollIntoView({ block: 'center' })
+    }
+  }, [highlightLine, code])
 
   return (
     <div className={cn('font-mono text-sm overflow-auto', className)}>
-      <div className="flex">
-        {showLineNumbers && (
-          <div className="flex-shrink-0 pr-4 text-muted-foreground border-r mr-4 select-none">
-            {lineNumbers.map(num => (
-              <div key={num} className="text-right leading-6">
-                {num}
-              </div>
-            ))}
-          </div>
-        )}
-        
-        <div className="flex-1 min-w-0">
-          <pre className="leading-6 whitespace-pre-wrap break-words">
-            {displayTokens.map((token, index) => (
-              <span
-                key={index}
-                className={cn(
-                  getTokenClassName(token.type),
-                  token.type === 'whitespace' && 'whitespace-pre'
-                )}
-              >
-                {token.value}
+      <pre className="leading-6">
+        {displayLines.map((lineTokens, index) => {
+          const lineNumber = index + 1
+          const isHighlighted = lineNumber === highlightLine
+
+          return (
+            <div
+              key={lineNumber}
+              ref={isHighlighted ? highlightRef : undefined}
+              data-line={lineNumber}
+              className={cn(
+                'flex',
+                isHighlighted && 'bg-red-100 dark:bg-red-900/30'
+              )}
+            >
+              {showLineNumbers && (
+                <span
+                  className={cn(
+                    'flex-shrink-0 min-w-10 pr-4 mr-4 text-right border-r select-none',
+                    isHighlighted ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-muted-foreground'
+                  )}
+                >
+                  {lineNumber}
+                </span>
+              )}
+
+              <span className="flex-1 min-w-0 whitespace-pre-wrap break-words">
+                {lineTokens.length === 0 ? ' ' : lineTokens.map((token, tokenIndex) => (
+                  <span
+                    key={tokenIndex}
+                    className={cn(
+                      getTokenClassName(token.type),
+                      token.type === 'whitespace' && 'whitespace-pre'
+                    )}
+                  >
+                    {token.value}
+                  </span>
+                ))}
               </span>
-            ))}
-          </pre>
-        </div>
-      </div>
-      
+            </div>
+          )
+        })}
+      </pre>
+
       {maxLines && lineCount > maxLines && (
         <div className="mt-2 text-center text-sm text-muted-foreground italic border-t pt-2">
           ... {lineCount - maxLines} more lines (showing first {maxLines} lines)
@@ -287,6 +326,7 @@ export function CodeBlock({
   copyable = true,
   collapsible = false,
   maxHeight = '400px',
+  highlightLine,
   className
 }: {
   code: string
@@ -295,6 +335,7 @@ export function CodeBlock({
   copyable?: boolean
   collapsible?: boolean
   maxHeight?: string
+  highlightLine?: number
   className?: string
 }) {
   const handleCopy = async () => {
@@ -332,6 +373,7 @@ export function CodeBlock({
           code={code}
           language={language}
           showLineNumbers={true}
+          highlightLine={highlightLine}
         />
       </div>
     </div>
@@ -1,27 +1,35 @@
 "use client"
 
-import { useState, useMemo, useCallback, useEffect } from 'react'
-import { ChevronRight, ChevronDown, Copy, Search, Eye, EyeOff, ArrowUp, ArrowDown, X } from 'lucide-react'
+import { useState, useMemo, useCallback, useEffect, useRef, memo } from 'react'
+import {
+  ChevronRight, ChevronDown, Copy, Search, Eye, EyeOff, ArrowUp, ArrowDown, X, AlertCircle,
+  Pencil, Plus, CopyPlus, Trash2, Check, CaseSensitive
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert } from '@/components/ui/alert'
 import { cn } from '@/lib/utils'
-import { getJsonType } from '@/lib/json-parser'
-
-interface JsonTreeNodeProps {
-  data: any
-  path?: string
-  level?: number
-  isExpanded?: boolean
-  onToggle?: (path: string) => void
-  onCopy?: (value: any, path: string) => void
-  maxNodes?: number
-  nodeCount?: { current: number }
-  isLimited?: boolean
-  searchTerm?: string
-  searchResults?: {path: string, value: any, type: string}[]
-  currentSearchIndex?: number
-}
+import { formatJsonString, getJsonType } from '@/lib/json-parser'
+import { isLosslessNumber, toJsonNumber } from '@/lib/lossless-number'
+import { JsonEditOperation, getUniqueKey, NEW_PROPERTY_KEY } from '@/lib/json-edit'
+import { formatDateForDisplay, formatNumberForDisplay, toIndent } from '@/lib/preferences'
+import { usePreferencesStore } from '@/stores/preferences-store'
+import {
+  DateDisplayFormat,
+  DuplicateKey,
+  DuplicateKeyValue,
+  ExtendedType,
+  NumberDisplayFormat,
+  ValidationError
+} from '@/types'
+import {
+  JsonTreeRow,
+  flattenJsonTree,
+  collectExpandablePaths,
+  getAncestorPaths,
+  joinPropertyPath,
+  joinIndexPath
+} from '@/lib/json-tree-model'
 
 interface JsonTreeViewProps {
   data: any
@@ -31,6 +39,23 @@ interface JsonTreeViewProps {
   showTypes?: boolean
   className?: string
   onCopy?: (value: any, path: string) => void
+  validationErrors?: ValidationError[]
+  highlightedPaths?: Map<string, TreeRowHighlight>
+  duplicateKeys?: DuplicateKey[] // Keys repeated in the source; their dropped values can be shown
+  extendedTypes?: ExtendedType[] // Shown as badges next to the values
+  onEdit?: (operation: JsonEditOperation) => void // Editing is enabled when set
+  initialExpandedPaths?: string[] // Restores the expanded nodes of an earlier visit; only read on mount
+  onExpandedPathsChange?: (paths: string[]) => void
+}
+
+export type TreeRowHighlight = 'added' | 'removed' | 'changed' | 'moved' | 'match'
+
+const HIGHLIGHT_CLASSES: Record<TreeRowHighlight, string> = {
+  added: 'bg-green-100 dark:bg-green-900/30',
+  removed: 'bg-red-100 dark:bg-red-900/30 line-through decoration-red-500/60',
+  changed: 'bg-amber-100 dark:bg-amber-900/30',
+  moved: 'bg-blue-50 dark:bg-blue-900/20 italic',
+  match: 'bg-violet-100 dark:bg-violet-900/30'
 }
 
 function getValueColor(type: string): string {
@@ -57,162 +82,263 @@ function formatValue(value: any, type: string): string {
   }
 }
 
-function JsonTreeNode({
-  data,
-  path = '',
-  level = 0,
-  isExpanded = false,
-  onToggle,
-  onCopy,
-  maxNodes = 50,
-  nodeCount = { current: 0 },
-  isLimited = false,
-  searchTerm = '',
-  searchResults = [],
-  currentSearchIndex = -1
-}: JsonTreeNodeProps) {
-  const type = getJsonType(data)
-  const isExpandable = type === 'object' || type === 'array'
-  const hasChildren = isExpandable && (
-    type === 'array' ? data.length > 0 : Object.keys(data).length > 0
-  )
+const ROW_HEIGHT = 28
+const VIEWPORT_HEIGHT = 600
+const OVERSCAN_ROWS = 10
 
-  const handleToggle = useCallback(() => {
-    if (hasChildren && onToggle) {
-      onToggle(path)
-    }
-  }, [hasChildren, onToggle, path])
+type SearchResult = { path: string, value: any, type: string }
+
+type EditingField = 'key' | 'value'
+type EditableType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array'
 
-  const handleCopy = useCallback(() => {
-    if (onCopy) {
-      onCopy(data, path)
+const EDITABLE_TYPES: EditableType[] = ['string', 'number', 'boolean', 'null', 'object', 'array']
+
+const EDITOR_INPUT_CLASS = 'h-6 px-1.5 text-xs font-mono border rounded bg-background'
+
+function toEditedValue(type: EditableType, text: string, flag: boolean): { value: any } | { error: string } {
+  switch (type) {
+    case 'string':
+      return { value: text }
+    case 'number': {
+      const number = Number(text.trim())
+      return text.trim() && Number.isFinite(number) ? { value: toJsonNumber(text.trim()) } : { error: 'Enter a finite number' }
     }
-  }, [onCopy, data, path])
-
-  // Check if this node matches current search result
-  const isCurrentSearchResult = searchResults.length > 0 && currentSearchIndex >= 0 && 
-    searchResults[currentSearchIndex]?.path === path
-  
-  // Check if this node is a search result
-  const isSearchResult = searchResults.some(result => result.path === path)
-
-  // Function to highlight matching text
-  const highlightText = useCallback((text: string, searchTerm: string) => {
-    if (!searchTerm.trim()) return text
-    
-    const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi')
-    const parts = text.split(regex)
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-200 dark:bg-yellow-900 px-0.5 rounded">
-          {part}
-        </mark>
-      ) : part
-    )
-  }, [])
+    case 'boolean':
+      return { value: flag }
+    case 'null':
+      return { value: null }
+    case 'object':
+      return { value: {} }
+    case 'array':
+      return { value: [] }
+  }
+}
 
-  // Check if we've exceeded the node limit
-  if (nodeCount.current >= maxNodes) {
-    return (
-      <div className={cn("py-1", level > 0 && "ml-6")}>
-        <div className="text-muted-foreground text-sm italic">
-          ... ({maxNodes} node limit reached) {isLimited && "- Subscribe for unlimited viewing"}
-        </div>
-      </div>
-    )
+// Keys typed into the editors must not trigger page shortcuts such as
+// Delete (remove file) or Escape (clear search)
+function handleEditorKeys(e: React.KeyboardEvent, onCommit: () => void, onCancel: () => void) {
+  e.stopPropagation()
+  if (e.key === 'Enter') {
+    e.preventDefault()
+    onCommit()
+  } else if (e.key === 'Escape') {
+    onCancel()
   }
+}
 
-  nodeCount.current++
+function EditorButtons({ onCommit, onCancel, disabled }: { onCommit: () => void, onCancel: () => void, disabled?: boolean }) {
+  return (
+    <>
+      <Button variant="ghost" size="sm" onClick={onCommit} disabled={disabled} className="h-6 w-6 p-0" title="Apply">
+        <Check className="size-3" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onCancel} className="h-6 w-6 p-0" title="Cancel">
+        <X className="size-3" />
+      </Button>
+    </>
+  )
+}
 
-  const renderChildren = () => {
-    if (!isExpanded || !hasChildren) return null
+function KeyEditor({ initialKey, onCommit, onCancel }: {
+  initialKey: string
+  onCommit: (key: string) => void
+  onCancel: () => void
+}) {
+  const [text, setText] = useState(initialKey)
+  const commit = () => {
+    if (text) onCommit(text)
+  }
 
-    const children = []
-    
-    if (type === 'array') {
-      for (let i = 0; i < data.length && nodeCount.current < maxNodes; i++) {
-        children.push(
-          <JsonTreeNode
-            key={i}
-            data={data[i]}
-            path={`${path}[${i}]`}
-            level={level + 1}
-            isExpanded={false}
-            onToggle={onToggle}
-            onCopy={onCopy}
-            maxNodes={maxNodes}
-            nodeCount={nodeCount}
-            isLimited={isLimited}
-            searchTerm={searchTerm}
-            searchResults={searchResults}
-            currentSearchIndex={currentSearchIndex}
-          />
-        )
-      }
-    } else if (type === 'object') {
-      const keys = Object.keys(data)
-      for (let i = 0; i < keys.length && nodeCount.current < maxNodes; i++) {
-        const key = keys[i]
-        const childPath = path ? `${path}.${key}` : key
-        children.push(
-          <JsonTreeNode
-            key={key}
-            data={data[key]}
-            path={childPath}
-            level={level + 1}
-            isExpanded={false}
-            onToggle={onToggle}
-            onCopy={onCopy}
-            maxNodes={maxNodes}
-            nodeCount={nodeCount}
-            isLimited={isLimited}
-            searchTerm={searchTerm}
-            searchResults={searchResults}
-            currentSearchIndex={currentSearchIndex}
-          />
-        )
-      }
-    }
+  return (
+    <span className="flex items-center gap-1 flex-shrink-0" onKeyDown={(e) => handleEditorKeys(e, commit, onCancel)}>
+      <input
+        autoFocus
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onFocus={(e) => e.target.select()}
+        spellCheck={false}
+        className={cn(EDITOR_INPUT_CLASS, 'w-40', !text && 'border-red-500')}
+      />
+      <EditorButtons onCommit={commit} onCancel={onCancel} disabled={!text} />
+    </span>
+  )
+}
 
-    return <div className="ml-4">{children}</div>
+function ValueEditor({ initialValue, onCommit, onCancel }: {
+  initialValue: any
+  onCommit: (value: any) => void
+  onCancel: () => void
+}) {
+  const initialType = getJsonType(initialValue) as EditableType
+  const [type, setType] = useState(initialType)
+  const [text, setText] = useState(initialType === 'string' || initialType === 'number' ? String(initialValue) : '')
+  const [flag, setFlag] = useState(initialValue === true)
+  const edited = toEditedValue(type, text, flag)
+  const commit = () => {
+    if ('value' in edited) onCommit(edited.value)
   }
 
+  return (
+    <span className="flex items-center gap-1 min-w-0" onKeyDown={(e) => handleEditorKeys(e, commit, onCancel)}>
+      <select
+        autoFocus={type !== 'string' && type !== 'number'}
+        value={type}
+        onChange={(e) => setType(e.target.value as EditableType)}
+        className={EDITOR_INPUT_CLASS}
+        title="Value type"
+      >
+        {EDITABLE_TYPES.map(option => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+      {(type === 'string' || type === 'number') && (
+        <input
+          autoFocus
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onFocus={(e) => e.target.select()}
+          inputMode={type === 'number' ? 'decimal' : undefined}
+          spellCheck={false}
+          title={'error' in edited ? edited.error : undefined}
+          className={cn(EDITOR_INPUT_CLASS, 'w-64 min-w-0', 'error' in edited && 'border-red-500')}
+        />
+      )}
+      {type === 'boolean' && (
+        <select
+          value={String(flag)}
+          onChange={(e) => setFlag(e.target.value === 'true')}
+          className={EDITOR_INPUT_CLASS}
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      )}
+      <EditorButtons onCommit={commit} onCancel={onCancel} disabled={'error' in edited} />
+    </span>
+  )
+}
+
+interface JsonTreeRowViewProps {
+  row: JsonTreeRow
+  onToggle: (path: string) => void
+  onCopy: (value: any, path: string) => void
+  searchTerm: string
+  caseSensitive: boolean
+  numberFormat: NumberDisplayFormat
+  dateFormat: DateDisplayFormat
+  isSearchResult: boolean
+  isCurrentSearchResult: boolean
+  validationMessages?: string[]
+  highlight?: TreeRowHighlight
+  editable: boolean
+  editingField?: EditingField
+  onStartEdit: (path: string, field: EditingField) => void
+  onCancelEdit: () => void
+  onCommitEdit: (operation: JsonEditOperation) => void
+  onAddChild: (row: JsonTreeRow) => void
+  duplicate?: DuplicateKey
+  duplicatesShown: boolean
+  onToggleDuplicates: (path: string) => void
+  extendedType?: string
+}
+
+function highlightText(text: string, searchTerm: string, caseSensitive: boolean) {
+  if (!searchTerm.trim()) return text
+
+  const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, caseSensitive ? 'g' : 'gi')
+  const parts = text.split(regex)
+
+  // Captured separators land on odd indexes of the split result
+  return parts.map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-900 px-0.5 rounded">
+        {part}
+      </mark>
+    ) : part
+  )
+}
+
+const JsonTreeRowView = memo(function JsonTreeRowView({
+  row,
+  onToggle,
+  onCopy,
+  searchTerm,
+  caseSensitive,
+  numberFormat,
+  dateFormat,
+  isSearchResult,
+  isCurrentSearchResult,
+  validationMessages,
+  highlight,
+  editable,
+  editingField,
+  onStartEdit,
+  onCancelEdit,
+  onCommitEdit,
+  onAddChild,
+  duplicate,
+  duplicatesShown,
+  onToggleDuplicates,
+  extendedType
+}: JsonTreeRowViewProps) {
+  const { path, key, value, type, level, childCount, isExpandable, isExpanded, overriddenLine } = row
+  const isContainer = type === 'object' || type === 'array'
+  const isOverridden = overriddenLine !== undefined
+
   const renderKey = () => {
-    const pathParts = path.split(/[.\[\]]/).filter(Boolean)
-    const key = pathParts[pathParts.length - 1]
-    
-    if (!key && level === 0) return null
-    
-    if (path.includes('[') && path.includes(']')) {
+    if (key === null) return null
+
+    if (typeof key === 'number') {
       // Array index
-      const match = path.match(/\[(\d+)\]$/)
-      if (match) {
-        return (
-          <span className="text-blue-600 dark:text-blue-400 font-mono">
-            [{match[1]}]:
-          </span>
-        )
-      }
+      return (
+        <span className="text-blue-600 dark:text-blue-400 font-mono flex-shrink-0">
+          [{key}]:
+        </span>
+      )
     }
-    
+
+    if (editingField === 'key') {
+      return (
+        <KeyEditor
+          initialKey={key}
+          onCommit={(newKey) => onCommitEdit({ type: 'rename', path, key: newKey })}
+          onCancel={onCancelEdit}
+        />
+      )
+    }
+
     // Object key
     return (
-      <span className="text-red-600 dark:text-red-400 font-mono">
-        "{highlightText(key, searchTerm)}":
+      <span
+        className="text-red-600 dark:text-red-400 font-mono flex-shrink-0"
+        onDoubleClick={editable ? () => onStartEdit(path, 'key') : undefined}
+      >
+        "{highlightText(key, searchTerm, caseSensitive)}":
       </span>
     )
   }
 
   const renderValue = () => {
-    if (isExpandable) {
-      const itemCount = type === 'array' ? data.length : Object.keys(data).length
-      const preview = type === 'array' ? `Array(${itemCount})` : `Object(${itemCount})`
-      
+    // Dropped values cannot be expanded, so containers are shown inline
+    if (isOverridden) {
+      const text = isContainer ? formatJsonString(value, 0) : formatValue(value, type)
+      return (
+        <span
+          className={cn("font-mono text-sm truncate line-through decoration-amber-500/60", getValueColor(type))}
+          title={text}
+        >
+          {text}
+        </span>
+      )
+    }
+
+    if (isContainer) {
+      const preview = type === 'array' ? `Array(${childCount})` : `Object(${childCount})`
+
       return (
-        <span className="text-muted-foreground">
+        <span className="text-muted-foreground flex-shrink-0">
           {preview}
-          {!isExpanded && itemCount > 0 && (
+          {!isExpanded && childCount > 0 && (
             <span className="ml-2 text-xs">
               {type === 'array' ? '[...]' : '{...}'}
             </span>
@@ -221,67 +347,169 @@ function JsonTreeNode({
       )
     }
 
-    const formattedValue = formatValue(data, type)
+    if (editingField === 'value') {
+      return (
+        <ValueEditor
+          initialValue={value}
+          onCommit={(newValue) => onCommitEdit({ type: 'set', path, value: newValue })}
+          onCancel={onCancelEdit}
+        />
+      )
+    }
+
+    // Values of source types JSON lacks (e.g. dates) are held as text but
+    // shown unquoted, as the source wrote them
+    const sourceValue = extendedType ? String(value) : formatValue(value, type)
+    // Dates and numbers can be shown in another format; the title keeps the source
+    const displayDate = typeof value === 'string' ? formatDateForDisplay(value, dateFormat) : null
+    const formattedValue = type === 'number'
+      ? formatNumberForDisplay(value, numberFormat)
+      : displayDate !== null ? (extendedType ? displayDate : `"${displayDate}"`) : sourceValue
+    let title = formattedValue === sourceValue ? sourceValue : `${formattedValue} (${sourceValue})`
+    if (isLosslessNumber(value)) title = `${title} (exact; beyond JavaScript number precision)`
     return (
-      <span className={cn("font-mono text-sm", getValueColor(type))}>
-        {highlightText(formattedValue, searchTerm)}
+      <span
+        className={cn("font-mono text-sm truncate", extendedType ? 'text-teal-600 dark:text-teal-400' : getValueColor(type))}
+        title={title}
+        onDoubleClick={editable ? () => onStartEdit(path, 'value') : undefined}
+      >
+        {highlightText(formattedValue, searchTerm, caseSensitive)}
       </span>
     )
   }
 
+  const renderDuplicateBadge = () => {
+    if (isOverridden) {
+      return (
+        <span className="text-xs text-amber-600 dark:text-amber-400 flex-shrink-0">
+          overridden, line {overriddenLine}
+        </span>
+      )
+    }
+    if (!duplicate) return null
+
+    const keptLine = duplicate.values[duplicate.values.length - 1].line
+    return (
+      <button
+        type="button"
+        onClick={() => onToggleDuplicates(path)}
+        className="text-xs px-1.5 rounded-full border border-amber-400 text-amber-700 dark:text-amber-400 hover:bg-amber-100 dark:hover:bg-amber-900/30 flex-shrink-0"
+        title={`Duplicate key: ${duplicate.values.length} values, the one on line ${keptLine} is kept. Click to ${duplicatesShown ? 'hide' : 'show'} the others.`}
+      >
+        {duplicate.values.length} values
+      </button>
+    )
+  }
+
   return (
-    <div className="py-0.5">
-      <div
-        className={cn(
-          "flex items-center group hover:bg-accent/50 rounded-sm py-1 px-2 -mx-2",
-          level > 0 && "ml-4",
-          isCurrentSearchResult && "bg-blue-100 dark:bg-blue-900/50 ring-2 ring-blue-500",
-          isSearchResult && !isCurrentSearchResult && "bg-yellow-100 dark:bg-yellow-900/30"
+    <div
+      className={cn(
+        "flex items-center group hover:bg-accent/50 rounded-sm px-2",
+        isOverridden && "opacity-70",
+        highlight && HIGHLIGHT_CLASSES[highlight],
+        isCurrentSearchResult && "bg-blue-100 dark:bg-blue-900/50 ring-2 ring-inset ring-blue-500",
+        isSearchResult && !isCurrentSearchResult && "bg-yellow-100 dark:bg-yellow-900/30",
+        validationMessages && !isSearchResult && "bg-red-50 dark:bg-red-950/40"
+      )}
+      style={{ height: ROW_HEIGHT, paddingLeft: level * 16 + 8 }}
+    >
+      {/* Expansion toggle */}
+      {isExpandable ? (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onToggle(path)}
+          className="h-5 w-5 p-0 mr-1 hover:bg-accent flex-shrink-0"
+        >
+          {isExpanded ? (
+            <ChevronDown className="size-3" />
+          ) : (
+            <ChevronRight className="size-3" />
+          )}
+        </Button>
+      ) : (
+        <div className="w-6 flex-shrink-0" />
+      )}
+
+      {/* Key */}
+      <div className="flex items-center space-x-2 min-w-0 flex-1 whitespace-nowrap">
+        {renderKey()}
+        {renderValue()}
+        {renderDuplicateBadge()}
+        {extendedType && !isOverridden && (
+          <span className="text-xs px-1.5 rounded-full border text-muted-foreground flex-shrink-0">
+            {extendedType}
+          </span>
         )}
-      >
-        {/* Expansion toggle */}
-        {hasChildren ? (
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleToggle}
-            className="h-5 w-5 p-0 mr-1 hover:bg-accent"
-          >
-            {isExpanded ? (
-              <ChevronDown className="size-3" />
+        {validationMessages && (
+          <span title={validationMessages.join('\n')} className="flex-shrink-0">
+            <AlertCircle className="size-3.5 text-red-500" />
+          </span>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center space-x-1 ml-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onCopy(value, path)}
+          className="h-6 w-6 p-0"
+          title="Copy value"
+        >
+          <Copy className="size-3" />
+        </Button>
+        {editable && (
+          <>
+            {isContainer ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onAddChild(row)}
+                className="h-6 w-6 p-0"
+                title={type === 'array' ? 'Add item' : 'Add property'}
+              >
+                <Plus className="size-3" />
+              </Button>
             ) : (
-              <ChevronRight className="size-3" />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onStartEdit(path, 'value')}
+                className="h-6 w-6 p-0"
+                title="Edit value"
+              >
+                <Pencil className="size-3" />
+              </Button>
             )}
-          </Button>
-        ) : (
-          <div className="w-6" />
+            {key !== null && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onCommitEdit({ type: 'duplicate', path })}
+                  className="h-6 w-6 p-0"
+                  title="Duplicate"
+                >
+                  <CopyPlus className="size-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onCommitEdit({ type: 'delete', path })}
+                  className="h-6 w-6 p-0 hover:text-destructive"
+                  title="Delete"
+                >
+                  <Trash2 className="size-3" />
+                </Button>
+              </>
+            )}
+          </>
         )}
-
-        {/* Key */}
-        <div className="flex items-center space-x-2 min-w-0 flex-1">
-          {renderKey()}
-          {renderValue()}
-        </div>
-
-        {/* Actions */}
-        <div className="opacity-0 group-hover:opacity-100 transition-opacity flex items-center space-x-1 ml-2">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleCopy}
-            className="h-6 w-6 p-0"
-            title="Copy value"
-          >
-            <Copy className="size-3" />
-          </Button>
-        </div>
       </div>
-
-      {/* Children */}
-      {renderChildren()}
     </div>
   )
-}
+})
 
 export function JsonTreeView({
   data,
@@ -290,13 +518,41 @@ export function JsonTreeView({
   showPath = false,
   showTypes = false,
   className,
-  onCopy
+  onCopy,
+  validationErrors,
+  highlightedPaths,
+  duplicateKeys,
+  extendedTypes,
+  onEdit,
+  initialExpandedPaths,
+  onExpandedPathsChange
 }: JsonTreeViewProps) {
-  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set(['']))
+  const defaultExpandDepth = usePreferencesStore(state => state.defaultExpandDepth)
+  const numberFormat = usePreferencesStore(state => state.numberFormat)
+  const dateFormat = usePreferencesStore(state => state.dateFormat)
+  const indentSize = usePreferencesStore(state => state.indentSize)
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(
+    () => initialExpandedPaths ? new Set(initialExpandedPaths) : collectExpandablePaths(data, defaultExpandDepth)
+  )
   const [searchTerm, setSearchTerm] = useState('')
+  // Starts from the preference; toggled here for this view only
+  const [caseSensitive, setCaseSensitive] = useState(() => usePreferencesStore.getState().caseSensitiveSearch)
   const [showSearch, setShowSearch] = useState(false)
-  const [searchResults, setSearchResults] = useState<{path: string, value: any, type: string}[]>([])
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([])
   const [currentSearchIndex, setCurrentSearchIndex] = useState(-1)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [editing, setEditing] = useState<{ path: string, field: EditingField } | null>(null)
+  const [shownDuplicatePaths, setShownDuplicatePaths] = useState<Set<string>>(new Set())
+  const viewportRef = useRef<HTMLDivElement>(null)
+  // Read through a ref so rows stay memoized when the parent passes a new callback
+  const onEditRef = useRef(onEdit)
+  onEditRef.current = onEdit
+  const onExpandedPathsChangeRef = useRef(onExpandedPathsChange)
+  onExpandedPathsChangeRef.current = onExpandedPathsChange
+
+  useEffect(() => {
+    onExpandedPathsChangeRef.current?.(Array.from(expandedPaths))
+  }, [expandedPaths])
 
   const handleToggle = useCallback((path: string) => {
     setExpandedPaths(prev => {
@@ -312,7 +568,7 @@ export function JsonTreeView({
 
   const handleCopy = useCallback(async (value: any, path: string) => {
     try {
-      const textToCopy = typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+      const textToCopy = typeof value === 'string' ? value : formatJsonString(value, toIndent(indentSize))
       await navigator.clipboard.writeText(textToCopy)
       
       if (onCopy) {
@@ -321,51 +577,75 @@ export function JsonTreeView({
     } catch (error) {
       console.error('Failed to copy to clipboard:', error)
     }
-  }, [onCopy])
+  }, [onCopy, indentSize])
 
-  const expandAll = useCallback(() => {
-    // This is a simplified expand all - in a real implementation,
-    // you'd want to traverse the data structure to get all paths
-    setExpandedPaths(new Set(['', ...Array.from({ length: 20 }, (_, i) => `item${i}`)]))
+  const handleStartEdit = useCallback((path: string, field: EditingField) => {
+    setEditing({ path, field })
   }, [])
 
+  const handleCancelEdit = useCallback(() => {
+    setEditing(null)
+  }, [])
+
+  const handleCommitEdit = useCallback((operation: JsonEditOperation) => {
+    setEditing(null)
+    onEditRef.current?.(operation)
+  }, [])
+
+  // Open the new child for editing straight away: the key of a property,
+  // the value of an array item
+  const handleAddChild = useCallback((row: JsonTreeRow) => {
+    const isArray = row.type === 'array'
+    const childPath = isArray
+      ? joinIndexPath(row.path, row.value.length)
+      : joinPropertyPath(row.path, getUniqueKey(row.value, NEW_PROPERTY_KEY))
+
+    onEditRef.current?.({ type: 'add', path: row.path })
+    setExpandedPaths(prev => new Set(prev).add(row.path))
+    setEditing({ path: childPath, field: isArray ? 'value' : 'key' })
+  }, [])
+
+  const expandAll = useCallback(() => {
+    setExpandedPaths(collectExpandablePaths(data))
+  }, [data])
+
   const collapseAll = useCallback(() => {
     setExpandedPaths(new Set())
   }, [])
 
   // Search functionality
-  const searchInJson = useCallback((obj: any, path: string = '', results: {path: string, value: any, type: string}[] = []): {path: string, value: any, type: string}[] => {
+  const searchInJson = useCallback((root: any): SearchResult[] => {
     if (!searchTerm.trim()) return []
-    
-    const searchLower = searchTerm.toLowerCase()
-    const type = getJsonType(obj)
-    
-    // Check if current value matches search term
-    const valueStr = String(obj).toLowerCase()
-    if (valueStr.includes(searchLower)) {
-      results.push({ path, value: obj, type })
-    }
-    
-    // Check if path/key matches search term
-    if (path.toLowerCase().includes(searchLower)) {
-      results.push({ path, value: obj, type })
-    }
-    
-    // Recursively search in objects and arrays
-    if (type === 'object') {
-      Object.entries(obj).forEach(([key, value]) => {
-        const newPath = path ? `${path}.${key}` : key
-        searchInJson(value, newPath, results)
-      })
-    } else if (type === 'array') {
-      obj.forEach((item: any, index: number) => {
-        const newPath = `${path}[${index}]`
-        searchInJson(item, newPath, results)
-      })
+
+    const normalize = (text: string) => caseSensitive ? text : text.toLowerCase()
+    const searchText = normalize(searchTerm)
+    const results: SearchResult[] = []
+    const stack: Array<{ value: any, path: string }> = [{ value: root, path: '' }]
+
+    while (stack.length > 0) {
+      const { value, path } = stack.pop()!
+      const type = getJsonType(value)
+
+      // Match on scalar values and on the path/key
+      const isContainer = type === 'object' || type === 'array'
+      if ((!isContainer && normalize(String(value)).includes(searchText)) || normalize(path).includes(searchText)) {
+        results.push({ path, value, type })
+      }
+
+      if (type === 'object') {
+        const keys = Object.keys(value)
+        for (let i = keys.length - 1; i >= 0; i--) {
+          stack.push({ value: value[keys[i]], path: joinPropertyPath(path, keys[i]) })
+        }
+      } else if (type === 'array') {
+        for (let i = value.length - 1; i >= 0; i--) {
+          stack.push({ value: value[i], path: joinIndexPath(path, i) })
+        }
+      }
     }
-    
+
     return results
-  }, [searchTerm])
+  }, [searchTerm, caseSensitive])
 
   // Update search results when search term or data changes
   useEffect(() => {
@@ -373,24 +653,13 @@ export function JsonTreeView({
     setSearchResults(results)
     setCurrentSearchIndex(results.length > 0 ? 0 : -1)
     
-    // Auto-expand paths for search results
+    // Auto-expand the ancestors of every search result
     if (results.length > 0 && searchTerm.trim()) {
       setExpandedPaths(prev => {
         const pathsToExpand = new Set(prev)
         results.forEach(result => {
-          const pathParts = result.path.split(/[.[\]]/).filter(Boolean)
-          let currentPath = ''
-          pathParts.forEach((part, index) => {
-            if (index === 0) {
-              currentPath = part
-            } else {
-              currentPath += result.path.includes('[') && result.path.includes(']') ? `[${part}]` : `.${part}`
-            }
-            pathsToExpand.add(currentPath)
-          })
+          getAncestorPaths(result.path).forEach(ancestor => pathsToExpand.add(ancestor))
         })
-        // Also expand the root
-        pathsToExpand.add('')
         return pathsToExpand
       })
     }
@@ -406,9 +675,105 @@ export function JsonTreeView({
     }
   }, [searchResults.length])
 
-  const filteredData = data
+  const duplicatesByPath = useMemo(
+    () => new Map(duplicateKeys?.map(duplicate => [duplicate.path, duplicate])),
+    [duplicateKeys]
+  )
+
+  const extendedTypesByPath = useMemo(
+    () => new Map(extendedTypes?.map(({ path, type }) => [path, type])),
+    [extendedTypes]
+  )
 
-  const nodeCount = { current: 0 }
+  const handleToggleDuplicates = useCallback((path: string) => {
+    setShownDuplicatePaths(prev => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }, [])
+
+  // Every value but the last was dropped by the parser
+  const overriddenValues = useMemo(() => {
+    const values = new Map<string, DuplicateKeyValue[]>()
+    shownDuplicatePaths.forEach(path => {
+      const duplicate = duplicatesByPath.get(path)
+      if (duplicate) values.set(path, duplicate.values.slice(0, -1))
+    })
+    return values
+  }, [shownDuplicatePaths, duplicatesByPath])
+
+  const { rows, truncated } = useMemo(
+    () => flattenJsonTree(data, expandedPaths, maxNodes, overriddenValues),
+    [data, expandedPaths, maxNodes, overriddenValues]
+  )
+
+  const validationMessagesByPath = useMemo(() => {
+    const messages = new Map<string, string[]>()
+    validationErrors?.forEach(error => {
+      messages.set(error.path, [...(messages.get(error.path) ?? []), error.message])
+    })
+    return messages
+  }, [validationErrors])
+
+  // Reveal nodes that fail schema validation
+  useEffect(() => {
+    if (!validationErrors || validationErrors.length === 0) return
+
+    setExpandedPaths(prev => {
+      const pathsToExpand = new Set(prev)
+      validationErrors.forEach(error => {
+        getAncestorPaths(error.path).forEach(ancestor => pathsToExpand.add(ancestor))
+      })
+      return pathsToExpand
+    })
+  }, [validationErrors])
+
+  // Reveal highlighted nodes (diff changes, query matches)
+  useEffect(() => {
+    if (!highlightedPaths || highlightedPaths.size === 0) return
+
+    setExpandedPaths(prev => {
+      const pathsToExpand = new Set(prev)
+      highlightedPaths.forEach((_, path) => {
+        getAncestorPaths(path).forEach(ancestor => pathsToExpand.add(ancestor))
+      })
+      return pathsToExpand
+    })
+  }, [highlightedPaths])
+
+  const searchResultPaths = useMemo(
+    () => new Set(searchResults.map(result => result.path)),
+    [searchResults]
+  )
+
+  const currentSearchPath = currentSearchIndex >= 0 ? searchResults[currentSearchIndex]?.path : undefined
+
+  // Only the rows inside the scroll viewport (plus overscan) are rendered
+  const firstVisibleRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS)
+  const lastVisibleRow = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS
+  )
+  const visibleRows = rows.slice(firstVisibleRow, lastVisibleRow)
+
+  // Keep the current search result scrolled into view
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport || currentSearchPath === undefined) return
+
+    const rowIndex = rows.findIndex(row => row.path === currentSearchPath && row.overriddenLine === undefined)
+    if (rowIndex < 0) return
+
+    const rowTop = rowIndex * ROW_HEIGHT
+    if (rowTop < viewport.scrollTop || rowTop + ROW_HEIGHT > viewport.scrollTop + viewport.clientHeight) {
+      viewport.scrollTop = Math.max(0, rowTop - viewport.clientHeight / 2)
+    }
+  }, [currentSearchPath, rows])
 
   return (
     <Card className={className}>
@@ -475,7 +840,17 @@ export function JsonTreeView({
                   </Button>
                 )}
               </div>
-              
+
+              <Button
+                variant={caseSensitive ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setCaseSensitive(prev => !prev)}
+                className="h-7 w-7 p-0"
+                title={caseSensitive ? 'Case-sensitive search' : 'Case-insensitive search'}
+              >
+                <CaseSensitive className="size-4" />
+              </Button>
+
               {searchResults.length > 0 && (
                 <div className="flex items-center space-x-1">
                   <span className="text-xs text-muted-foreground whitespace-nowrap">
@@ -515,24 +890,52 @@ export function JsonTreeView({
       </CardHeader>
 
       <CardContent className="pt-0">
-        <div className="font-mono text-sm max-h-[600px] overflow-auto border rounded-md p-4 bg-muted/30">
-          <JsonTreeNode
-            data={filteredData}
-            path=""
-            level={0}
-            isExpanded={expandedPaths.has('')}
-            onToggle={handleToggle}
-            onCopy={handleCopy}
-            maxNodes={maxNodes}
-            nodeCount={nodeCount}
-            isLimited={maxNodes < 1000}
-            searchTerm={searchTerm}
-            searchResults={searchResults}
-            currentSearchIndex={currentSearchIndex}
-          />
+        <div
+          ref={viewportRef}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="font-mono text-sm overflow-auto border rounded-md py-2 bg-muted/30"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+        >
+          <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+            <div
+              className="absolute inset-x-0 top-0"
+              style={{ transform: `translateY(${firstVisibleRow * ROW_HEIGHT}px)` }}
+            >
+              {visibleRows.map((row, index) => {
+                // Dropped duplicate values share the path of the kept one
+                const isKept = row.overriddenLine === undefined
+                return (
+                  <JsonTreeRowView
+                    key={isKept ? row.path : `${row.path}#${firstVisibleRow + index}`}
+                    row={row}
+                    onToggle={handleToggle}
+                    onCopy={handleCopy}
+                    searchTerm={searchTerm}
+                    caseSensitive={caseSensitive}
+                    numberFormat={numberFormat}
+                    dateFormat={dateFormat}
+                    isSearchResult={isKept && searchResultPaths.has(row.path)}
+                    isCurrentSearchResult={isKept && row.path === currentSearchPath}
+                    validationMessages={isKept ? validationMessagesByPath.get(row.path) : undefined}
+                    highlight={isKept ? highlightedPaths?.get(row.path) : undefined}
+                    editable={!!onEdit && isKept}
+                    editingField={isKept && editing?.path === row.path ? editing.field : undefined}
+                    onStartEdit={handleStartEdit}
+                    onCancelEdit={handleCancelEdit}
+                    onCommitEdit={handleCommitEdit}
+                    onAddChild={handleAddChild}
+                    duplicate={isKept ? duplicatesByPath.get(row.path) : undefined}
+                    duplicatesShown={shownDuplicatePaths.has(row.path)}
+                    onToggleDuplicates={handleToggleDuplicates}
+                    extendedType={isKept ? extendedTypesByPath.get(row.path) : undefined}
+                  />
+                )
+              })}
+            </div>
+          </div>
         </div>
 
-        {nodeCount.current >= maxNodes && (
+        {truncated && (
           <Alert variant="warning" title="Node limit reached" className="mt-3">
             Showing first {maxNodes} nodes.
             {maxNodes < 1000 && (
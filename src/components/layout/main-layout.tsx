@@ -1,11 +1,17 @@
 "use client"
 
-import { useState } from 'react'
-import { Menu, X, FileText, Settings, Crown, Moon, Sun } from 'lucide-react'
-import { useTheme } from 'next-themes'
+import { useEffect, useState } from 'react'
+import { Menu, X, FileText, Settings, Crown, Moon, Sun, Monitor } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
+import { SettingsDialog } from '@/components/settings-dialog'
+import { usePreferencesStore } from '@/stores/preferences-store'
 import { cn } from '@/lib/utils'
+import { Theme } from '@/types'
+
+// The theme button steps through these in order
+const NEXT_THEME: Record<Theme, Theme> = { light: 'dark', dark: 'auto', auto: 'light' }
+const THEME_LABELS: Record<Theme, string> = { light: 'Light', dark: 'Dark', auto: 'Match system' }
 
 interface MainLayoutProps {
   children: React.ReactNode
@@ -15,14 +21,21 @@ interface MainLayoutProps {
 
 export function MainLayout({ children, sidebar, className }: MainLayoutProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
-  const { theme, setTheme } = useTheme()
+  const theme = usePreferencesStore(state => state.theme)
+  const setPreferences = usePreferencesStore(state => state.setPreferences)
+  // The stored theme is only known in the browser
+  const [isMounted, setIsMounted] = useState(false)
+
+  useEffect(() => {
+    setIsMounted(true)
+  }, [])
 
   const toggleSidebar = () => {
     setIsSidebarOpen(!isSidebarOpen)
   }
 
   const toggleTheme = () => {
-    setTheme(theme === 'dark' ? 'light' : 'dark')
+    setPreferences({ theme: NEXT_THEME[theme] })
   }
 
   return (
@@ -54,8 +67,11 @@ export function MainLayout({ children, sidebar, className }: MainLayoutProps) {
               size="sm"
               onClick={toggleTheme}
               className="hidden sm:flex"
+              title={isMounted ? `Theme: ${THEME_LABELS[theme]}` : 'Theme'}
             >
-              {theme === 'dark' ? <Sun className="size-4" /> : <Moon className="size-4" />}
+              {!isMounted || theme === 'auto'
+                ? <Monitor className="size-4" />
+                : theme === 'dark' ? <Moon className="size-4" /> : <Sun className="size-4" />}
             </Button>
 
             <Button variant="outline" size="sm" className="hidden sm:flex">
@@ -63,9 +79,13 @@ export function MainLayout({ children, sidebar, className }: MainLayoutProps) {
               Upgrade
             </Button>
 
-            <Button variant="ghost" size="sm">
-              <Settings className="size-4" />
-            </Button>
+            <SettingsDialog
+              trigger={
+                <Button variant="ghost" size="sm" title="Settings">
+                  <Settings className="size-4" />
+                </Button>
+              }
+            />
           </div>
         </div>
       </header>
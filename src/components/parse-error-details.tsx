@@ -0,0 +1,63 @@
+"use client"
+
+import { MapPin } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { ParseError } from '@/types'
+
+interface ParseErrorDetailsProps {
+  error: ParseError
+  onJumpToLine?: (line: number) => void
+  className?: string
+}
+
+export function ParseErrorDetails({ error, onJumpToLine, className }: ParseErrorDetailsProps) {
+  const hasLocation = error.line !== undefined && error.column !== undefined
+  const gutterWidth = String(error.context?.[error.context.length - 1]?.line ?? error.line ?? 0).length
+
+  return (
+    <div className={cn('text-left space-y-2', className)}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-destructive">{error.message}</p>
+          {hasLocation && (
+            <p className="text-xs text-muted-foreground">
+              Line {error.line}, column {error.column}
+              {error.expected && <> — expected {error.expected}</>}
+            </p>
+          )}
+        </div>
+
+        {hasLocation && onJumpToLine && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onJumpToLine(error.line!)}
+            className="flex-shrink-0"
+          >
+            <MapPin className="size-4 mr-1" />
+            Go to line {error.line}
+          </Button>
+        )}
+      </div>
+
+      {error.context && error.context.length > 0 && (
+        <pre className="font-mono text-xs leading-5 overflow-x-auto rounded-md border bg-muted/30 p-3">
+          {error.context.map(({ line, text }) => (
+            <div key={line}>
+              <div className={cn(line === error.line ? 'text-foreground' : 'text-muted-foreground')}>
+                <span className="select-none">{String(line).padStart(gutterWidth)} | </span>
+                {text}
+              </div>
+              {line === error.line && error.column !== undefined && (
+                <div className="text-destructive select-none">
+                  {' '.repeat(gutterWidth)} | {text.slice(0, error.column - 1).replace(/[^\t]/g, ' ')}^
+                </div>
+              )}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { History, Trash2, X } from 'lucide-react'
+import { SidebarSection } from '@/components/layout/main-layout'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { RecentFileEntry, StorageEstimate } from '@/lib/file-storage'
+
+interface RecentFilesProps {
+  entries: RecentFileEntry[] // Documents that are not open
+  storageEstimate: StorageEstimate | null
+  persistFiles: boolean
+  onOpen: (id: string) => void
+  onForget: (id: string) => void
+  onPersistFilesChange: (persistFiles: boolean) => void
+  onClearAll: () => void
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
+
+export function RecentFiles({
+  entries,
+  storageEstimate,
+  persistFiles,
+  onOpen,
+  onForget,
+  onPersistFilesChange,
+  onClearAll
+}: RecentFilesProps) {
+  const usage = storageEstimate ? storageEstimate.usage / storageEstimate.quota : 0
+
+  return (
+    <SidebarSection title="Recent Files">
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No recent files</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex-1 min-w-0 justify-start h-auto py-1.5 px-2"
+                onClick={() => onOpen(entry.id)}
+                title={entry.extractedFrom ? `${entry.name} from ${entry.extractedFrom}` : entry.name}
+              >
+                <History className="size-4 flex-shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0 text-left">
+                  <p className="text-sm truncate">{entry.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.lastOpened).toLocaleString()}
+                    {entry.hasEdits && ' • edited'}
+                  </p>
+                </div>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="size-8 p-0 flex-shrink-0"
+                onClick={() => onForget(entry.id)}
+                title={`Remove ${entry.name} from this device`}
+              >
+                <X className="size-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {storageEstimate && (
+        <div className="space-y-1 pt-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Storage used</span>
+            <span>{formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)}</span>
+          </div>
+          <Progress value={usage * 100} size="sm" variant={usage > 0.9 ? 'destructive' : usage > 0.7 ? 'warning' : 'default'} />
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={persistFiles}
+          onChange={(e) => onPersistFilesChange(e.target.checked)}
+        />
+        Keep open files on this device
+      </label>
+      <Button variant="outline" size="sm" className="w-full" onClick={onClearAll}>
+        <Trash2 className="size-4 mr-2" />
+        Clear stored files
+      </Button>
+    </SidebarSection>
+  )
+}
@@ -0,0 +1,203 @@
+"use client"
+
+import { useState, useMemo } from 'react'
+import { Wand2, Download, FileCheck } from 'lucide-react'
+import { saveAs } from 'file-saver'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { CodeBlock } from '@/components/json-syntax-highlighter'
+import { inferJsonSchema, SchemaInferenceOptions, SchemaInferenceResult } from '@/lib/json-schema-inference'
+import { formatJsonString } from '@/lib/json-parser'
+import { FileData } from '@/types'
+
+interface SchemaInferenceDialogProps {
+  files: FileData[]
+  activeFileId?: string
+  onUseSchema?: (schema: any, name: string) => void
+  trigger?: React.ReactNode
+}
+
+export function SchemaInferenceDialog({
+  files,
+  activeFileId,
+  onUseSchema,
+  trigger
+}: SchemaInferenceDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [options, setOptions] = useState<SchemaInferenceOptions>({
+    draft: '2020-12',
+    detectFormats: true,
+    detectEnums: true
+  })
+  const [result, setResult] = useState<SchemaInferenceResult | null>(null)
+
+  const parsedFiles = useMemo(
+    () => files.filter(file => file.parsedData !== undefined && !(file.errors && file.errors.length > 0)),
+    [files]
+  )
+
+  const schemaName = useMemo(() => {
+    const first = parsedFiles.find(file => selectedIds.has(file.id))
+    const base = first ? first.name.replace(/\.[^.]+$/, '') : 'inferred'
+    return `${base}.schema.json`
+  }, [parsedFiles, selectedIds])
+
+  const schemaText = result ? formatJsonString(result.schema, 2) : ''
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      // Start from the active document each time the dialog opens
+      setSelectedIds(new Set(activeFileId ? [activeFileId] : []))
+      setResult(null)
+    }
+  }
+
+  const toggleFile = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleGenerate = () => {
+    const samples = parsedFiles
+      .filter(file => selectedIds.has(file.id))
+      .map(file => file.parsedData)
+    setResult(inferJsonSchema(samples, options))
+  }
+
+  const handleDownload = () => {
+    saveAs(new Blob([schemaText], { type: 'application/schema+json' }), schemaName)
+  }
+
+  const defaultTrigger = (
+    <Button variant="outline" size="sm" className="w-full">
+      <Wand2 className="size-4 mr-2" />
+      Infer schema
+    </Button>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || defaultTrigger}
+      </DialogTrigger>
+
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            Infer JSON Schema
+          </DialogTitle>
+          <DialogDescription>
+            Generate a schema from one or more loaded documents. Keys missing from some samples become optional.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 sm:grid-cols-2">
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Documents</h4>
+            {parsedFiles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No parsed documents available</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {parsedFiles.map(file => (
+                  <label key={file.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(file.id)}
+                      onChange={() => toggleFile(file.id)}
+                    />
+                    <span className="truncate">{file.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Options</h4>
+            <label className="flex items-center justify-between gap-2 text-sm">
+              <span>Draft</span>
+              <select
+                value={options.draft}
+                onChange={(e) => setOptions(prev => ({ ...prev, draft: e.target.value as SchemaInferenceOptions['draft'] }))}
+                className="px-2 py-1 text-sm border rounded-md bg-background"
+              >
+                <option value="2020-12">2020-12</option>
+                <option value="draft-07">draft-07</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.detectFormats}
+                onChange={(e) => setOptions(prev => ({ ...prev, detectFormats: e.target.checked }))}
+              />
+              Detect formats (date-time, uuid, email, ...)
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.detectEnums}
+                onChange={(e) => setOptions(prev => ({ ...prev, detectEnums: e.target.checked }))}
+              />
+              Use enums for low-cardinality strings
+            </label>
+          </div>
+        </div>
+
+        <Button onClick={handleGenerate} disabled={selectedIds.size === 0}>
+          Generate schema
+        </Button>
+
+        {result && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Inferred from {result.sampleCount} document{result.sampleCount === 1 ? '' : 's'} ({result.nodeCount} nodes)
+            </p>
+            {result.warnings.map((warning, index) => (
+              <p key={index} className="text-xs text-yellow-600 dark:text-yellow-400">{warning}</p>
+            ))}
+            <CodeBlock code={schemaText} title={schemaName} maxHeight="320px" />
+          </div>
+        )}
+
+        {result && (
+          <DialogFooter>
+            <Button variant="outline" onClick={handleDownload}>
+              <Download className="size-4 mr-2" />
+              Download
+            </Button>
+            {onUseSchema && (
+              <Button
+                onClick={() => {
+                  onUseSchema(result.schema, schemaName)
+                  setOpen(false)
+                }}
+              >
+                <FileCheck className="size-4 mr-2" />
+                Validate with this schema
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,107 @@
+"use client"
+
+import { useRef } from 'react'
+import { FileCheck, CheckCircle2, AlertCircle, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ValidationResult } from '@/types'
+
+interface SchemaValidationPanelProps {
+  schemaName?: string
+  validation?: ValidationResult
+  onLoadSchema: (file: File) => void
+  onClearSchema: () => void
+}
+
+export function SchemaValidationPanel({
+  schemaName,
+  validation,
+  onLoadSchema,
+  onClearSchema
+}: SchemaValidationPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const errors = validation?.errors ?? []
+
+  return (
+    <div className="space-y-3">
+      {schemaName ? (
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <FileCheck className="size-4 flex-shrink-0 text-muted-foreground" />
+            <span className="text-sm truncate" title={schemaName}>{schemaName}</span>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClearSchema}
+            className="h-6 w-6 p-0"
+            title="Remove schema"
+          >
+            <X className="size-3" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Load a JSON Schema (draft-07, 2019-09 or 2020-12) to validate this document.
+        </p>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => inputRef.current?.click()}
+      >
+        {schemaName ? 'Replace schema' : 'Load schema'}
+      </Button>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json,application/schema+json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) onLoadSchema(file)
+          e.target.value = ''
+        }}
+      />
+
+      {validation && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            {validation.isValid ? (
+              <>
+                <CheckCircle2 className="size-4 text-green-500" />
+                <span className="text-green-600">Document is valid</span>
+              </>
+            ) : (
+              <>
+                <AlertCircle className="size-4 text-destructive" />
+                <span className="text-red-600">Document is invalid</span>
+                <Badge variant="destructive" className="ml-auto">{errors.length}</Badge>
+              </>
+            )}
+          </div>
+
+          {validation.warnings?.map((warning, index) => (
+            <div key={index} className="text-xs text-yellow-600 dark:text-yellow-400">
+              {warning}
+            </div>
+          ))}
+
+          {errors.length > 0 && (
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {errors.map((error, index) => (
+                <div key={index} className="text-xs">
+                  <span className="font-mono text-muted-foreground">{error.path || '(root)'}</span>
+                  <span className="text-red-600 dark:text-red-400">: {error.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { useRef, useState } from 'react'
+import { Download, RotateCcw, Upload } from 'lucide-react'
+import { saveAs } from 'file-saver'
+import { toast } from 'sonner'
+import { useShallow } from 'zustand/react/shallow'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { selectPreferences, usePreferencesStore } from '@/stores/preferences-store'
+import { exportPreferences, importPreferences, INDENT_SIZES, MAX_EXPAND_DEPTH } from '@/lib/preferences'
+import { DateDisplayFormat, IndentSize, NumberDisplayFormat, Theme, ViewMode } from '@/types'
+
+interface SettingsDialogProps {
+  trigger: React.ReactNode
+}
+
+const THEMES: Array<{ value: Theme; label: string }> = [
+  { value: 'auto', label: 'Match system' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' }
+]
+
+const VIEW_MODES: Array<{ value: ViewMode; label: string }> = [
+  { value: 'tree', label: 'Tree' },
+  { value: 'raw', label: 'Raw' },
+  { value: 'formatted', label: 'Formatted' }
+]
+
+const NUMBER_FORMATS: Array<{ value: NumberDisplayFormat; label: string }> = [
+  { value: 'plain', label: 'As written (1234567.5)' },
+  { value: 'grouped', label: `Grouped (${(1234567.5).toLocaleString()})` }
+]
+
+const DATE_FORMATS: Array<{ value: DateDisplayFormat; label: string }> = [
+  { value: 'source', label: 'As written' },
+  { value: 'local', label: 'Local time' },
+  { value: 'utc', label: 'UTC' }
+]
+
+const SELECT_CLASS = 'px-2 py-1 text-sm border rounded-md bg-background'
+
+function SettingRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex items-center justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      {children}
+    </label>
+  )
+}
+
+export function SettingsDialog({ trigger }: SettingsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const preferences = usePreferencesStore(useShallow(selectPreferences))
+  const setPreferences = usePreferencesStore(state => state.setPreferences)
+  const resetPreferences = usePreferencesStore(state => state.resetPreferences)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  const handleExport = () => {
+    const json = exportPreferences(preferences)
+    saveAs(new Blob([json], { type: 'application/json' }), 'jviewpro-preferences.json')
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      setPreferences(importPreferences(await file.text()))
+      toast.success(`Imported preferences from ${file.name}`)
+    } catch (error) {
+      toast.error(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Saved in this browser and applied to every document.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <SettingRow label="Theme">
+            <select
+              value={preferences.theme}
+              onChange={(e) => setPreferences({ theme: e.target.value as Theme })}
+              className={SELECT_CLASS}
+            >
+              {THEMES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </SettingRow>
+
+          <SettingRow label="Default view">
+            <select
+              value={preferences.defaultViewMode}
+              onChange={(e) => setPreferences({ defaultViewMode: e.target.value as ViewMode })}
+              className={SELECT_CLASS}
+            >
+              {VIEW_MODES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </SettingRow>
+
+          <SettingRow label="Indentation">
+            <select
+              value={preferences.indentSize}
+              onChange={(e) => setPreferences({ indentSize: e.target.value as IndentSize })}
+              className={SELECT_CLASS}
+            >
+              {INDENT_SIZES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </SettingRow>
+
+          <SettingRow label="Tree levels expanded">
+            <select
+              value={preferences.defaultExpandDepth}
+              onChange={(e) => setPreferences({ defaultExpandDepth: Number(e.target.value) })}
+              className={SELECT_CLASS}
+            >
+              {Array.from({ length: MAX_EXPAND_DEPTH + 1 }, (_, depth) => (
+                <option key={depth} value={depth}>{depth === 0 ? 'None' : depth}</option>
+              ))}
+            </select>
+          </SettingRow>
+
+          <SettingRow label="Numbers">
+            <select
+              value={preferences.numberFormat}
+              onChange={(e) => setPreferences({ numberFormat: e.target.value as NumberDisplayFormat })}
+              className={SELECT_CLASS}
+            >
+              {NUMBER_FORMATS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </SettingRow>
+
+          <SettingRow label="Dates">
+            <select
+              value={preferences.dateFormat}
+              onChange={(e) => setPreferences({ dateFormat: e.target.value as DateDisplayFormat })}
+              className={SELECT_CLASS}
+            >
+              {DATE_FORMATS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </SettingRow>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={preferences.caseSensitiveSearch}
+              onChange={(e) => setPreferences({ caseSensitiveSearch: e.target.checked })}
+            />
+            Case-sensitive search
+          </label>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={preferences.persistFiles}
+              onChange={(e) => setPreferences({ persistFiles: e.target.checked })}
+            />
+            Keep open files on this device
+          </label>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" size="sm" onClick={resetPreferences}>
+            <RotateCcw className="size-4 mr-1" />
+            Reset
+          </Button>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImport(file)
+                e.target.value = ''
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+              <Upload className="size-4 mr-1" />
+              Import
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport}>
+              <Download className="size-4 mr-1" />
+              Export
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { useEffect } from 'react'
+import { ThemeProvider as NextThemesProvider, useTheme } from 'next-themes'
+import { usePreferencesStore } from '@/stores/preferences-store'
+
+// Applies the theme preference; 'auto' is next-themes' 'system'
+function ThemeSync() {
+  const theme = usePreferencesStore(state => state.theme)
+  const { setTheme } = useTheme()
+
+  useEffect(() => {
+    setTheme(theme === 'auto' ? 'system' : theme)
+  }, [theme, setTheme])
+
+  return null
+}
+
+export function ThemeProvider({ children }: { children: React.ReactNode }) {
+  return (
+    <NextThemesProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
+      <ThemeSync />
+      {children}
+    </NextThemesProvider>
+  )
+}
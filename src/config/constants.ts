@@ -10,11 +10,25 @@ export const FILE_LIMITS = {
   softLimitBytes: 10 * 1024 * 1024, // 10MB soft limit with warning
   webWorkerThreshold: 5 * 1024 * 1024, // Use web worker for files >5MB
   freeViewLimit: 50, // Number of nodes visible in free tier
+  maxArchiveDepth: 3, // Levels of archives inside uploaded archives that are extracted
+  recentFiles: 20, // Closed documents kept on the device for reopening
 } as const;
 
 export const SUPPORTED_FORMATS = {
   json: ['.json', '.JSON'],
+  jsonLines: ['.ndjson', '.NDJSON', '.jsonl', '.JSONL'],
+  lenientJson: ['.jsonc', '.JSONC', '.json5', '.JSON5'],
+  yaml: ['.yaml', '.YAML', '.yml', '.YML'],
+  csv: ['.csv', '.CSV', '.tsv', '.TSV'],
+  xml: ['.xml', '.XML'],
+  toml: ['.toml', '.TOML'],
+  ini: ['.ini', '.INI', '.cfg', '.CFG'],
+  msgpack: ['.msgpack', '.MSGPACK', '.mpk', '.MPK'],
+  cbor: ['.cbor', '.CBOR'],
+  bson: ['.bson', '.BSON'],
   zip: ['.zip', '.ZIP'],
+  tar: ['.tar', '.TAR', '.tgz', '.TGZ'],
+  gzip: ['.gz', '.GZ'],
   text: ['.txt', '.TXT'],
 } as const;
 
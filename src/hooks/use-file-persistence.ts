@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { FileData, JsonEditState } from '@/types'
+import {
+  clearFileStorage,
+  deleteDocument,
+  getStorageEstimate,
+  isFileStorageAvailable,
+  listRecentFiles,
+  saveDocuments,
+  toStoredDocument,
+  RecentFileEntry,
+  StorageEstimate,
+  StoredDocument
+} from '@/lib/file-storage'
+
+// Edits and tree toggles are written in one batch once they settle
+const SAVE_DELAY_MS = 1000
+
+interface FilePersistenceOptions {
+  files: FileData[]
+  editStates: Record<string, JsonEditState>
+  expandedPaths: Record<string, string[]>
+  activeFileId?: string
+  enabled: boolean // Off until the previous session is restored, and while the user opts out
+}
+
+// What a document looked like when it was last written
+interface SavedVersion {
+  content: string
+  settings: [FileData['parseMode'], FileData['csvOptions'], FileData['xmlOptions']]
+  editState?: JsonEditState
+  expandedPaths?: string[]
+  lastOpened: number
+}
+
+function isUnchanged(saved: SavedVersion | undefined, current: SavedVersion): boolean {
+  return !!saved &&
+    saved.content === current.content &&
+    saved.settings.every((setting, i) => setting === current.settings[i]) &&
+    saved.editState === current.editState &&
+    saved.expandedPaths === current.expandedPaths &&
+    saved.lastOpened === current.lastOpened
+}
+
+/**
+ * Keeps the open documents, their edits and expanded tree paths in IndexedDB
+ * and lists the documents that can be reopened. Only documents that changed
+ * since they were last written are saved again.
+ */
+export function useFilePersistence({ files, editStates, expandedPaths, activeFileId, enabled }: FilePersistenceOptions) {
+  const [recentFiles, setRecentFiles] = useState<RecentFileEntry[]>([])
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null)
+  const savedRef = useRef(new Map<string, SavedVersion>())
+  const lastOpenedRef = useRef(new Map<string, number>())
+  // Report a failing save once rather than after every edit
+  const hasFailedRef = useRef(false)
+
+  const refresh = useCallback(async () => {
+    if (!isFileStorageAvailable()) return
+    try {
+      const [entries, estimate] = await Promise.all([listRecentFiles(), getStorageEstimate()])
+      setRecentFiles(entries)
+      setStorageEstimate(estimate)
+    } catch (error) {
+      console.error('Error reading stored files:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Switching to a document, restored ones included, counts as opening it
+  useEffect(() => {
+    if (activeFileId) lastOpenedRef.current.set(activeFileId, Date.now())
+  }, [activeFileId])
+
+  // Everything is written again once saving is turned back on
+  useEffect(() => {
+    if (!enabled) savedRef.current.clear()
+  }, [enabled])
+
+  useEffect(() => {
+    if (!enabled || !isFileStorageAvailable()) return
+
+    const timer = setTimeout(() => {
+      const documents: StoredDocument[] = []
+      const versions = new Map<string, SavedVersion>()
+
+      // Closed documents count as opened anew when they are reopened
+      const openIds = new Set(files.map(file => file.id))
+      lastOpenedRef.current.forEach((_, id) => {
+        if (openIds.has(id)) return
+        lastOpenedRef.current.delete(id)
+        savedRef.current.delete(id)
+      })
+
+      files.forEach(file => {
+        const lastOpened = lastOpenedRef.current.get(file.id) ?? Date.now()
+        lastOpenedRef.current.set(file.id, lastOpened)
+        const version: SavedVersion = {
+          content: file.content,
+          settings: [file.parseMode, file.csvOptions, file.xmlOptions],
+          editState: editStates[file.id],
+          expandedPaths: expandedPaths[file.id],
+          lastOpened
+        }
+        if (isUnchanged(savedRef.current.get(file.id), version)) return
+
+        documents.push(toStoredDocument(file, version.editState, version.expandedPaths, lastOpened))
+        versions.set(file.id, version)
+      })
+
+      saveDocuments(documents, { openFileIds: files.map(file => file.id), activeFileId })
+        .then(() => {
+          versions.forEach((version, id) => savedRef.current.set(id, version))
+          hasFailedRef.current = false
+          return refresh()
+        })
+        .catch(error => {
+          if (!hasFailedRef.current) {
+            toast.error(`Could not keep files on this device: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          }
+          hasFailedRef.current = true
+        })
+    }, SAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [enabled, files, editStates, expandedPaths, activeFileId, refresh])
+
+  const forgetRecentFile = useCallback(async (id: string) => {
+    await deleteDocument(id)
+    savedRef.current.delete(id)
+    lastOpenedRef.current.delete(id)
+    await refresh()
+  }, [refresh])
+
+  const clearStoredFiles = useCallback(async () => {
+    await clearFileStorage()
+    savedRef.current.clear()
+    lastOpenedRef.current.clear()
+    await refresh()
+  }, [refresh])
+
+  return { recentFiles, storageEstimate, forgetRecentFile, clearStoredFiles }
+}
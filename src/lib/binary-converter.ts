@@ -0,0 +1,626 @@
+import {
+  decodeMulti,
+  encode as encodeMsgpack,
+  decodeTimestampToTimeSpec,
+  encodeTimeSpecToTimestamp,
+  ExtData,
+  ExtensionCodec,
+  EXT_TIMESTAMP
+} from '@msgpack/msgpack'
+import { Decoder as CborDecoder, Encoder as CborEncoder, Tag } from 'cbor-x'
+import {
+  deserialize,
+  serialize,
+  Binary,
+  BSONRegExp,
+  BSONSymbol,
+  Code,
+  DBRef,
+  Decimal128,
+  Double,
+  Int32,
+  Long,
+  MaxKey,
+  MinKey,
+  ObjectId,
+  Timestamp,
+  UUID
+} from 'bson'
+import { BinaryFormat, ExtendedType, ParseError } from '@/types'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+import { isLosslessNumber, LosslessNumber } from '@/lib/lossless-number'
+
+export const BINARY_FORMATS: Record<BinaryFormat, { label: string; extensions: string[] }> = {
+  msgpack: { label: 'MessagePack', extensions: ['.msgpack', '.mpk'] },
+  cbor: { label: 'CBOR', extensions: ['.cbor'] },
+  bson: { label: 'BSON', extensions: ['.bson'] }
+}
+
+export const BINARY_EXTENSIONS = Object.values(BINARY_FORMATS).flatMap(({ extensions }) => extensions)
+
+// Bytes shown by the raw view; the rest of a large file is left out
+export const HEX_DUMP_LIMIT = 64 * 1024
+
+// Badges of values JSON has no type for
+const BINARY_TYPE = 'binary'
+const TIMESTAMP_TYPE = 'timestamp'
+const FLOAT_TYPE = 'float'
+const UNDEFINED_TYPE = 'undefined'
+const SET_TYPE = 'set'
+
+const EXT_TYPE_PATTERN = /^ext (-?\d+)$/
+const TAG_TYPE_PATTERN = /^tag (\d+)$/
+const BSON_BINARY_TYPE_PATTERN = /^binary \(subtype (\d+)\)$/
+const BSON_REGEX_PATTERN = /^\/([\s\S]*)\/([a-z]*)$/
+
+const INT64_MIN = BigInt('-9223372036854775808')
+const INT64_MAX = BigInt('9223372036854775807')
+const UINT64_MAX = BigInt('18446744073709551615')
+
+// Integers each format can hold; CBOR has big integers of any size
+const BSON_INTEGER_RANGE: IntegerRange = [INT64_MIN, INT64_MAX]
+const MSGPACK_INTEGER_RANGE: IntegerRange = [INT64_MIN, UINT64_MAX]
+
+// Typed arrays CBOR can tag, rebuilt from their items on export
+const TYPED_ARRAYS: Record<string, (items: any[]) => ArrayBufferView> = {
+  Int8Array: items => Int8Array.from(items),
+  Uint8ClampedArray: items => Uint8ClampedArray.from(items),
+  Int16Array: items => Int16Array.from(items),
+  Uint16Array: items => Uint16Array.from(items),
+  Int32Array: items => Int32Array.from(items),
+  Uint32Array: items => Uint32Array.from(items),
+  Float32Array: items => Float32Array.from(items),
+  Float64Array: items => Float64Array.from(items),
+  BigInt64Array: items => BigInt64Array.from(items, item => BigInt(String(item))),
+  BigUint64Array: items => BigUint64Array.from(items, item => BigInt(String(item)))
+}
+
+export class BinaryParseError extends Error {
+  readonly offset?: number
+
+  constructor(message: string, offset?: number) {
+    super(message)
+    this.name = 'BinaryParseError'
+    this.offset = offset
+  }
+}
+
+export class BinaryExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BinaryExportError'
+  }
+}
+
+export interface BinaryDocument {
+  data: any
+  extendedTypes: ExtendedType[]
+  documentCount: number // Values in the file; `data` is their array when there are several
+}
+
+export function getBinaryFormat(fileName: string): BinaryFormat | null {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  const format = (Object.keys(BINARY_FORMATS) as BinaryFormat[])
+    .find(key => BINARY_FORMATS[key].extensions.includes(extension))
+  return format ?? null
+}
+
+export function isBinaryFormat(format: string | undefined): format is BinaryFormat {
+  return format !== undefined && Object.prototype.hasOwnProperty.call(BINARY_FORMATS, format)
+}
+
+export function isBinaryFile(fileName: string): boolean {
+  return getBinaryFormat(fileName) !== null
+}
+
+// Binary files are held as base64 text so they travel through the same
+// string-based file model, workers and zip extraction as text formats
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export function getBase64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0
+  return Math.floor(base64.length * 3 / 4) - padding
+}
+
+/**
+ * Formats bytes as offset, hex and ASCII columns, 16 bytes per line. Only
+ * the first `maxBytes` are shown.
+ */
+export function formatHexDump(bytes: Uint8Array, maxBytes: number = HEX_DUMP_LIMIT): string {
+  const lines: string[] = []
+  const end = Math.min(bytes.length, maxBytes)
+  for (let offset = 0; offset < end; offset += 16) {
+    const row = bytes.subarray(offset, Math.min(offset + 16, end))
+    const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0'))
+    const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'))
+    lines.push(
+      `${offset.toString(16).padStart(8, '0')}  ` +
+      `${hex.slice(0, 8).join(' ').padEnd(23)}  ${hex.slice(8).join(' ').padEnd(23)}  |${ascii.join('')}|`
+    )
+  }
+  if (bytes.length > end) {
+    lines.push(`... ${(bytes.length - end).toLocaleString()} more bytes`)
+  }
+  return lines.join('\n')
+}
+
+// Signals that a format converter leaves the value to the generic rules
+const NOT_SPECIAL = Symbol('not special')
+
+type ToJsonConverter = (
+  value: any,
+  note: (type: string) => void,
+  visit: (value: any) => any
+) => any
+
+function toJsonInteger(value: bigint): any {
+  const number = Number(value)
+  return Number.isSafeInteger(number) ? number : new LosslessNumber(String(value))
+}
+
+function toDateText(date: Date): string | null {
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+// Maps decoded values to the JSON model, recording the source type of
+// anything JSON cannot hold in `extendedTypes`
+function toJsonValue(value: any, path: string, extendedTypes: ExtendedType[], convert: ToJsonConverter): any {
+  const converted = convert(
+    value,
+    type => extendedTypes.push({ path, type }),
+    inner => toJsonValue(inner, path, extendedTypes, convert)
+  )
+  if (converted !== NOT_SPECIAL) return converted
+
+  if (typeof value === 'bigint') return toJsonInteger(value)
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    extendedTypes.push({ path, type: FLOAT_TYPE })
+    return String(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => toJsonValue(item, joinIndexPath(path, index), extendedTypes, convert))
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => (
+      [key, toJsonValue(item, joinPropertyPath(path, key), extendedTypes, convert)]
+    )))
+  }
+  return value ?? null
+}
+
+// Timestamps keep their nanoseconds, which a `Date` would drop
+function formatTimeSpec(sec: number, nsec: number): string | null {
+  const date = toDateText(new Date(sec * 1000))
+  if (date === null) return null
+  const fraction = nsec > 0 ? '.' + String(nsec).padStart(9, '0').replace(/0+$/, '') : ''
+  return date.replace(/\.\d{3}Z$/, `${fraction}Z`)
+}
+
+function parseTimeSpec(text: string): { sec: number; nsec: number } | null {
+  const match = /^(.+?)(?:\.(\d{1,9}))?Z$/.exec(text)
+  const ms = match ? Date.parse(`${match[1]}Z`) : NaN
+  if (!match || Number.isNaN(ms)) return null
+  return { sec: Math.floor(ms / 1000), nsec: Number((match[2] ?? '').padEnd(9, '0')) }
+}
+
+const convertMsgpackValue: ToJsonConverter = (value, note) => {
+  if (value instanceof Uint8Array) {
+    note(BINARY_TYPE)
+    return bytesToBase64(value)
+  }
+  if (value instanceof ExtData) {
+    if (value.type === EXT_TIMESTAMP && value.data instanceof Uint8Array) {
+      const { sec, nsec } = decodeTimestampToTimeSpec(value.data)
+      const text = formatTimeSpec(sec, nsec)
+      if (text !== null) {
+        note(TIMESTAMP_TYPE)
+        return text
+      }
+    }
+    note(`ext ${value.type}`)
+    return value.data instanceof Uint8Array ? bytesToBase64(value.data) : null
+  }
+  return NOT_SPECIAL
+}
+
+const convertCborValue: ToJsonConverter = (value, note, visit) => {
+  if (value instanceof Uint8Array) {
+    note(BINARY_TYPE)
+    return bytesToBase64(value)
+  }
+  if (ArrayBuffer.isView(value)) {
+    note(value.constructor.name)
+    return visit(Array.from(value as unknown as ArrayLike<number | bigint>))
+  }
+  if (value instanceof Date) {
+    note(TIMESTAMP_TYPE)
+    return toDateText(value)
+  }
+  if (value instanceof Tag) {
+    note(`tag ${value.tag}`)
+    return visit(value.value)
+  }
+  if (value instanceof Set) {
+    note(SET_TYPE)
+    return visit(Array.from(value))
+  }
+  if (value === undefined) {
+    note(UNDEFINED_TYPE)
+    return null
+  }
+  return NOT_SPECIAL
+}
+
+const convertBsonValue: ToJsonConverter = (value, note, visit) => {
+  if (value instanceof Int32) return value.value
+  if (value instanceof Double) {
+    const number = value.valueOf()
+    // Whole doubles would be written back as integers without their badge
+    if (!Number.isFinite(number) || Number.isInteger(number)) note('double')
+    return Number.isFinite(number) ? number : String(number)
+  }
+  // A Timestamp is also a Long
+  if (value instanceof Timestamp) {
+    note('Timestamp')
+    return { t: value.t, i: value.i }
+  }
+  if (value instanceof Long) {
+    note('int64')
+    return toJsonInteger(value.toBigInt())
+  }
+  if (value instanceof ObjectId) {
+    note('ObjectId')
+    return value.toHexString()
+  }
+  if (value instanceof Binary) {
+    if (value.sub_type === Binary.SUBTYPE_UUID && value.position === 16) {
+      note('UUID')
+      return value.toUUID().toHexString(true)
+    }
+    note(value.sub_type === Binary.SUBTYPE_DEFAULT ? BINARY_TYPE : `binary (subtype ${value.sub_type})`)
+    return bytesToBase64(value.buffer.subarray(0, value.position))
+  }
+  if (value instanceof Date) {
+    note('date')
+    return toDateText(value)
+  }
+  if (value instanceof Decimal128) {
+    note('Decimal128')
+    return value.toString()
+  }
+  if (value instanceof BSONRegExp) {
+    note('regex')
+    return `/${value.pattern}/${value.options}`
+  }
+  if (value instanceof Code) {
+    if (value.scope) {
+      note('Code with scope')
+      return visit({ code: value.code, scope: value.scope })
+    }
+    note('Code')
+    return value.code
+  }
+  if (value instanceof BSONSymbol) {
+    note('Symbol')
+    return value.valueOf()
+  }
+  if (value instanceof MinKey || value instanceof MaxKey) {
+    note(value._bsontype)
+    return value._bsontype
+  }
+  if (value instanceof DBRef) {
+    return visit(value.toJSON())
+  }
+  if (value === undefined) {
+    note(UNDEFINED_TYPE)
+    return null
+  }
+  return NOT_SPECIAL
+}
+
+function readInt32(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)
+}
+
+// A .bson file is one or more documents written back to back, as mongodump does
+function readBsonDocuments(bytes: Uint8Array): any[] {
+  const documents: any[] = []
+  let offset = 0
+  while (offset < bytes.length) {
+    const size = bytes.length - offset >= 4 ? readInt32(bytes, offset) : 0
+    if (size < 5 || offset + size > bytes.length) {
+      throw new BinaryParseError(`Document ${documents.length + 1} is truncated or has an invalid length`, offset)
+    }
+    try {
+      documents.push(deserialize(bytes.subarray(offset, offset + size), { promoteValues: false, bsonRegExp: true }))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      throw new BinaryParseError(`Document ${documents.length + 1}: ${message}`, offset)
+    }
+    offset += size
+  }
+  return documents
+}
+
+// Timestamps are decoded by hand so their nanoseconds survive
+const msgpackExtensions = new ExtensionCodec()
+msgpackExtensions.register({
+  type: EXT_TIMESTAMP,
+  encode: () => null,
+  decode: (data, type) => new ExtData(type, data)
+})
+
+// Records and other cbor-x specific structures are not used, so other
+// decoders can read what is written
+const cborOptions = { useRecords: false, mapsAsObjects: true, tagUint8Array: false }
+
+function decodeValues(bytes: Uint8Array, format: BinaryFormat): any[] {
+  if (format === 'bson') return readBsonDocuments(bytes)
+  if (format === 'cbor') return (new CborDecoder(cborOptions).decodeMultiple(bytes) as any[] | void) ?? []
+  return Array.from(decodeMulti(bytes, { useBigInt64: true, extensionCodec: msgpackExtensions }))
+}
+
+const TO_JSON_CONVERTERS: Record<BinaryFormat, ToJsonConverter> = {
+  msgpack: convertMsgpackValue,
+  cbor: convertCborValue,
+  bson: convertBsonValue
+}
+
+/**
+ * Decodes a MessagePack, CBOR or BSON file into the JSON model. Binary data
+ * becomes base64 text, dates become ISO text and 64-bit integers stay exact;
+ * each such value is listed in `extendedTypes` so it can be shown with its
+ * source type and encoded as that type again. A file holding several values
+ * back to back is read as their array.
+ */
+export function decodeBinary(bytes: Uint8Array, format: BinaryFormat): BinaryDocument {
+  if (bytes.length === 0) {
+    throw new BinaryParseError(`The file is empty; a ${BINARY_FORMATS[format].label} file holds at least one value`)
+  }
+
+  const values = decodeValues(bytes, format)
+  const extendedTypes: ExtendedType[] = []
+  const convert = TO_JSON_CONVERTERS[format]
+  const data = values.length === 1
+    ? toJsonValue(values[0], '', extendedTypes, convert)
+    : values.map((value, index) => toJsonValue(value, joinIndexPath('', index), extendedTypes, convert))
+  return { data, extendedTypes, documentCount: values.length }
+}
+
+export function toBinaryParseError(format: BinaryFormat, error: unknown): ParseError {
+  const message = `${BINARY_FORMATS[format].label} Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+  return error instanceof BinaryParseError && error.offset !== undefined
+    ? { message, offset: error.offset }
+    : { message }
+}
+
+type FromJsonConverter = (value: any, type: string, path: string) => any
+
+type IntegerRange = [bigint?, bigint?]
+
+function invalidValue(path: string, value: any, type: string): BinaryExportError {
+  return new BinaryExportError(`${path || 'Root'}: ${JSON.stringify(value)} is not a valid ${type} value`)
+}
+
+function toBytes(value: any, path: string, type: string): Uint8Array {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) throw invalidValue(path, value, type)
+  return base64ToBytes(value)
+}
+
+function toFloat(value: any, path: string, type: string): number {
+  if (typeof value === 'number') return value
+  if (value === 'NaN') return NaN
+  if (value === 'Infinity') return Infinity
+  if (value === '-Infinity') return -Infinity
+  throw invalidValue(path, value, type)
+}
+
+function toInteger(number: LosslessNumber, path: string, min?: bigint, max?: bigint): bigint {
+  const label = path || 'Root'
+  if (!/^-?\d+$/.test(number.value)) {
+    throw new BinaryExportError(`${label}: ${number.value} cannot be encoded as a float without losing precision`)
+  }
+  const integer = BigInt(number.value)
+  if ((min !== undefined && integer < min) || (max !== undefined && integer > max)) {
+    throw new BinaryExportError(`${label}: ${number.value} does not fit in a 64-bit integer`)
+  }
+  return integer
+}
+
+// The inverse of `toJsonValue`: typed values are rebuilt by `convert` and
+// everything else is encoded as plain JSON
+function fromJsonValue(
+  value: any,
+  path: string,
+  types: Map<string, string>,
+  convert: FromJsonConverter,
+  integerRange: IntegerRange = []
+): any {
+  const type = types.get(path)
+  if (type) {
+    const converted = convert(value, type, path)
+    if (converted !== NOT_SPECIAL) return converted
+  }
+
+  if (isLosslessNumber(value)) return toInteger(value, path, ...integerRange)
+  if (Array.isArray(value)) {
+    return value.map((item, index) => fromJsonValue(item, joinIndexPath(path, index), types, convert, integerRange))
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => (
+      [key, fromJsonValue(item, joinPropertyPath(path, key), types, convert, integerRange)]
+    )))
+  }
+  return value
+}
+
+const convertToMsgpack: FromJsonConverter = (value, type, path) => {
+  if (type === BINARY_TYPE) return toBytes(value, path, type)
+  if (type === FLOAT_TYPE) return toFloat(value, path, type)
+  if (type === TIMESTAMP_TYPE) {
+    const timeSpec = typeof value === 'string' ? parseTimeSpec(value) : null
+    if (!timeSpec) throw invalidValue(path, value, type)
+    return new ExtData(EXT_TIMESTAMP, encodeTimeSpecToTimestamp(timeSpec))
+  }
+  const ext = EXT_TYPE_PATTERN.exec(type)
+  if (ext) return new ExtData(Number(ext[1]), toBytes(value, path, type))
+  return NOT_SPECIAL
+}
+
+function createCborConverter(types: Map<string, string>): FromJsonConverter {
+  const convert: FromJsonConverter = (value, type, path) => {
+    if (type === BINARY_TYPE) return toBytes(value, path, type)
+    if (type === FLOAT_TYPE) return toFloat(value, path, type)
+    if (type === UNDEFINED_TYPE && value === null) return undefined
+    if (type === TIMESTAMP_TYPE) {
+      const date = typeof value === 'string' ? new Date(value) : null
+      if (!date || Number.isNaN(date.getTime())) throw invalidValue(path, value, type)
+      return date
+    }
+    const tag = TAG_TYPE_PATTERN.exec(type)
+    if (tag) {
+      // The tag's content is encoded without the tag's own badge
+      const inner = new Map(types)
+      inner.delete(path)
+      return new Tag(fromJsonValue(value, path, inner, convert), Number(tag[1]))
+    }
+    if (Array.isArray(value) && (type === SET_TYPE || TYPED_ARRAYS[type])) {
+      const items = value.map((item, index) => fromJsonValue(item, joinIndexPath(path, index), types, convert))
+      if (type === SET_TYPE) return new Set(items)
+      try {
+        return TYPED_ARRAYS[type](items)
+      } catch {
+        throw invalidValue(path, value, type)
+      }
+    }
+    return NOT_SPECIAL
+  }
+  return convert
+}
+
+function createBsonConverter(types: Map<string, string>): FromJsonConverter {
+  const convert: FromJsonConverter = (value, type, path) => {
+    switch (type) {
+      case 'double':
+        return new Double(toFloat(value, path, type))
+      case 'int64':
+        if (typeof value === 'number' && Number.isInteger(value)) return Long.fromNumber(value)
+        if (isLosslessNumber(value)) return Long.fromBigInt(toInteger(value, path, ...BSON_INTEGER_RANGE))
+        return NOT_SPECIAL
+      case 'ObjectId':
+        if (typeof value !== 'string' || !/^[0-9a-fA-F]{24}$/.test(value)) throw invalidValue(path, value, type)
+        return ObjectId.createFromHexString(value)
+      case 'UUID':
+        if (typeof value !== 'string' || !UUID.isValid(value)) throw invalidValue(path, value, type)
+        return new UUID(value)
+      case BINARY_TYPE:
+        return new Binary(toBytes(value, path, type))
+      case 'date': {
+        const date = typeof value === 'string' ? new Date(value) : null
+        if (!date || Number.isNaN(date.getTime())) throw invalidValue(path, value, type)
+        return date
+      }
+      case 'Decimal128':
+        try {
+          return Decimal128.fromString(String(isLosslessNumber(value) ? value.value : value))
+        } catch {
+          throw invalidValue(path, value, type)
+        }
+      case 'Timestamp':
+        if (!Number.isInteger(value?.t) || !Number.isInteger(value?.i)) throw invalidValue(path, value, type)
+        return new Timestamp({ t: value.t, i: value.i })
+      case 'regex': {
+        const match = typeof value === 'string' ? BSON_REGEX_PATTERN.exec(value) : null
+        if (!match) throw invalidValue(path, value, type)
+        return new BSONRegExp(match[1], match[2])
+      }
+      case 'Code':
+        return typeof value === 'string' ? new Code(value) : NOT_SPECIAL
+      case 'Code with scope':
+        if (typeof value?.code !== 'string') throw invalidValue(path, value, type)
+        return new Code(value.code, fromJsonValue(value.scope ?? {}, joinPropertyPath(path, 'scope'), types, convert, BSON_INTEGER_RANGE))
+      case 'Symbol':
+        return typeof value === 'string' ? new BSONSymbol(value) : NOT_SPECIAL
+      case 'MinKey':
+        return new MinKey()
+      case 'MaxKey':
+        return new MaxKey()
+    }
+    const binary = BSON_BINARY_TYPE_PATTERN.exec(type)
+    if (binary) return new Binary(toBytes(value, path, type), Number(binary[1]))
+    return NOT_SPECIAL
+  }
+  return convert
+}
+
+function isDocument(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value)
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let offset = 0
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  })
+  return bytes
+}
+
+function encodeValue(value: any, format: BinaryFormat, path: string, types: Map<string, string>): Uint8Array {
+  try {
+    if (format === 'bson') {
+      if (!isDocument(value)) {
+        throw new BinaryExportError(`${path || 'Root'}: a BSON document must be an object`)
+      }
+      return serialize(fromJsonValue(value, path, types, createBsonConverter(types), BSON_INTEGER_RANGE))
+    }
+    if (format === 'cbor') {
+      return new CborEncoder(cborOptions).encode(fromJsonValue(value, path, types, createCborConverter(types)))
+    }
+    return encodeMsgpack(
+      fromJsonValue(value, path, types, convertToMsgpack, MSGPACK_INTEGER_RANGE),
+      { useBigInt64: true }
+    )
+  } catch (error) {
+    if (error instanceof BinaryExportError) throw error
+    throw new BinaryExportError(`${path || 'Root'}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Encodes `data` as MessagePack, CBOR or BSON. Values listed in
+ * `extendedTypes` are written with their source type again. With
+ * `documentCount` above one, the items of `data` are written back to back.
+ * Throws `BinaryExportError` naming the first value the format cannot hold.
+ */
+export function encodeBinary(
+  data: any,
+  format: BinaryFormat,
+  extendedTypes: ExtendedType[] = [],
+  documentCount: number = 1
+): Uint8Array {
+  const types = new Map(extendedTypes.map(({ path, type }) => [path, type]))
+  if (documentCount > 1 && Array.isArray(data)) {
+    return concatBytes(data.map((item, index) => encodeValue(item, format, joinIndexPath('', index), types)))
+  }
+  return encodeValue(data, format, '', types)
+}
+
+export function toBinaryFileName(fileName: string, format: BinaryFormat): string {
+  return fileName.replace(/\.[^./]*$/, '') + BINARY_FORMATS[format].extensions[0]
+}
@@ -0,0 +1,318 @@
+import { CsvDelimiter, CsvInfo, CsvOptions, ParseError } from '@/types'
+import { createLineLookup, getSourceContext, getSourcePosition } from '@/lib/json-source-parser'
+import { extractJsonPaths } from '@/lib/json-parser'
+import { isJsonNumberLexeme, isLosslessNumber, stringifyJson, toJsonNumber } from '@/lib/lossless-number'
+
+export const CSV_EXTENSIONS = ['.csv', '.tsv']
+
+export const CSV_DELIMITERS: Array<{ value: CsvDelimiter; label: string }> = [
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+  { value: '|', label: 'Pipe' }
+]
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  delimiter: 'auto',
+  header: 'auto',
+  coerceTypes: true
+}
+
+// Rows read to guess the delimiter and the header
+const SNIFF_ROWS = 20
+
+// Column of records that are plain values rather than objects
+const VALUE_COLUMN = 'value'
+
+export class CsvParseError extends Error {
+  readonly offset: number
+  readonly expected?: string
+
+  constructor(message: string, offset: number, expected?: string) {
+    super(message)
+    this.name = 'CsvParseError'
+    this.offset = offset
+    this.expected = expected
+  }
+}
+
+export interface RaggedCsvRow {
+  line: number // 1-based line the row starts on
+  fields: number
+  expected: number
+}
+
+export interface CsvReadResult {
+  records: Array<Record<string, any>>
+  info: CsvInfo
+  raggedRows: RaggedCsvRow[] // Rows whose field count differs from the columns
+}
+
+interface CsvRows {
+  rows: string[][]
+  offsets: number[] // Where each row starts
+}
+
+export function isCsvFile(fileName: string): boolean {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  return CSV_EXTENSIONS.includes(extension)
+}
+
+// Offset of the delimiter or line break that ends the field at `start`
+function findFieldEnd(text: string, start: number, delimiter: string): number {
+  let pos = start
+  while (pos < text.length) {
+    const char = text[pos]
+    if (char === delimiter || char === '\n' || char === '\r') break
+    pos++
+  }
+  return pos
+}
+
+/**
+ * Splits RFC 4180 text into rows of fields. Quoted fields may contain
+ * delimiters, line breaks and doubled quotes; blank lines are skipped.
+ */
+function readRows(text: string, delimiter: string, maxRows: number = Infinity): CsvRows {
+  const rows: string[][] = []
+  const offsets: number[] = []
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  while (pos < text.length && rows.length < maxRows) {
+    const rowStart = pos
+    const row: string[] = []
+
+    for (;;) {
+      let field = ''
+      if (text[pos] === '"') {
+        const quoteStart = pos
+        pos++
+        for (;;) {
+          const quote = text.indexOf('"', pos)
+          if (quote === -1) throw new CsvParseError('Unterminated quoted field', quoteStart, 'a closing quote')
+          field += text.slice(pos, quote)
+          pos = quote + 1
+          if (text[pos] !== '"') break
+          field += '"'
+          pos++
+        }
+      }
+      // Anything between a closing quote and the delimiter is kept as written
+      const end = findFieldEnd(text, pos, delimiter)
+      field += text.slice(pos, end)
+      pos = end
+      row.push(field)
+
+      if (text[pos] !== delimiter) break
+      pos++
+    }
+
+    if (text[pos] === '\r') pos++
+    if (text[pos] === '\n') pos++
+
+    if (row.length === 1 && row[0] === '' && text[rowStart] !== '"') continue
+    rows.push(row)
+    offsets.push(rowStart)
+  }
+
+  return { rows, offsets }
+}
+
+/**
+ * Picks the candidate delimiter that splits the first rows into the same
+ * number of columns, preferring more columns when several do.
+ */
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  let best: CsvDelimiter = ','
+  let bestConsistency = 0
+  let bestWidth = 1
+
+  for (const { value } of CSV_DELIMITERS) {
+    let rows: string[][]
+    try {
+      rows = readRows(text, value, SNIFF_ROWS).rows
+    } catch {
+      continue
+    }
+    if (rows.length === 0) continue
+
+    const width = rows[0].length
+    if (width < 2) continue
+    const consistency = rows.filter(row => row.length === width).length / rows.length
+    if (consistency > bestConsistency || (consistency === bestConsistency && width > bestWidth)) {
+      best = value
+      bestConsistency = consistency
+      bestWidth = width
+    }
+  }
+
+  return best
+}
+
+// Reads the plain-text forms of JSON scalars; anything else stays a string
+function coerceCell(cell: string): any {
+  if (cell === '') return null
+  const lower = cell.toLowerCase()
+  if (lower === 'true') return true
+  if (lower === 'false') return false
+  if (lower === 'null') return null
+  return isJsonNumberLexeme(cell) ? toJsonNumber(cell) : cell
+}
+
+// A first row of distinct, non-empty text cells is taken as column names.
+// Numbers, booleans or gaps in it mean it is data.
+function looksLikeHeader(row: string[]): boolean {
+  if (row.some(cell => cell.trim() === '')) return false
+  if (new Set(row).size !== row.length) return false
+  return row.every(cell => typeof coerceCell(cell) === 'string')
+}
+
+function getUniqueColumn(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name
+  let suffix = 2
+  while (taken.has(`${name}_${suffix}`)) suffix++
+  return `${name}_${suffix}`
+}
+
+function createColumns(names: string[], taken: Set<string> = new Set()): string[] {
+  return names.map((name, index) => {
+    const column = getUniqueColumn(name.trim() === '' ? `column${index + 1}` : name, taken)
+    taken.add(column)
+    return column
+  })
+}
+
+/**
+ * Reads CSV/TSV text into an array of records keyed by column name. Throws
+ * `CsvParseError`, which `toCsvParseError` turns into a positioned
+ * `ParseError`.
+ */
+export function readCsv(text: string, options: CsvOptions = DEFAULT_CSV_OPTIONS): CsvReadResult {
+  const delimiter = options.delimiter === 'auto' ? detectCsvDelimiter(text) : options.delimiter
+  const { rows, offsets } = readRows(text, delimiter)
+
+  const hasHeader = rows.length > 0 && (options.header === 'auto' ? looksLikeHeader(rows[0]) : options.header === 'yes')
+  const firstRecord = hasHeader ? 1 : 0
+  const width = rows.length > 0 ? rows[0].length : 0
+  const columns = hasHeader
+    ? createColumns(rows[0])
+    : createColumns(Array.from({ length: width }, () => ''))
+  const expectedFields = columns.length
+  const taken = new Set(columns)
+
+  const lineOf = createLineLookup(text)
+  const raggedRows: RaggedCsvRow[] = []
+  const records = rows.slice(firstRecord).map((row, index) => {
+    if (row.length !== expectedFields) {
+      raggedRows.push({ line: lineOf(offsets[firstRecord + index]), fields: row.length, expected: expectedFields })
+      // Extra fields get columns of their own rather than being dropped
+      while (columns.length < row.length) {
+        columns.push(...createColumns([`column${columns.length + 1}`], taken))
+      }
+    }
+
+    const record: Record<string, any> = {}
+    columns.forEach((column, i) => {
+      const cell = row[i]
+      if (cell === undefined) record[column] = null
+      else record[column] = options.coerceTypes ? coerceCell(cell) : cell
+    })
+    return record
+  })
+
+  return {
+    records,
+    info: { delimiter, hasHeader, columns, rowCount: records.length },
+    raggedRows
+  }
+}
+
+export function toCsvParseError(text: string, error: unknown): ParseError {
+  if (!(error instanceof CsvParseError)) {
+    return { message: `CSV Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}` }
+  }
+
+  const position = getSourcePosition(text, error.offset)
+  return {
+    message: `CSV Parse Error: ${error.message}`,
+    offset: position.offset,
+    line: position.line,
+    column: position.column,
+    expected: error.expected,
+    context: getSourceContext(text, position.line)
+  }
+}
+
+function isContainer(value: any): boolean {
+  return value !== null && typeof value === 'object' && !isLosslessNumber(value)
+}
+
+function isEmptyContainer(value: any): boolean {
+  return isContainer(value) && Object.keys(value).length === 0
+}
+
+// Leaf values of a record by column name, e.g. `user.name` or `tags[0]`
+function flattenRecord(record: any): Map<string, any> {
+  const cells = new Map<string, any>()
+  if (!isContainer(record)) {
+    cells.set(VALUE_COLUMN, record)
+    return cells
+  }
+
+  extractJsonPaths(record, (path, value) => {
+    if (!isContainer(value) || isEmptyContainer(value)) cells.set(path, value)
+  })
+  return cells
+}
+
+function formatCell(value: any, delimiter: string): string {
+  let text: string
+  if (value === null || value === undefined) text = ''
+  else if (typeof value === 'string') text = value
+  else if (isContainer(value)) text = stringifyJson(value)
+  else text = String(value)
+
+  const needsQuotes = text.includes('"') || text.includes(delimiter) || /[\r\n]|^\s|\s$/.test(text)
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Writes an array of objects as CSV. Nested fields become dotted columns
+ * (`user.name`, `tags[0]`), in the order they first appear across records;
+ * a record without a field leaves its cell empty. Anything that is not an
+ * array is written as a single record.
+ */
+export function formatCsv(data: any, delimiter: CsvDelimiter = ','): string {
+  const records = Array.isArray(data) ? data : [data]
+  const rows = records.map(flattenRecord)
+
+  // New columns go right after the column that precedes them in their record,
+  // so `tags[2]` follows `tags[1]` even when only later records have it
+  const columns: string[] = []
+  const known = new Set<string>()
+  rows.forEach(cells => {
+    let previous = -1
+    cells.forEach((_, column) => {
+      if (known.has(column)) {
+        previous = columns.indexOf(column)
+        return
+      }
+      columns.splice(previous + 1, 0, column)
+      known.add(column)
+      previous++
+    })
+  })
+
+  if (columns.length === 0) return ''
+  const lines = [columns.map(column => formatCell(column, delimiter)).join(delimiter)]
+  rows.forEach(cells => {
+    const line = columns.map(column => formatCell(cells.get(column), delimiter)).join(delimiter)
+    // A blank line would be skipped when read back
+    lines.push(line === '' ? '""' : line)
+  })
+  return lines.join('\r\n') + '\r\n'
+}
+
+export function toCsvFileName(fileName: string, delimiter: CsvDelimiter = ','): string {
+  return fileName.replace(/\.[^./]*$/, '') + (delimiter === '\t' ? '.tsv' : '.csv')
+}
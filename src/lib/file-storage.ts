@@ -0,0 +1,259 @@
+import { FileData, JsonAnnotations, JsonEditState } from '@/types'
+import { FILE_LIMITS, STORAGE_KEYS } from '@/config/constants'
+import { decodeLosslessNumbers, encodeLosslessNumbers } from '@/lib/lossless-number'
+
+const DB_VERSION = 1
+const DOCUMENTS_STORE = 'documents'
+const RECENT_STORE = 'recent'
+const SESSION_STORE = 'session'
+const SESSION_KEY = 'current'
+
+// What a document is rebuilt from; parse results are produced again on load
+export type StoredFile = Pick<
+  FileData,
+  | 'id' | 'name' | 'size' | 'type' | 'content' | 'encoding' | 'hasBom' | 'sourceText' | 'lastModified' | 'format' | 'parseMode'
+  | 'csvOptions' | 'xmlOptions' | 'extractedFrom' | 'archiveId' | 'derivedFrom' | 'readOnly'
+>
+
+export interface StoredDocument {
+  file: StoredFile
+  editedData?: any // Unsaved edits; the undo history is not kept
+  editedAnnotations?: JsonAnnotations // Comments and types moved by those edits
+  expandedPaths?: string[]
+  lastOpened: number
+}
+
+export interface RecentFileEntry {
+  id: string
+  name: string
+  size: number
+  format?: FileData['format']
+  extractedFrom?: string
+  hasEdits: boolean
+  lastOpened: number
+}
+
+export interface StoredSession {
+  openFileIds: string[] // In the order of the file list
+  activeFileId?: string
+}
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+}
+
+export class FileStorageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FileStorageError'
+  }
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+export function isFileStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(STORAGE_KEYS.recentFiles, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'file.id' })
+        db.createObjectStore(RECENT_STORE, { keyPath: 'id' })
+        db.createObjectStore(SESSION_STORE)
+      }
+      request.onsuccess = () => {
+        const db = request.result
+        // Another tab upgrading the database needs this connection gone
+        db.onversionchange = () => {
+          db.close()
+          databasePromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => reject(toStorageError(request.error))
+      request.onblocked = () => reject(new FileStorageError('File storage is in use by another tab'))
+    }).catch(error => {
+      databasePromise = null
+      throw error
+    })
+  }
+  return databasePromise
+}
+
+function toStorageError(error: DOMException | null): FileStorageError {
+  if (error?.name === 'QuotaExceededError') {
+    return new FileStorageError('Not enough storage space to keep the files on this device')
+  }
+  return new FileStorageError(error?.message || 'File storage failed')
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(toStorageError(request.error))
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(toStorageError(transaction.error))
+    transaction.onabort = () => reject(toStorageError(transaction.error))
+  })
+}
+
+/**
+ * Captures a file for storage: the source it was loaded from and, when it
+ * has been edited, the edited document.
+ */
+export function toStoredDocument(
+  file: FileData,
+  editState: JsonEditState | undefined,
+  expandedPaths: string[] | undefined,
+  lastOpened: number
+): StoredDocument {
+  const stored: StoredFile = {
+    id: file.id,
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    content: editState?.originalContent ?? file.content,
+    encoding: file.encoding,
+    hasBom: file.hasBom,
+    sourceText: file.sourceText,
+    lastModified: file.lastModified,
+    format: file.format,
+    parseMode: file.parseMode,
+    csvOptions: file.csvOptions,
+    xmlOptions: file.xmlOptions,
+    extractedFrom: file.extractedFrom,
+    archiveId: file.archiveId,
+    derivedFrom: file.derivedFrom,
+    readOnly: file.readOnly
+  }
+
+  return {
+    file: stored,
+    // Structured cloning drops the `LosslessNumber` class
+    editedData: editState?.hasChanges ? encodeLosslessNumbers(editState.editedData) : undefined,
+    editedAnnotations: editState?.hasChanges ? editState.annotations : undefined,
+    expandedPaths,
+    lastOpened
+  }
+}
+
+function toRecentEntry({ file, editedData, lastOpened }: StoredDocument): RecentFileEntry {
+  return {
+    id: file.id,
+    name: file.name,
+    size: file.size,
+    format: file.format,
+    extractedFrom: file.extractedFrom,
+    hasEdits: editedData !== undefined,
+    lastOpened
+  }
+}
+
+function fromStoredDocument(document: StoredDocument): StoredDocument {
+  return document.editedData === undefined
+    ? document
+    : { ...document, editedData: decodeLosslessNumbers(document.editedData) }
+}
+
+/**
+ * Writes the given documents and the list of open files. Closed documents
+ * beyond `FILE_LIMITS.recentFiles` are dropped, oldest first.
+ */
+export async function saveDocuments(documents: StoredDocument[], session: StoredSession): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DOCUMENTS_STORE, RECENT_STORE, SESSION_STORE], 'readwrite')
+  const done = transactionDone(transaction)
+  const recentStore = transaction.objectStore(RECENT_STORE)
+  const documentsStore = transaction.objectStore(DOCUMENTS_STORE)
+
+  documents.forEach(document => {
+    documentsStore.put(document)
+    recentStore.put(toRecentEntry(document))
+  })
+  transaction.objectStore(SESSION_STORE).put(session, SESSION_KEY)
+
+  const openIds = new Set(session.openFileIds)
+  const request = recentStore.getAll()
+  request.onsuccess = () => {
+    (request.result as RecentFileEntry[])
+      .filter(entry => !openIds.has(entry.id))
+      .sort((a, b) => b.lastOpened - a.lastOpened)
+      .slice(FILE_LIMITS.recentFiles)
+      .forEach(entry => {
+        recentStore.delete(entry.id)
+        documentsStore.delete(entry.id)
+      })
+  }
+
+  await done
+}
+
+// The documents that were open when the page was last left
+export async function loadSession(): Promise<{ documents: StoredDocument[]; activeFileId?: string }> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DOCUMENTS_STORE, SESSION_STORE], 'readonly')
+  const session: StoredSession | undefined = await requestResult(transaction.objectStore(SESSION_STORE).get(SESSION_KEY))
+  if (!session) return { documents: [] }
+
+  const documentsStore = transaction.objectStore(DOCUMENTS_STORE)
+  const documents: Array<StoredDocument | undefined> = await Promise.all(
+    session.openFileIds.map(id => requestResult(documentsStore.get(id)))
+  )
+  return {
+    documents: documents.filter((document): document is StoredDocument => !!document).map(fromStoredDocument),
+    activeFileId: session.activeFileId
+  }
+}
+
+export async function loadDocument(id: string): Promise<StoredDocument | undefined> {
+  const db = await openDatabase()
+  const document: StoredDocument | undefined = await requestResult(
+    db.transaction(DOCUMENTS_STORE, 'readonly').objectStore(DOCUMENTS_STORE).get(id)
+  )
+  return document && fromStoredDocument(document)
+}
+
+// Most recently opened first
+export async function listRecentFiles(): Promise<RecentFileEntry[]> {
+  const db = await openDatabase()
+  const entries: RecentFileEntry[] = await requestResult(
+    db.transaction(RECENT_STORE, 'readonly').objectStore(RECENT_STORE).getAll()
+  )
+  return entries.sort((a, b) => b.lastOpened - a.lastOpened)
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DOCUMENTS_STORE, RECENT_STORE], 'readwrite')
+  transaction.objectStore(DOCUMENTS_STORE).delete(id)
+  transaction.objectStore(RECENT_STORE).delete(id)
+  await transactionDone(transaction)
+}
+
+// Removes every stored document, the recent files list and the session
+export async function clearFileStorage(): Promise<void> {
+  const db = await openDatabase()
+  const transaction = db.transaction([DOCUMENTS_STORE, RECENT_STORE, SESSION_STORE], 'readwrite')
+  transaction.objectStore(DOCUMENTS_STORE).clear()
+  transaction.objectStore(RECENT_STORE).clear()
+  transaction.objectStore(SESSION_STORE).clear()
+  await transactionDone(transaction)
+}
+
+// Space used by this site and the browser's quota for it, where supported
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  const { usage, quota } = await navigator.storage.estimate()
+  return usage !== undefined && quota ? { usage, quota } : null
+}
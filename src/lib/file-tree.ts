@@ -0,0 +1,75 @@
+import { FileData } from '@/types'
+
+export interface FileTreeFile {
+  kind: 'file'
+  key: string
+  name: string // Last segment of the path
+  file: FileData
+  index: number // Position in the list of open files
+}
+
+export interface FileTreeFolder {
+  kind: 'folder'
+  key: string
+  name: string
+  children: FileTreeNode[]
+  fileCount: number // Files anywhere below the folder
+  archiveId?: string // Set on the node of an uploaded archive
+}
+
+export type FileTreeNode = FileTreeFile | FileTreeFolder
+
+function getChildFolder(parent: FileTreeFolder, name: string): FileTreeFolder {
+  const existing = parent.children.find(
+    (child): child is FileTreeFolder => child.kind === 'folder' && child.name === name
+  )
+  if (existing) return existing
+
+  const folder: FileTreeFolder = { kind: 'folder', key: `${parent.key}/${name}`, name, children: [], fileCount: 0 }
+  parent.children.push(folder)
+  return folder
+}
+
+/**
+ * Groups files extracted from the same archive under a folder named after
+ * the archive, with the directories (and nested archives) of their paths as
+ * subfolders. Other files stay at the top level; the order of `files` is
+ * kept within each level.
+ */
+export function buildFileTree(files: FileData[]): FileTreeNode[] {
+  const roots: FileTreeNode[] = []
+  const archives = new Map<string, FileTreeFolder>()
+
+  files.forEach((file, index) => {
+    if (!file.archiveId) {
+      roots.push({ kind: 'file', key: file.id, name: file.name, file, index })
+      return
+    }
+
+    let archive = archives.get(file.archiveId)
+    if (!archive) {
+      archive = {
+        kind: 'folder',
+        key: file.archiveId,
+        name: file.extractedFrom ?? 'Archive',
+        children: [],
+        fileCount: 0,
+        archiveId: file.archiveId
+      }
+      archives.set(file.archiveId, archive)
+      roots.push(archive)
+    }
+
+    const segments = file.name.split('/').filter(segment => segment !== '')
+    const name = segments.pop() ?? file.name
+    let folder = archive
+    folder.fileCount++
+    segments.forEach(segment => {
+      folder = getChildFolder(folder, segment)
+      folder.fileCount++
+    })
+    folder.children.push({ kind: 'file', key: file.id, name, file, index })
+  })
+
+  return roots
+}
@@ -0,0 +1,158 @@
+import { isLosslessNumber, stringifyJson } from '@/lib/lossless-number'
+
+export const INI_EXTENSIONS = ['.ini', '.cfg']
+
+export interface IniWarning {
+  line: number // 1-based
+  message: string
+}
+
+export interface IniDocument {
+  data: Record<string, any>
+  warnings: IniWarning[]
+}
+
+export function isIniFile(fileName: string): boolean {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  return INI_EXTENSIONS.includes(extension)
+}
+
+// Drops a `;` or `#` comment that follows whitespace outside quotes
+function stripInlineComment(value: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if ((char === ';' || char === '#') && i > 0 && /\s/.test(value[i - 1])) {
+      return value.slice(0, i).trimEnd()
+    }
+  }
+  return value
+}
+
+// Plain assignment would treat a `__proto__` key as the prototype
+function setMember(target: Record<string, any>, key: string, value: any): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+function unquote(value: string): string {
+  const first = value[0]
+  return value.length >= 2 && (first === '"' || first === "'") && value.endsWith(first)
+    ? value.slice(1, -1)
+    : value
+}
+
+/**
+ * Reads an INI file into an object: keys before the first section at the
+ * top level and one object per `[section]`. Values stay strings; a key
+ * without `=` or `:` is null. Indented lines without a separator continue
+ * the previous value. Problems are reported as warnings and the last value
+ * of a repeated key wins.
+ */
+export function loadIni(text: string): IniDocument {
+  const data: Record<string, any> = {}
+  const warnings: IniWarning[] = []
+  let section = data
+  let sectionName = ''
+  let lastKey: string | null = null
+  const seen = new Map<string, number>() // Line of each `section/key`
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    const trimmed = raw.trim()
+    if (trimmed === '' || trimmed.startsWith(';') || trimmed.startsWith('#')) return
+
+    if (trimmed.startsWith('[')) {
+      const end = trimmed.indexOf(']')
+      if (end === -1) {
+        warnings.push({ line, message: `Section header "${trimmed}" is missing "]"; following keys go to the previous section` })
+        return
+      }
+      sectionName = trimmed.slice(1, end).trim()
+      if (Object.prototype.hasOwnProperty.call(data, sectionName)) {
+        const existing = data[sectionName]
+        if (existing === null || typeof existing !== 'object') {
+          warnings.push({ line, message: `Section [${sectionName}] replaces the key of the same name` })
+          setMember(data, sectionName, {})
+        } else {
+          warnings.push({ line, message: `Section [${sectionName}] appears again; its keys are merged` })
+        }
+      } else {
+        setMember(data, sectionName, {})
+      }
+      section = data[sectionName]
+      lastKey = null
+      return
+    }
+
+    const separator = trimmed.search(/[=:]/)
+    const isIndented = /^\s/.test(raw)
+    if (separator === -1 && isIndented && lastKey !== null) {
+      const previous = section[lastKey]
+      setMember(section, lastKey, previous ? `${previous}\n${trimmed}` : trimmed)
+      return
+    }
+
+    const key = (separator === -1 ? trimmed : trimmed.slice(0, separator)).trim()
+    const value = separator === -1 ? null : unquote(stripInlineComment(trimmed.slice(separator + 1).trim()))
+    const seenKey = `${sectionName}\u0000${key}`
+    const firstLine = seen.get(seenKey)
+    if (firstLine !== undefined) {
+      warnings.push({ line, message: `Key "${key}" ${sectionName ? `in [${sectionName}] ` : ''}repeats line ${firstLine}; the last value is kept` })
+    } else {
+      seen.set(seenKey, line)
+    }
+    setMember(section, key, value)
+    lastKey = key
+  })
+
+  return { data, warnings }
+}
+
+function formatIniValue(value: any): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string') {
+    // Quote values that would otherwise lose whitespace or be read as comments;
+    // further lines are indented so they continue the value
+    const text = /^\s|\s$|\s[;#]|^["']/.test(value) ? `"${value}"` : value
+    return text.replace(/\n/g, '\n  ')
+  }
+  if (isLosslessNumber(value) || typeof value !== 'object') return String(value)
+  return stringifyJson(value)
+}
+
+function formatIniEntry(key: string, value: any): string {
+  return value === null || value === undefined ? key : `${key} = ${formatIniValue(value)}`
+}
+
+/**
+ * Writes an object as INI: scalar members first, then one section per
+ * object member. Values nested deeper than a section are written as JSON.
+ */
+export function formatIni(data: any): string {
+  const lines: string[] = []
+  const sections: Array<[string, Record<string, any>]> = []
+
+  const entries = data !== null && typeof data === 'object' && !Array.isArray(data) && !isLosslessNumber(data)
+    ? Object.entries(data)
+    : [['value', data] as [string, any]]
+
+  entries.forEach(([key, value]) => {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value)) {
+      sections.push([key, value])
+    } else {
+      lines.push(formatIniEntry(key, value))
+    }
+  })
+
+  sections.forEach(([name, members]) => {
+    if (lines.length > 0) lines.push('')
+    lines.push(`[${name}]`)
+    Object.entries(members).forEach(([key, value]) => lines.push(formatIniEntry(key, value)))
+  })
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,2294 @@
+import { getJsonType } from '@/lib/json-parser'
+
+export interface JqFilterOptions {
+  maxOutputs?: number
+}
+
+export interface JqFilterResult {
+  outputs: any[]
+  truncated: boolean
+  warnings?: string[]
+}
+
+export class JqSyntaxError extends Error {
+  readonly position: number
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`)
+    this.name = 'JqSyntaxError'
+    this.position = position
+  }
+}
+
+// Raised by `error/1` and failed operations; `value` is what `catch` receives
+export class JqRuntimeError extends Error {
+  readonly value: any
+
+  constructor(value: any) {
+    super(typeof value === 'string' ? value : `${toJson(value)} (not a string)`)
+    this.name = 'JqRuntimeError'
+    this.value = value
+  }
+}
+
+type TokenType = 'punct' | 'keyword' | 'ident' | 'field' | 'variable' | 'format' | 'number' | 'string' | 'eof'
+
+type StringPart = string | { source: string; offset: number }
+
+interface Token {
+  type: TokenType
+  value: string
+  position: number
+  parts?: StringPart[]
+}
+
+type Pattern =
+  | { kind: 'variable'; name: string }
+  | { kind: 'array'; elements: Pattern[] }
+  | { kind: 'object'; entries: PatternEntry[] }
+
+interface PatternEntry {
+  key: Ast
+  variable?: string
+  pattern?: Pattern
+}
+
+interface ObjectEntry {
+  key: Ast
+  value: Ast
+}
+
+type Ast =
+  | { kind: 'identity' }
+  | { kind: 'recurse' }
+  | { kind: 'literal'; value: any }
+  | { kind: 'string'; parts: (string | Ast)[]; format?: string }
+  | { kind: 'format'; name: string }
+  | { kind: 'index'; target: Ast; index: Ast }
+  | { kind: 'slice'; target: Ast; from?: Ast; to?: Ast }
+  | { kind: 'iterate'; target: Ast }
+  | { kind: 'pipe' | 'comma' | 'alternative' | 'and' | 'or'; left: Ast; right: Ast }
+  | { kind: 'binary'; operator: string; left: Ast; right: Ast }
+  | { kind: 'assign'; operator: string; left: Ast; right: Ast }
+  | { kind: 'negate'; operand: Ast }
+  | { kind: 'array'; body?: Ast }
+  | { kind: 'object'; entries: ObjectEntry[] }
+  | { kind: 'if'; condition: Ast; then: Ast; else: Ast }
+  | { kind: 'try'; body: Ast; handler?: Ast }
+  | { kind: 'reduce'; source: Ast; pattern: Pattern; init: Ast; update: Ast }
+  | { kind: 'foreach'; source: Ast; pattern: Pattern; init: Ast; update: Ast; extract?: Ast }
+  | { kind: 'define'; name: string; params: string[]; body: Ast; rest: Ast }
+  | { kind: 'call'; name: string; args: Ast[] }
+  | { kind: 'variable'; name: string }
+  | { kind: 'bind'; source: Ast; pattern: Pattern; body: Ast }
+
+type DefineNode = Extract<Ast, { kind: 'define' }>
+type CallNode = Extract<Ast, { kind: 'call' }>
+type AssignNode = Extract<Ast, { kind: 'assign' }>
+
+const IDENTITY: Ast = { kind: 'identity' }
+
+const KEYWORDS = new Set([
+  'def', 'if', 'then', 'elif', 'else', 'end', 'as', 'reduce', 'foreach',
+  'try', 'catch', 'label', 'import', 'include', 'and', 'or'
+])
+
+// Longest first so that e.g. `//=` is not read as `//` followed by `=`
+const PUNCTUATORS = [
+  '//=', '|=', '+=', '-=', '*=', '/=', '%=', '==', '!=', '<=', '>=', '//', '..',
+  '.', '[', ']', '{', '}', '(', ')', '|', ',', ':', ';', '=', '<', '>', '+', '-', '*', '/', '%', '?'
+]
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '|=', '+=', '-=', '*=', '/=', '%=', '//='])
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>='])
+
+const STRING_ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+}
+
+const DEFAULT_MAX_OUTPUTS = 10000
+
+function findInterpolationEnd(source: string, start: number, offset: number): number {
+  let depth = 1
+  let pos = start
+
+  while (pos < source.length) {
+    const char = source[pos]
+    if (char === '"') {
+      pos = scanString(source, pos, offset).end
+      continue
+    }
+    if (char === '(') depth++
+    if (char === ')' && --depth === 0) return pos
+    pos++
+  }
+
+  throw new JqSyntaxError('Unterminated string interpolation', offset + start - 2)
+}
+
+function scanString(source: string, start: number, offset: number): { parts: StringPart[]; end: number } {
+  const parts: StringPart[] = []
+  let text = ''
+  let pos = start + 1
+
+  while (pos < source.length) {
+    const char = source[pos]
+
+    if (char === '"') {
+      if (text || parts.length === 0) parts.push(text)
+      return { parts, end: pos + 1 }
+    }
+
+    if (char !== '\\') {
+      text += char
+      pos++
+      continue
+    }
+
+    const escape = source[pos + 1]
+    if (escape === '(') {
+      const end = findInterpolationEnd(source, pos + 2, offset)
+      if (text) parts.push(text)
+      text = ''
+      parts.push({ source: source.slice(pos + 2, end), offset: offset + pos + 2 })
+      pos = end + 1
+    } else if (escape === 'u') {
+      const hex = source.slice(pos + 2, pos + 6)
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+        throw new JqSyntaxError('Invalid \\u escape in string', offset + pos)
+      }
+      // Surrogate pairs written as two escapes combine naturally in UTF-16
+      text += String.fromCharCode(parseInt(hex, 16))
+      pos += 6
+    } else if (escape !== undefined && escape in STRING_ESCAPES) {
+      text += STRING_ESCAPES[escape]
+      pos += 2
+    } else {
+      throw new JqSyntaxError(`Invalid escape '\\${escape ?? ''}' in string`, offset + pos)
+    }
+  }
+
+  throw new JqSyntaxError('Unterminated string', offset + start)
+}
+
+function tokenize(source: string, offset: number = 0): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  const push = (type: TokenType, value: string, length: number) => {
+    tokens.push({ type, value, position: offset + pos })
+    pos += length
+  }
+
+  while (pos < source.length) {
+    const char = source[pos]
+
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+
+    if (char === '#') {
+      while (pos < source.length && source[pos] !== '\n') pos++
+      continue
+    }
+
+    if (char === '"') {
+      const { parts, end } = scanString(source, pos, offset)
+      tokens.push({ type: 'string', value: source.slice(pos, end), position: offset + pos, parts })
+      pos = end
+      continue
+    }
+
+    const rest = source.slice(pos)
+
+    const field = /^\.([A-Za-z_][A-Za-z0-9_]*)/.exec(rest)
+    if (field) { push('field', field[1], field[0].length); continue }
+
+    const variable = /^\$([A-Za-z_][A-Za-z0-9_]*(?:::[A-Za-z_][A-Za-z0-9_]*)*)/.exec(rest)
+    if (variable) { push('variable', variable[1], variable[0].length); continue }
+
+    const format = /^@([A-Za-z0-9_]+)/.exec(rest)
+    if (format) { push('format', format[1], format[0].length); continue }
+
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest)
+    if (number) { push('number', number[0], number[0].length); continue }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*(?:::[A-Za-z_][A-Za-z0-9_]*)*/.exec(rest)
+    if (ident) { push(KEYWORDS.has(ident[0]) ? 'keyword' : 'ident', ident[0], ident[0].length); continue }
+
+    const punctuator = PUNCTUATORS.find(candidate => rest.startsWith(candidate))
+    if (punctuator) { push('punct', punctuator, punctuator.length); continue }
+
+    throw new JqSyntaxError(`Unexpected character '${char}'`, offset + pos)
+  }
+
+  tokens.push({ type: 'eof', value: '', position: offset + source.length })
+  return tokens
+}
+
+class Parser {
+  private index = 0
+  // Object values may not contain top-level commas: `{a: 1, b: 2}`
+  private allowComma = true
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  private is(type: TokenType, value?: string, offset: number = 0): boolean {
+    const token = this.peek(offset)
+    return token.type === type && (value === undefined || token.value === value)
+  }
+
+  private accept(type: TokenType, value?: string): boolean {
+    if (!this.is(type, value)) return false
+    this.index++
+    return true
+  }
+
+  private fail(token: Token, expected?: string): never {
+    const found = token.type === 'eof' ? 'end of filter' : `'${token.value}'`
+    throw new JqSyntaxError(expected ? `Expected ${expected} but found ${found}` : `Unexpected ${found}`, token.position)
+  }
+
+  private expect(type: TokenType, value: string | undefined, description: string): Token {
+    if (!this.is(type, value)) this.fail(this.peek(), description)
+    return this.next()
+  }
+
+  parseProgram(): Ast {
+    if (this.is('eof')) return IDENTITY
+    const program = this.parsePipe()
+    if (!this.is('eof')) this.fail(this.peek())
+    return program
+  }
+
+  private parseNested(allowComma: boolean = true): Ast {
+    const previous = this.allowComma
+    this.allowComma = allowComma
+    try {
+      return this.parsePipe()
+    } finally {
+      this.allowComma = previous
+    }
+  }
+
+  private parsePipe(): Ast {
+    if (this.is('keyword', 'def')) {
+      const { name, params, body } = this.parseDefinition()
+      return { kind: 'define', name, params, body, rest: this.parsePipe() }
+    }
+
+    const left = this.parseComma()
+    if (this.accept('punct', '|')) {
+      return { kind: 'pipe', left, right: this.parsePipe() }
+    }
+    return left
+  }
+
+  private parseDefinition(): { name: string; params: string[]; body: Ast } {
+    this.next()
+    const name = this.expect('ident', undefined, 'a function name').value
+    const params: string[] = []
+
+    if (this.accept('punct', '(')) {
+      do {
+        const token = this.next()
+        if (token.type === 'variable') params.push(`$${token.value}`)
+        else if (token.type === 'ident') params.push(token.value)
+        else this.fail(token, 'a parameter name')
+      } while (this.accept('punct', ';'))
+      this.expect('punct', ')', "')'")
+    }
+
+    this.expect('punct', ':', "':'")
+    const body = this.parseNested()
+    this.expect('punct', ';', "';'")
+    return { name, params, body }
+  }
+
+  private parseComma(): Ast {
+    let left = this.parseAlternative()
+    while (this.allowComma && this.accept('punct', ',')) {
+      left = { kind: 'comma', left, right: this.parseAlternative() }
+    }
+    return left
+  }
+
+  private parseAlternative(): Ast {
+    const left = this.parseAssignment()
+    if (this.accept('punct', '//')) {
+      return { kind: 'alternative', left, right: this.parseAlternative() }
+    }
+    return left
+  }
+
+  private parseAssignment(): Ast {
+    const left = this.parseOr()
+    const token = this.peek()
+    if (token.type === 'punct' && ASSIGNMENT_OPERATORS.has(token.value)) {
+      this.next()
+      return { kind: 'assign', operator: token.value, left, right: this.parseOr() }
+    }
+    return left
+  }
+
+  private parseOr(): Ast {
+    let left = this.parseAnd()
+    while (this.accept('keyword', 'or')) {
+      left = { kind: 'or', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): Ast {
+    let left = this.parseComparison()
+    while (this.accept('keyword', 'and')) {
+      left = { kind: 'and', left, right: this.parseComparison() }
+    }
+    return left
+  }
+
+  private parseComparison(): Ast {
+    const left = this.parseAdditive()
+    const token = this.peek()
+    if (token.type === 'punct' && COMPARISON_OPERATORS.has(token.value)) {
+      this.next()
+      return { kind: 'binary', operator: token.value, left, right: this.parseAdditive() }
+    }
+    return left
+  }
+
+  private parseAdditive(): Ast {
+    let left = this.parseMultiplicative()
+    while (this.is('punct', '+') || this.is('punct', '-')) {
+      const operator = this.next().value
+      left = { kind: 'binary', operator, left, right: this.parseMultiplicative() }
+    }
+    return left
+  }
+
+  private parseMultiplicative(): Ast {
+    let left = this.parseUnary()
+    while (this.is('punct', '*') || this.is('punct', '/') || this.is('punct', '%')) {
+      const operator = this.next().value
+      left = { kind: 'binary', operator, left, right: this.parseUnary() }
+    }
+    return left
+  }
+
+  private parseUnary(): Ast {
+    if (this.accept('punct', '-')) {
+      return { kind: 'negate', operand: this.parseUnary() }
+    }
+    return this.parsePostfix()
+  }
+
+  private parsePostfix(allowBinding: boolean = true): Ast {
+    let term = this.parseTerm()
+
+    while (true) {
+      if (this.is('field')) {
+        term = { kind: 'index', target: term, index: { kind: 'literal', value: this.next().value } }
+      } else if (this.is('punct', '.') && this.is('string', undefined, 1)) {
+        this.next()
+        term = { kind: 'index', target: term, index: this.parseString() }
+      } else if (this.is('punct', '.') && this.is('punct', '[', 1)) {
+        this.next()
+      } else if (this.is('punct', '[')) {
+        term = this.parseBracketSuffix(term)
+      } else if (this.accept('punct', '?')) {
+        term = { kind: 'try', body: term }
+      } else {
+        break
+      }
+    }
+
+    if (allowBinding && this.accept('keyword', 'as')) {
+      const pattern = this.parsePattern()
+      this.expect('punct', '|', "'|'")
+      return { kind: 'bind', source: term, pattern, body: this.parsePipe() }
+    }
+
+    return term
+  }
+
+  private parseBracketSuffix(target: Ast): Ast {
+    this.next()
+
+    if (this.accept('punct', ']')) return { kind: 'iterate', target }
+
+    if (this.accept('punct', ':')) {
+      const to = this.parseNested()
+      this.expect('punct', ']', "']'")
+      return { kind: 'slice', target, to }
+    }
+
+    const index = this.parseNested()
+    if (this.accept('punct', ':')) {
+      const to = this.is('punct', ']') ? undefined : this.parseNested()
+      this.expect('punct', ']', "']'")
+      return { kind: 'slice', target, from: index, to }
+    }
+
+    this.expect('punct', ']', "']'")
+    return { kind: 'index', target, index }
+  }
+
+  private parseTerm(): Ast {
+    const token = this.peek()
+
+    switch (token.type) {
+      case 'number':
+        this.next()
+        return { kind: 'literal', value: Number(token.value) }
+      case 'string':
+        return this.parseString()
+      case 'format':
+        this.next()
+        return this.is('string') ? this.parseString(token.value) : { kind: 'format', name: token.value }
+      case 'field':
+        this.next()
+        return { kind: 'index', target: IDENTITY, index: { kind: 'literal', value: token.value } }
+      case 'variable':
+        this.next()
+        if (token.value === '__loc__') return { kind: 'literal', value: { file: '<top-level>', line: 1 } }
+        return { kind: 'variable', name: token.value }
+      case 'ident':
+        return this.parseCall()
+      case 'keyword':
+        switch (token.value) {
+          case 'if': return this.parseIf()
+          case 'try': return this.parseTry()
+          case 'reduce': return this.parseReduce()
+          case 'foreach': return this.parseForeach()
+          case 'def': return this.parseNested()
+          case 'label':
+          case 'import':
+          case 'include':
+            throw new JqSyntaxError(`'${token.value}' is not supported`, token.position)
+        }
+        break
+      case 'punct':
+        switch (token.value) {
+          case '.':
+            this.next()
+            return this.is('string')
+              ? { kind: 'index', target: IDENTITY, index: this.parseString() }
+              : IDENTITY
+          case '..':
+            this.next()
+            return { kind: 'recurse' }
+          case '(': {
+            this.next()
+            const body = this.parseNested()
+            this.expect('punct', ')', "')'")
+            return body
+          }
+          case '[': {
+            this.next()
+            if (this.accept('punct', ']')) return { kind: 'array' }
+            const body = this.parseNested()
+            this.expect('punct', ']', "']'")
+            return { kind: 'array', body }
+          }
+          case '{':
+            return this.parseObject()
+        }
+        break
+    }
+
+    this.fail(token)
+  }
+
+  private parseString(format?: string): Ast {
+    const token = this.expect('string', undefined, 'a string')
+    const parts = token.parts!.map(part =>
+      typeof part === 'string' ? part : new Parser(tokenize(part.source, part.offset)).parseProgram()
+    )
+
+    if (!format && parts.every(part => typeof part === 'string')) {
+      return { kind: 'literal', value: parts.join('') }
+    }
+    return { kind: 'string', parts, format }
+  }
+
+  private parseCall(): Ast {
+    const name = this.next().value
+
+    if (!this.is('punct', '(')) {
+      if (name === 'true') return { kind: 'literal', value: true }
+      if (name === 'false') return { kind: 'literal', value: false }
+      if (name === 'null') return { kind: 'literal', value: null }
+      return { kind: 'call', name, args: [] }
+    }
+
+    this.next()
+    const args: Ast[] = []
+    do {
+      args.push(this.parseNested())
+    } while (this.accept('punct', ';'))
+    this.expect('punct', ')', "')'")
+    return { kind: 'call', name, args }
+  }
+
+  private parseIf(): Ast {
+    this.next() // 'if' or 'elif'
+    const condition = this.parseNested()
+    this.expect('keyword', 'then', "'then'")
+    const then = this.parseNested()
+
+    if (this.is('keyword', 'elif')) {
+      return { kind: 'if', condition, then, else: this.parseIf() }
+    }
+
+    const otherwise = this.accept('keyword', 'else') ? this.parseNested() : IDENTITY
+    this.expect('keyword', 'end', "'end'")
+    return { kind: 'if', condition, then, else: otherwise }
+  }
+
+  private parseTry(): Ast {
+    this.next()
+    const body = this.parsePostfix(false)
+    const handler = this.accept('keyword', 'catch') ? this.parsePostfix(false) : undefined
+    return { kind: 'try', body, handler }
+  }
+
+  private parseReduce(): Ast {
+    this.next()
+    const source = this.parsePostfix(false)
+    this.expect('keyword', 'as', "'as'")
+    const pattern = this.parsePattern()
+    this.expect('punct', '(', "'('")
+    const init = this.parseNested()
+    this.expect('punct', ';', "';'")
+    const update = this.parseNested()
+    this.expect('punct', ')', "')'")
+    return { kind: 'reduce', source, pattern, init, update }
+  }
+
+  private parseForeach(): Ast {
+    this.next()
+    const source = this.parsePostfix(false)
+    this.expect('keyword', 'as', "'as'")
+    const pattern = this.parsePattern()
+    this.expect('punct', '(', "'('")
+    const init = this.parseNested()
+    this.expect('punct', ';', "';'")
+    const update = this.parseNested()
+    const extract = this.accept('punct', ';') ? this.parseNested() : undefined
+    this.expect('punct', ')', "')'")
+    return { kind: 'foreach', source, pattern, init, update, extract }
+  }
+
+  private parseObject(): Ast {
+    this.next()
+    const entries: ObjectEntry[] = []
+
+    if (!this.accept('punct', '}')) {
+      do {
+        entries.push(this.parseObjectEntry())
+      } while (this.accept('punct', ','))
+      this.expect('punct', '}', "'}'")
+    }
+
+    return { kind: 'object', entries }
+  }
+
+  private parseObjectEntry(): ObjectEntry {
+    const token = this.peek()
+    let key: Ast
+
+    if (token.type === 'variable') {
+      this.next()
+      return { key: { kind: 'literal', value: token.value }, value: { kind: 'variable', name: token.value } }
+    }
+
+    if (token.type === 'ident' || token.type === 'keyword') {
+      this.next()
+      key = { kind: 'literal', value: token.value }
+    } else if (token.type === 'string') {
+      key = this.parseString()
+    } else if (this.accept('punct', '(')) {
+      key = this.parseNested()
+      this.expect('punct', ')', "')'")
+      this.expect('punct', ':', "':'")
+      return { key, value: this.parseNested(false) }
+    } else {
+      this.fail(token, 'an object key')
+    }
+
+    if (!this.accept('punct', ':')) {
+      // `{name}` is shorthand for `{name: .name}`
+      return { key, value: { kind: 'index', target: IDENTITY, index: key } }
+    }
+    return { key, value: this.parseNested(false) }
+  }
+
+  private parsePattern(): Pattern {
+    const token = this.next()
+
+    if (token.type === 'variable') {
+      return { kind: 'variable', name: token.value }
+    }
+
+    if (token.type === 'punct' && token.value === '[') {
+      const elements: Pattern[] = []
+      do {
+        elements.push(this.parsePattern())
+      } while (this.accept('punct', ','))
+      this.expect('punct', ']', "']'")
+      return { kind: 'array', elements }
+    }
+
+    if (token.type === 'punct' && token.value === '{') {
+      const entries: PatternEntry[] = []
+      do {
+        entries.push(this.parsePatternEntry())
+      } while (this.accept('punct', ','))
+      this.expect('punct', '}', "'}'")
+      return { kind: 'object', entries }
+    }
+
+    this.fail(token, 'a variable or destructuring pattern')
+  }
+
+  private parsePatternEntry(): PatternEntry {
+    const token = this.peek()
+    let key: Ast
+
+    if (token.type === 'variable') {
+      this.next()
+      const pattern = this.accept('punct', ':') ? this.parsePattern() : undefined
+      return { key: { kind: 'literal', value: token.value }, variable: token.value, pattern }
+    }
+
+    if (token.type === 'ident' || token.type === 'keyword') {
+      this.next()
+      key = { kind: 'literal', value: token.value }
+    } else if (token.type === 'string') {
+      key = this.parseString()
+    } else if (this.accept('punct', '(')) {
+      key = this.parseNested()
+      this.expect('punct', ')', "')'")
+    } else {
+      this.fail(token, 'an object key')
+    }
+
+    this.expect('punct', ':', "':'")
+    return { key, pattern: this.parsePattern() }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Values
+
+type Stream = Generator<any, void, undefined>
+type PathKey = string | number | { start: any; end: any }
+type JqPath = PathKey[]
+type PathStream = Generator<[JqPath, any], void, undefined>
+
+const TYPE_ORDER: Record<string, number> = {
+  null: 0, boolean: 1, number: 2, string: 3, array: 4, object: 5
+}
+
+function typeOf(value: any): string {
+  return getJsonType(value)
+}
+
+function isTruthy(value: any): boolean {
+  return value !== false && value !== null
+}
+
+function hasKey(object: any, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key)
+}
+
+// Plain assignment would change the prototype for a "__proto__" key
+function setProperty(object: Record<string, any>, key: string, value: any) {
+  if (key === '__proto__') {
+    Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true })
+  } else {
+    object[key] = value
+  }
+}
+
+function toJson(value: any): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item !== 'number' || Number.isFinite(item)) return item
+    return Number.isNaN(item) ? null : item > 0 ? Number.MAX_VALUE : -Number.MAX_VALUE
+  })
+}
+
+function toText(value: any): string {
+  return typeof value === 'string' ? value : toJson(value)
+}
+
+function describe(value: any): string {
+  const text = toJson(value)
+  return `${typeOf(value)} (${text.length > 30 ? `${text.slice(0, 27)}...` : text})`
+}
+
+function codePointLength(text: string): number {
+  let length = 0
+  for (const _char of text) length++
+  return length
+}
+
+function compareValues(a: any, b: any): number {
+  const typeA = typeOf(a)
+  const typeB = typeOf(b)
+  if (typeA !== typeB) return TYPE_ORDER[typeA] - TYPE_ORDER[typeB]
+
+  switch (typeA) {
+    case 'boolean':
+      return Number(a) - Number(b)
+    case 'number':
+    case 'string':
+      return a < b ? -1 : a > b ? 1 : 0
+    case 'array': {
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const result = compareValues(a[i], b[i])
+        if (result !== 0) return result
+      }
+      return a.length - b.length
+    }
+    case 'object': {
+      const keysA = Object.keys(a).sort()
+      const keysB = Object.keys(b).sort()
+      const keyOrder = compareValues(keysA, keysB)
+      if (keyOrder !== 0) return keyOrder
+      for (const key of keysA) {
+        const result = compareValues(a[key], b[key])
+        if (result !== 0) return result
+      }
+      return 0
+    }
+    default:
+      return 0
+  }
+}
+
+function deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+  const result = { ...target }
+  for (const key of Object.keys(source)) {
+    const merged = typeOf(result[key]) === 'object' && typeOf(source[key]) === 'object' && hasKey(result, key)
+      ? deepMerge(result[key], source[key])
+      : source[key]
+    setProperty(result, key, merged)
+  }
+  return result
+}
+
+function binaryOperation(operator: string, left: any, right: any): any {
+  const leftType = typeOf(left)
+  const rightType = typeOf(right)
+
+  switch (operator) {
+    case '==': return compareValues(left, right) === 0
+    case '!=': return compareValues(left, right) !== 0
+    case '<': return compareValues(left, right) < 0
+    case '<=': return compareValues(left, right) <= 0
+    case '>': return compareValues(left, right) > 0
+    case '>=': return compareValues(left, right) >= 0
+    case '+':
+      if (left === null) return right
+      if (right === null) return left
+      if (leftType === rightType) {
+        if (leftType === 'number' || leftType === 'string') return left + right
+        if (leftType === 'array') return [...left, ...right]
+        if (leftType === 'object') return { ...left, ...right }
+      }
+      break
+    case '-':
+      if (leftType === 'number' && rightType === 'number') return left - right
+      if (leftType === 'array' && rightType === 'array') {
+        return left.filter((item: any) => !right.some((other: any) => compareValues(item, other) === 0))
+      }
+      break
+    case '*':
+      if (leftType === 'number' && rightType === 'number') return left * right
+      if ((leftType === 'string' && rightType === 'number') || (leftType === 'number' && rightType === 'string')) {
+        const [text, count] = leftType === 'string' ? [left, right] : [right, left]
+        return count > 0 ? text.repeat(Math.max(1, Math.floor(count))) : null
+      }
+      if (leftType === 'object' && rightType === 'object') return deepMerge(left, right)
+      break
+    case '/':
+      if (leftType === 'number' && rightType === 'number') {
+        if (right === 0) throw new JqRuntimeError(`${describe(left)} and ${describe(right)} cannot be divided because the divisor is zero`)
+        return left / right
+      }
+      if (leftType === 'string' && rightType === 'string') return splitString(left, right)
+      break
+    case '%':
+      if (leftType === 'number' && rightType === 'number') {
+        const divisor = Math.trunc(right)
+        if (divisor === 0) throw new JqRuntimeError(`${describe(left)} and ${describe(right)} cannot be divided because the divisor is zero`)
+        return (Math.trunc(left) % divisor) || 0
+      }
+      break
+  }
+
+  const verbs: Record<string, string> = { '+': 'added', '-': 'subtracted', '*': 'multiplied', '/': 'divided', '%': 'divided' }
+  throw new JqRuntimeError(`${describe(left)} and ${describe(right)} cannot be ${verbs[operator]}`)
+}
+
+function resolveSlice(length: number, start: any, end: any): [number, number] {
+  if ((start !== null && typeof start !== 'number') || (end !== null && typeof end !== 'number')) {
+    throw new JqRuntimeError('Start and end indices of an array slice must be numbers')
+  }
+  const clamp = (value: number) => Math.min(Math.max(value < 0 ? length + value : value, 0), length)
+  const from = start === null ? 0 : clamp(Math.floor(start))
+  const to = end === null ? length : clamp(Math.ceil(end))
+  return [from, Math.max(from, to)]
+}
+
+function isSliceKey(key: any): key is { start: any; end: any } {
+  return typeOf(key) === 'object' && (hasKey(key, 'start') || hasKey(key, 'end'))
+}
+
+function indexValue(target: any, key: any): any {
+  const targetType = typeOf(target)
+  const keyType = typeOf(key)
+
+  if (target === null && keyType !== 'array' && keyType !== 'boolean') return null
+
+  if (targetType === 'object' && keyType === 'string') {
+    return hasKey(target, key) ? target[key] : null
+  }
+
+  if (targetType === 'array' && keyType === 'number') {
+    if (Number.isNaN(key)) return null
+    const position = Math.floor(key < 0 ? target.length + key : key)
+    return position >= 0 && position < target.length ? target[position] : null
+  }
+
+  if ((targetType === 'array' || targetType === 'string') && isSliceKey(key)) {
+    const items = targetType === 'string' ? Array.from(target as string) : target
+    const [from, to] = resolveSlice(items.length, key.start ?? null, key.end ?? null)
+    const slice = items.slice(from, to)
+    return targetType === 'string' ? slice.join('') : slice
+  }
+
+  if (targetType === 'array' && keyType === 'array') return findIndices(target, key)
+
+  throw new JqRuntimeError(`Cannot index ${targetType} with ${keyType === 'string' ? `"${key}"` : keyType}`)
+}
+
+function* iterateValues(value: any): Stream {
+  const type = typeOf(value)
+  if (type === 'array') {
+    yield* value
+  } else if (type === 'object') {
+    for (const key of Object.keys(value)) yield value[key]
+  } else {
+    throw new JqRuntimeError(`Cannot iterate over ${describe(value)}`)
+  }
+}
+
+function* recurseValues(value: any): Stream {
+  yield value
+  const type = typeOf(value)
+  if (type === 'array' || type === 'object') {
+    for (const child of iterateValues(value)) yield* recurseValues(child)
+  }
+}
+
+function getPath(value: any, path: JqPath): any {
+  let current = value
+  for (const key of path) {
+    if (current === null) return null
+    current = indexValue(current, key)
+  }
+  return current
+}
+
+function ownCopy(container: any, owned: Set<any>): any {
+  if (owned.has(container)) return container
+  const copy = Array.isArray(container) ? [...container] : { ...container }
+  owned.add(copy)
+  return copy
+}
+
+// Containers copied during one update are tracked in `owned` and then mutated
+// in place, so updating many paths stays linear in the size of the document
+function setPath(container: any, path: JqPath, value: any, owned: Set<any>, index: number = 0): any {
+  if (index === path.length) return value
+
+  const key = path[index]
+  const type = typeOf(container)
+
+  if (typeof key === 'string') {
+    if (type !== 'object' && type !== 'null') throw new JqRuntimeError(`Cannot index ${type} with "${key}"`)
+    const target = ownCopy(container ?? {}, owned)
+    setProperty(target, key, setPath(hasKey(target, key) ? target[key] : null, path, value, owned, index + 1))
+    return target
+  }
+
+  if (typeof key === 'number') {
+    if (type !== 'array' && type !== 'null') throw new JqRuntimeError(`Cannot index ${type} with number`)
+    const target = ownCopy(container ?? [], owned)
+    const position = Math.floor(key < 0 ? target.length + key : key)
+    if (position < 0) throw new JqRuntimeError('Out of bounds negative array index')
+    while (target.length < position) target.push(null)
+    target[position] = setPath(position < target.length ? target[position] : null, path, value, owned, index + 1)
+    return target
+  }
+
+  if (isSliceKey(key)) {
+    if (type !== 'array' && type !== 'null') throw new JqRuntimeError(`Cannot update field at object index of ${type}`)
+    const target = ownCopy(container ?? [], owned)
+    const [from, to] = resolveSlice(target.length, key.start ?? null, key.end ?? null)
+    const replacement = setPath(target.slice(from, to), path, value, owned, index + 1)
+    if (!Array.isArray(replacement)) throw new JqRuntimeError('A slice of an array can only be assigned another array')
+    target.splice(from, to - from, ...replacement)
+    return target
+  }
+
+  throw new JqRuntimeError(`Invalid path component ${describe(key)}`)
+}
+
+function deletePath(container: any, path: JqPath, owned: Set<any>, index: number = 0): any {
+  if (container === null) return null
+
+  const key = path[index]
+  const last = index === path.length - 1
+  const type = typeOf(container)
+
+  if (typeof key === 'string') {
+    if (type !== 'object') throw new JqRuntimeError(`Cannot delete field at object index of ${type}`)
+    if (!hasKey(container, key)) return container
+    const target = ownCopy(container, owned)
+    if (last) delete target[key]
+    else setProperty(target, key, deletePath(target[key], path, owned, index + 1))
+    return target
+  }
+
+  if (typeof key === 'number') {
+    if (type !== 'array') throw new JqRuntimeError(`Cannot delete field at index of ${type}`)
+    const position = Math.floor(key < 0 ? container.length + key : key)
+    if (position < 0 || position >= container.length) return container
+    const target = ownCopy(container, owned)
+    if (last) target.splice(position, 1)
+    else target[position] = deletePath(target[position], path, owned, index + 1)
+    return target
+  }
+
+  if (isSliceKey(key)) {
+    if (type !== 'array') throw new JqRuntimeError(`Cannot delete slice of ${type}`)
+    const target = ownCopy(container, owned)
+    const [from, to] = resolveSlice(target.length, key.start ?? null, key.end ?? null)
+    const replacement = last ? [] : deletePath(target.slice(from, to), path, owned, index + 1)
+    target.splice(from, to - from, ...replacement)
+    return target
+  }
+
+  throw new JqRuntimeError(`Invalid path component ${describe(key)}`)
+}
+
+function deletePaths(root: any, paths: JqPath[], owned: Set<any> = new Set()): any {
+  // Delete from the end so earlier array indices stay valid
+  const sorted = [...paths].sort((a, b) => compareValues(b, a))
+  let result = root
+  for (const path of sorted) {
+    if (path.length === 0) return null
+    result = deletePath(result, path, owned)
+  }
+  return result
+}
+
+function assertPath(path: any): JqPath {
+  if (!Array.isArray(path)) throw new JqRuntimeError('Path must be specified as an array')
+  return path
+}
+
+function findIndices(input: any, target: any): number[] | null {
+  if (input === null) return null
+
+  if (typeof input === 'string' && typeof target === 'string') {
+    if (!target) return null
+    const positions: number[] = []
+    for (let index = input.indexOf(target); index !== -1; index = input.indexOf(target, index + 1)) {
+      positions.push(codePointLength(input.slice(0, index)))
+    }
+    return positions
+  }
+
+  if (Array.isArray(input)) {
+    const needle = Array.isArray(target) ? target : [target]
+    if (needle.length === 0) return null
+    const positions: number[] = []
+    for (let index = 0; index + needle.length <= input.length; index++) {
+      if (needle.every((item, offset) => compareValues(input[index + offset], item) === 0)) positions.push(index)
+    }
+    return positions
+  }
+
+  throw new JqRuntimeError(`Cannot determine indices of ${describe(target)} in ${describe(input)}`)
+}
+
+function splitString(input: string, separator: string): string[] {
+  if (input === '') return []
+  return separator === '' ? Array.from(input) : input.split(separator)
+}
+
+function containsValue(container: any, value: any): boolean {
+  const type = typeOf(container)
+  if (type !== typeOf(value)) return false
+  if (type === 'object') {
+    return Object.keys(value).every(key => hasKey(container, key) && containsValue(container[key], value[key]))
+  }
+  if (type === 'array') {
+    return value.every((item: any) => container.some((candidate: any) => containsValue(candidate, item)))
+  }
+  if (type === 'string') return container.includes(value)
+  return compareValues(container, value) === 0
+}
+
+// ---------------------------------------------------------------------------
+// Formats and regular expressions
+
+const HTML_ESCAPES: Record<string, string> = {
+  '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&#39;', '"': '&quot;'
+}
+
+function formatDelimitedField(format: string, item: any): string {
+  switch (typeOf(item)) {
+    case 'null':
+      return ''
+    case 'number':
+    case 'boolean':
+      return String(item)
+    case 'string':
+      return format === 'csv'
+        ? `"${item.replace(/"/g, '""')}"`
+        : item.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n').replace(/\r/g, '\\r')
+    default:
+      throw new JqRuntimeError(`${describe(item)} is not valid in a ${format} row`)
+  }
+}
+
+function quoteShell(item: any): string {
+  switch (typeOf(item)) {
+    case 'string':
+      return `'${item.replace(/'/g, `'\\''`)}'`
+    case 'array':
+    case 'object':
+      throw new JqRuntimeError(`${describe(item)} can not be escaped for shell`)
+    default:
+      return toJson(item)
+  }
+}
+
+function applyFormat(name: string, value: any): string {
+  switch (name) {
+    case 'text':
+      return toText(value)
+    case 'json':
+      return toJson(value)
+    case 'html':
+      return toText(value).replace(/[<>&'"]/g, char => HTML_ESCAPES[char])
+    case 'uri':
+      return encodeURIComponent(toText(value))
+        .replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+    case 'csv':
+    case 'tsv':
+      if (!Array.isArray(value)) throw new JqRuntimeError(`${describe(value)} cannot be ${name}-formatted, only an array can be`)
+      return value.map(item => formatDelimitedField(name, item)).join(name === 'csv' ? ',' : '\t')
+    case 'sh':
+      return (Array.isArray(value) ? value : [value]).map(quoteShell).join(' ')
+    case 'base64': {
+      const bytes = new TextEncoder().encode(toText(value))
+      let binary = ''
+      bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+      return btoa(binary)
+    }
+    case 'base64d':
+      try {
+        const binary = atob(toText(value))
+        return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+      } catch {
+        throw new JqRuntimeError(`${describe(value)} is not valid base64 data`)
+      }
+    default:
+      throw new JqRuntimeError(`${name} is not a valid format`)
+  }
+}
+
+interface MatchObject {
+  offset: number
+  length: number
+  string: string
+  captures: { offset: number; length: number; string: string | null; name: string | null }[]
+}
+
+function captureGroupNames(source: string): (string | null)[] {
+  const names: (string | null)[] = []
+  let inClass = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (char === '\\') {
+      i++
+    } else if (inClass) {
+      if (char === ']') inClass = false
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      if (source[i + 1] !== '?') {
+        names.push(null)
+      } else {
+        const named = /^\?<([A-Za-z_$][\w$]*)>/.exec(source.slice(i + 1))
+        if (named) names.push(named[1])
+      }
+    }
+  }
+
+  return names
+}
+
+function compileRegex(pattern: any, flags: any): { regex: RegExp; global: boolean; skipEmpty: boolean } {
+  if (typeof pattern !== 'string') throw new JqRuntimeError(`${describe(pattern)} cannot be matched, as it is not a string`)
+  if (flags !== null && typeof flags !== 'string') throw new JqRuntimeError(`${describe(flags)} is not a string`)
+
+  let source = pattern
+  const jsFlags = new Set(['g', 'u', 'd'])
+  let global = false
+  let skipEmpty = false
+
+  for (const flag of flags ?? '') {
+    switch (flag) {
+      case 'g': global = true; break
+      case 'i': jsFlags.add('i'); break
+      case 'n': skipEmpty = true; break
+      case 'p': jsFlags.add('s'); break
+      case 'x': source = source.replace(/\\\s|\s+|#[^\n]*/g, match => match.startsWith('\\') ? match : ''); break
+      case 's':
+      case 'l':
+        break
+      default:
+        throw new JqRuntimeError(`${flags} is not a valid modifier string`)
+    }
+  }
+
+  try {
+    return { regex: new RegExp(source, [...jsFlags].join('')), global, skipEmpty }
+  } catch (error) {
+    throw new JqRuntimeError(`${pattern} is not a valid regex: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+function matchRegex(input: any, pattern: any, flags: any, global: boolean = false): MatchObject[] {
+  if (typeof input !== 'string') throw new JqRuntimeError(`${describe(input)} cannot be matched, as it is not a string`)
+  if (Array.isArray(pattern)) [pattern, flags] = [pattern[0], pattern[1] ?? null]
+
+  const { regex, global: globalFlag, skipEmpty } = compileRegex(pattern, flags)
+  const names = captureGroupNames(regex.source)
+  const offsetOf = (index: number) => codePointLength(input.slice(0, index))
+  const matches: MatchObject[] = []
+
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(input)) !== null) {
+    const current = match
+    if (current[0] === '' && current.index === input.length && matches.length > 0) break
+    if (current[0] === '') {
+      // Step over a whole code point so empty matches cannot loop forever
+      regex.lastIndex += (input.codePointAt(regex.lastIndex) ?? 0) > 0xffff ? 2 : 1
+    }
+
+    if (!(skipEmpty && current[0] === '')) {
+      matches.push({
+        offset: offsetOf(current.index),
+        length: codePointLength(current[0]),
+        string: current[0],
+        captures: current.slice(1).map((text, i) => ({
+          offset: text === undefined ? -1 : offsetOf(current.indices?.[i + 1]?.[0] ?? 0),
+          length: text === undefined ? 0 : codePointLength(text),
+          string: text ?? null,
+          name: names[i] ?? null
+        }))
+      })
+    }
+
+    if (!global && !globalFlag) break
+    if (regex.lastIndex > input.length) break
+  }
+
+  return matches
+}
+
+function captureObject(match: MatchObject): Record<string, string | null> {
+  const captures: Record<string, string | null> = {}
+  match.captures.forEach(capture => {
+    if (capture.name) setProperty(captures, capture.name, capture.string)
+  })
+  return captures
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+
+interface Closure {
+  params: string[]
+  body: Ast
+  env: Env
+}
+
+interface Env {
+  vars: Record<string, any>
+  funcs: Record<string, Closure>
+}
+
+type Builtin = (input: any, args: Ast[], env: Env) => Stream
+
+function bindVariable(env: Env, name: string, value: any): Env {
+  const vars = Object.create(env.vars)
+  vars[`$${name}`] = value
+  return { vars, funcs: env.funcs }
+}
+
+function lookupVariable(env: Env, name: string): any {
+  const key = `$${name}`
+  if (!(key in env.vars)) throw new JqRuntimeError(`$${name} is not defined`)
+  return env.vars[key]
+}
+
+function defineFunction(node: DefineNode, env: Env): Env {
+  const funcs = Object.create(env.funcs)
+  const scope: Env = { vars: env.vars, funcs }
+  funcs[`${node.name}/${node.params.length}`] = { params: node.params, body: node.body, env: scope }
+  return scope
+}
+
+// Binds call arguments: filter parameters become closures over the caller's
+// scope, `$name` parameters are evaluated and yield one scope per combination
+function* enterClosure(closure: Closure, args: Ast[], input: any, callerEnv: Env, index: number = 0, scope?: Env): Generator<Env> {
+  const current = scope ?? { vars: closure.env.vars, funcs: Object.create(closure.env.funcs) }
+  if (index === closure.params.length) {
+    yield current
+    return
+  }
+
+  const param = closure.params[index]
+  if (!param.startsWith('$')) {
+    current.funcs[`${param}/0`] = { params: [], body: args[index], env: callerEnv }
+    yield* enterClosure(closure, args, input, callerEnv, index + 1, current)
+    return
+  }
+
+  const name = param.slice(1)
+  for (const value of evaluate(args[index], input, callerEnv)) {
+    const funcs = Object.create(current.funcs)
+    funcs[`${name}/0`] = { params: [], body: { kind: 'literal', value }, env: callerEnv }
+    yield* enterClosure(closure, args, input, callerEnv, index + 1, { vars: bindVariable(current, name, value).vars, funcs })
+  }
+}
+
+function* destructure(pattern: Pattern, value: any, input: any, env: Env): Generator<Env> {
+  switch (pattern.kind) {
+    case 'variable':
+      yield bindVariable(env, pattern.name, value)
+      return
+    case 'array':
+      if (value !== null && !Array.isArray(value)) throw new JqRuntimeError(`Cannot index ${typeOf(value)} with number`)
+      yield* destructureElements(pattern.elements, 0, value, input, env)
+      return
+    case 'object':
+      yield* destructureEntries(pattern.entries, 0, value, input, env)
+      return
+  }
+}
+
+function* destructureElements(elements: Pattern[], index: number, value: any, input: any, env: Env): Generator<Env> {
+  if (index === elements.length) {
+    yield env
+    return
+  }
+  for (const scope of destructure(elements[index], indexValue(value, index), input, env)) {
+    yield* destructureElements(elements, index + 1, value, input, scope)
+  }
+}
+
+function* destructureEntries(entries: PatternEntry[], index: number, value: any, input: any, env: Env): Generator<Env> {
+  if (index === entries.length) {
+    yield env
+    return
+  }
+
+  const entry = entries[index]
+  for (const key of evaluate(entry.key, input, env)) {
+    if (typeof key !== 'string') throw new JqRuntimeError(`Cannot index ${typeOf(value)} with ${typeOf(key)}`)
+    const field = indexValue(value, key)
+    const scope = entry.variable ? bindVariable(env, entry.variable, field) : env
+    const scopes = entry.pattern ? destructure(entry.pattern, field, input, scope) : [scope]
+    for (const next of scopes) {
+      yield* destructureEntries(entries, index + 1, value, input, next)
+    }
+  }
+}
+
+function* cartesian(args: Ast[], input: any, env: Env, index: number = 0, values: any[] = []): Generator<any[]> {
+  if (index === args.length) {
+    yield values
+    return
+  }
+  for (const value of evaluate(args[index], input, env)) {
+    yield* cartesian(args, input, env, index + 1, [...values, value])
+  }
+}
+
+function* interpolate(parts: (string | Ast)[], format: string | undefined, index: number, prefix: string, input: any, env: Env): Stream {
+  if (index === parts.length) {
+    yield prefix
+    return
+  }
+
+  const part = parts[index]
+  if (typeof part === 'string') {
+    yield* interpolate(parts, format, index + 1, prefix + part, input, env)
+    return
+  }
+
+  for (const value of evaluate(part, input, env)) {
+    const text = format ? applyFormat(format, value) : toText(value)
+    yield* interpolate(parts, format, index + 1, prefix + text, input, env)
+  }
+}
+
+function* buildObject(entries: ObjectEntry[], index: number, object: Record<string, any>, input: any, env: Env): Stream {
+  if (index === entries.length) {
+    yield object
+    return
+  }
+
+  const entry = entries[index]
+  for (const key of evaluate(entry.key, input, env)) {
+    if (typeof key !== 'string') throw new JqRuntimeError(`Object keys must be strings, got ${describe(key)}`)
+    for (const value of evaluate(entry.value, input, env)) {
+      const next = { ...object }
+      setProperty(next, key, value)
+      yield* buildObject(entries, index + 1, next, input, env)
+    }
+  }
+}
+
+function* optionalValues(node: Ast | undefined, input: any, env: Env): Stream {
+  if (node) yield* evaluate(node, input, env)
+  else yield null
+}
+
+function* evaluate(node: Ast, input: any, env: Env): Stream {
+  switch (node.kind) {
+    case 'identity':
+      yield input
+      return
+    case 'recurse':
+      yield* recurseValues(input)
+      return
+    case 'literal':
+      yield node.value
+      return
+    case 'string':
+      yield* interpolate(node.parts, node.format, 0, '', input, env)
+      return
+    case 'format':
+      yield applyFormat(node.name, input)
+      return
+    case 'index':
+      for (const target of evaluate(node.target, input, env)) {
+        for (const key of evaluate(node.index, input, env)) yield indexValue(target, key)
+      }
+      return
+    case 'slice':
+      for (const target of evaluate(node.target, input, env)) {
+        for (const start of optionalValues(node.from, input, env)) {
+          for (const end of optionalValues(node.to, input, env)) yield indexValue(target, { start, end })
+        }
+      }
+      return
+    case 'iterate':
+      for (const target of evaluate(node.target, input, env)) yield* iterateValues(target)
+      return
+    case 'pipe':
+      for (const value of evaluate(node.left, input, env)) yield* evaluate(node.right, value, env)
+      return
+    case 'comma':
+      yield* evaluate(node.left, input, env)
+      yield* evaluate(node.right, input, env)
+      return
+    case 'alternative': {
+      let found = false
+      try {
+        for (const value of evaluate(node.left, input, env)) {
+          if (!isTruthy(value)) continue
+          found = true
+          yield value
+        }
+      } catch (error) {
+        if (!(error instanceof JqRuntimeError)) throw error
+      }
+      if (!found) yield* evaluate(node.right, input, env)
+      return
+    }
+    case 'and':
+    case 'or':
+      for (const left of evaluate(node.left, input, env)) {
+        if (isTruthy(left) === (node.kind === 'or')) {
+          yield node.kind === 'or'
+          continue
+        }
+        for (const right of evaluate(node.right, input, env)) yield isTruthy(right)
+      }
+      return
+    case 'binary':
+      // jq varies the left operand fastest: (1,2) + (10,20) is 11, 12, 21, 22
+      for (const right of evaluate(node.right, input, env)) {
+        for (const left of evaluate(node.left, input, env)) yield binaryOperation(node.operator, left, right)
+      }
+      return
+    case 'negate':
+      for (const value of evaluate(node.operand, input, env)) {
+        if (typeof value !== 'number') throw new JqRuntimeError(`${describe(value)} cannot be negated`)
+        yield -value
+      }
+      return
+    case 'array':
+      yield node.body ? Array.from(evaluate(node.body, input, env)) : []
+      return
+    case 'object':
+      yield* buildObject(node.entries, 0, {}, input, env)
+      return
+    case 'if':
+      for (const condition of evaluate(node.condition, input, env)) {
+        yield* evaluate(isTruthy(condition) ? node.then : node.else, input, env)
+      }
+      return
+    case 'try':
+      try {
+        for (const value of evaluate(node.body, input, env)) yield value
+      } catch (error) {
+        if (!(error instanceof JqRuntimeError)) throw error
+        if (node.handler) yield* evaluate(node.handler, error.value, env)
+      }
+      return
+    case 'reduce': {
+      const update = node.update
+      for (const init of evaluate(node.init, input, env)) {
+        let accumulator = init
+        // See canUpdateInPlace: lets `.[$x.key] = ...` reductions stay linear
+        const owned = update.kind === 'assign' && canUpdateInPlace(update) ? new Set<any>() : undefined
+        for (const item of evaluate(node.source, input, env)) {
+          for (const scope of destructure(node.pattern, item, input, env)) {
+            let next = null
+            const outputs = owned && update.kind === 'assign'
+              ? evaluateAssignment(update, accumulator, scope, owned)
+              : evaluate(update, accumulator, scope)
+            for (const value of outputs) next = value
+            accumulator = next
+          }
+        }
+        yield accumulator
+      }
+      return
+    }
+    case 'foreach':
+      for (const init of evaluate(node.init, input, env)) {
+        let state = init
+        for (const item of evaluate(node.source, input, env)) {
+          for (const scope of destructure(node.pattern, item, input, env)) {
+            for (const value of evaluate(node.update, state, scope)) {
+              state = value
+              if (node.extract) yield* evaluate(node.extract, value, scope)
+              else yield value
+            }
+          }
+        }
+      }
+      return
+    case 'define':
+      yield* evaluate(node.rest, input, defineFunction(node, env))
+      return
+    case 'call':
+      yield* callFunction(node, input, env)
+      return
+    case 'variable':
+      yield lookupVariable(env, node.name)
+      return
+    case 'bind':
+      for (const value of evaluate(node.source, input, env)) {
+        for (const scope of destructure(node.pattern, value, input, env)) {
+          yield* evaluate(node.body, input, scope)
+        }
+      }
+      return
+    case 'assign':
+      yield* evaluateAssignment(node, input, env)
+      return
+  }
+}
+
+function* callFunction(node: CallNode, input: any, env: Env): Stream {
+  const key = `${node.name}/${node.args.length}`
+  const closure = env.funcs[key]
+
+  if (closure) {
+    for (const scope of enterClosure(closure, node.args, input, env)) {
+      yield* evaluate(closure.body, input, scope)
+    }
+    return
+  }
+
+  const builtin = BUILTINS[key]
+  if (!builtin) throw new JqRuntimeError(`${key} is not defined`)
+  yield* builtin(input, node.args, env)
+}
+
+function* invalidPath(node: Ast, input: any, env: Env): PathStream {
+  for (const value of evaluate(node, input, env)) {
+    throw new JqRuntimeError(`Invalid path expression with result ${describe(value)}`)
+  }
+}
+
+function* recursePaths(value: any, path: JqPath): PathStream {
+  yield [path, value]
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) yield* recursePaths(value[i], [...path, i])
+  } else if (typeOf(value) === 'object') {
+    for (const key of Object.keys(value)) yield* recursePaths(value[key], [...path, key])
+  }
+}
+
+// Evaluates `node` as a path expression: each output is the location of a
+// value inside `input` (which itself lives at `path`) rather than a new value
+function* evaluatePaths(node: Ast, input: any, path: JqPath, env: Env): PathStream {
+  switch (node.kind) {
+    case 'identity':
+      yield [path, input]
+      return
+    case 'recurse':
+      yield* recursePaths(input, path)
+      return
+    case 'index':
+      for (const [targetPath, target] of evaluatePaths(node.target, input, path, env)) {
+        for (const key of evaluate(node.index, input, env)) {
+          yield [[...targetPath, key], indexValue(target, key)]
+        }
+      }
+      return
+    case 'slice':
+      for (const [targetPath, target] of evaluatePaths(node.target, input, path, env)) {
+        for (const start of optionalValues(node.from, input, env)) {
+          for (const end of optionalValues(node.to, input, env)) {
+            const key = { start, end }
+            yield [[...targetPath, key], indexValue(target, key)]
+          }
+        }
+      }
+      return
+    case 'iterate':
+      for (const [targetPath, target] of evaluatePaths(node.target, input, path, env)) {
+        if (Array.isArray(target)) {
+          for (let i = 0; i < target.length; i++) yield [[...targetPath, i], target[i]]
+        } else if (typeOf(target) === 'object') {
+          for (const key of Object.keys(target)) yield [[...targetPath, key], target[key]]
+        } else {
+          throw new JqRuntimeError(`Cannot iterate over ${describe(target)}`)
+        }
+      }
+      return
+    case 'pipe':
+      for (const [leftPath, value] of evaluatePaths(node.left, input, path, env)) {
+        yield* evaluatePaths(node.right, value, leftPath, env)
+      }
+      return
+    case 'comma':
+      yield* evaluatePaths(node.left, input, path, env)
+      yield* evaluatePaths(node.right, input, path, env)
+      return
+    case 'alternative': {
+      let found = false
+      try {
+        for (const entry of evaluatePaths(node.left, input, path, env)) {
+          if (!isTruthy(entry[1])) continue
+          found = true
+          yield entry
+        }
+      } catch (error) {
+        if (!(error instanceof JqRuntimeError)) throw error
+      }
+      if (!found) yield* evaluatePaths(node.right, input, path, env)
+      return
+    }
+    case 'if':
+      for (const condition of evaluate(node.condition, input, env)) {
+        yield* evaluatePaths(isTruthy(condition) ? node.then : node.else, input, path, env)
+      }
+      return
+    case 'try':
+      try {
+        for (const entry of evaluatePaths(node.body, input, path, env)) yield entry
+      } catch (error) {
+        if (!(error instanceof JqRuntimeError)) throw error
+      }
+      return
+    case 'define':
+      yield* evaluatePaths(node.rest, input, path, defineFunction(node, env))
+      return
+    case 'bind':
+      for (const value of evaluate(node.source, input, env)) {
+        for (const scope of destructure(node.pattern, value, input, env)) {
+          yield* evaluatePaths(node.body, input, path, scope)
+        }
+      }
+      return
+    case 'call': {
+      const key = `${node.name}/${node.args.length}`
+      const closure = env.funcs[key]
+      if (closure) {
+        for (const scope of enterClosure(closure, node.args, input, env)) {
+          yield* evaluatePaths(closure.body, input, path, scope)
+        }
+        return
+      }
+      const builtin = PATH_BUILTINS[key]
+      if (builtin) {
+        yield* builtin(input, node.args, path, env)
+        return
+      }
+      yield* invalidPath(node, input, env)
+      return
+    }
+    default:
+      yield* invalidPath(node, input, env)
+  }
+}
+
+// Whether evaluating `node` can read its input. Conservative: any function
+// call counts, since most builtins operate on `.`
+function readsInput(node: Ast): boolean {
+  switch (node.kind) {
+    case 'literal':
+    case 'variable':
+      return false
+    case 'index':
+      return readsInput(node.target) || readsInput(node.index)
+    case 'slice':
+      return readsInput(node.target) || [node.from, node.to].some(part => part !== undefined && readsInput(part))
+    case 'iterate':
+      return readsInput(node.target)
+    case 'pipe':
+      return readsInput(node.left)
+    case 'comma':
+    case 'alternative':
+    case 'and':
+    case 'or':
+    case 'binary':
+      return readsInput(node.left) || readsInput(node.right)
+    case 'negate':
+      return readsInput(node.operand)
+    case 'array':
+      return node.body !== undefined && readsInput(node.body)
+    case 'object':
+      return node.entries.some(entry => readsInput(entry.key) || readsInput(entry.value))
+    case 'string':
+      return node.parts.some(part => typeof part !== 'string' && readsInput(part))
+    default:
+      return true
+  }
+}
+
+// A reduction whose update is `path = value` (or `+=` etc.) with a value that
+// does not depend on the accumulator never lets the accumulator's containers
+// escape, so they can be mutated in place across iterations
+function canUpdateInPlace(node: AssignNode): boolean {
+  return node.operator !== '|=' && !readsInput(node.right)
+}
+
+function* evaluateAssignment(node: AssignNode, input: any, env: Env, owned?: Set<any>): Stream {
+  const targets = () => Array.from(evaluatePaths(node.left, input, [], env), ([path]) => path)
+
+  if (node.operator === '|=') {
+    yield updatePaths(input, targets(), current => {
+      for (const value of evaluate(node.right, current, env)) return { value }
+      return null
+    })
+    return
+  }
+
+  const values = Array.from(evaluate(node.right, input, env))
+  // Every output starts from the same input, so only a single one may mutate it
+  const shared = values.length === 1 ? owned : undefined
+
+  for (const value of values) {
+    const paths = targets()
+    switch (node.operator) {
+      case '=':
+        yield updatePaths(input, paths, () => ({ value }), shared)
+        break
+      case '//=':
+        yield updatePaths(input, paths, current => ({ value: isTruthy(current) ? current : value }), shared)
+        break
+      default:
+        yield updatePaths(input, paths, current => ({ value: binaryOperation(node.operator.slice(0, -1), current, value) }), shared)
+    }
+  }
+}
+
+// An update returning null removes the path, as `|= empty` does in jq
+function updatePaths(
+  root: any,
+  paths: JqPath[],
+  update: (current: any) => { value: any } | null,
+  owned: Set<any> = new Set()
+): any {
+  const deletions: JqPath[] = []
+  let result = root
+
+  for (const path of paths) {
+    const next = update(getPath(result, path))
+    if (next) result = setPath(result, path, next.value, owned)
+    else deletions.push(path)
+  }
+
+  return deletions.length > 0 ? deletePaths(result, deletions, owned) : result
+}
+
+// ---------------------------------------------------------------------------
+// Builtins
+
+function valueBuiltin(fn: (input: any, ...args: any[]) => any): Builtin {
+  return function* (input, args, env) {
+    for (const values of cartesian(args, input, env)) yield fn(input, ...values)
+  }
+}
+
+function requireArray(input: any, action: string): any[] {
+  if (!Array.isArray(input)) throw new JqRuntimeError(`${describe(input)} cannot be ${action}, as it is not an array`)
+  return input
+}
+
+function requireString(input: any, name: string): string {
+  if (typeof input !== 'string') throw new JqRuntimeError(`${name} input must be a string`)
+  return input
+}
+
+function keyedItems(input: any, filter: Ast, env: Env, action: string) {
+  return requireArray(input, action)
+    .map(item => ({ item, key: Array.from(evaluate(filter, item, env)) }))
+    .sort((a, b) => compareValues(a.key, b.key))
+}
+
+function groupItems(input: any, filter: Ast, env: Env): any[][] {
+  const groups: any[][] = []
+  let previousKey: any[] | undefined
+  for (const { item, key } of keyedItems(input, filter, env, 'grouped')) {
+    if (previousKey && compareValues(previousKey, key) === 0) groups[groups.length - 1].push(item)
+    else groups.push([item])
+    previousKey = key
+  }
+  return groups
+}
+
+function extremeBy(input: any, keyOf: (item: any) => any, pickMax: boolean): any {
+  const items = requireArray(input, 'compared')
+  let best: { item: any; key: any } | undefined
+  for (const item of items) {
+    const key = keyOf(item)
+    if (!best) {
+      best = { item, key }
+      continue
+    }
+    const order = compareValues(key, best.key)
+    if (pickMax ? order >= 0 : order < 0) best = { item, key }
+  }
+  return best ? best.item : null
+}
+
+function lengthOf(input: any): number {
+  switch (typeOf(input)) {
+    case 'null': return 0
+    case 'number': return Math.abs(input)
+    case 'string': return codePointLength(input)
+    case 'array': return input.length
+    case 'object': return Object.keys(input).length
+    default: throw new JqRuntimeError(`${describe(input)} has no length`)
+  }
+}
+
+function keysOf(input: any, sorted: boolean): any[] {
+  if (Array.isArray(input)) return input.map((_, index) => index)
+  if (typeOf(input) === 'object') {
+    const keys = Object.keys(input)
+    return sorted ? keys.sort() : keys
+  }
+  throw new JqRuntimeError(`${describe(input)} has no keys`)
+}
+
+function flatten(input: any[], depth: number): any[] {
+  return input.reduce<any[]>((result, item) => {
+    if (Array.isArray(item) && depth > 0) result.push(...flatten(item, depth - 1))
+    else result.push(item)
+    return result
+  }, [])
+}
+
+function* substitute(input: any, args: Ast[], env: Env, global: boolean): Stream {
+  const [patternArg, replacement, flagsArg] = args
+  const flagValues = flagsArg ? Array.from(evaluate(flagsArg, input, env)) : [null]
+
+  for (const pattern of evaluate(patternArg, input, env)) {
+    for (const flags of flagValues) {
+      const matches = matchRegex(input, pattern, flags, global)
+      yield* replaceMatches(Array.from(input as string), matches, 0, 0, '', replacement, env)
+    }
+  }
+}
+
+function* replaceMatches(chars: string[], matches: MatchObject[], index: number, position: number, prefix: string, replacement: Ast, env: Env): Stream {
+  if (index === matches.length) {
+    yield prefix + chars.slice(position).join('')
+    return
+  }
+
+  const match = matches[index]
+  const before = chars.slice(position, match.offset).join('')
+  for (const text of evaluate(replacement, captureObject(match), env)) {
+    if (typeof text !== 'string') throw new JqRuntimeError(`${describe(text)} cannot be added to a string`)
+    yield* replaceMatches(chars, matches, index + 1, match.offset + match.length, prefix + before + text, replacement, env)
+  }
+}
+
+function splitByRegex(input: any, pattern: any, flags: any): string[] {
+  const chars = Array.from(requireString(input, 'split'))
+  const pieces: string[] = []
+  let position = 0
+  for (const match of matchRegex(input, pattern, flags, true)) {
+    pieces.push(chars.slice(position, match.offset).join(''))
+    position = match.offset + match.length
+  }
+  pieces.push(chars.slice(position).join(''))
+  return pieces
+}
+
+function toDateString(input: any): string {
+  if (typeof input !== 'number') throw new JqRuntimeError(`${describe(input)} cannot be formatted as a date`)
+  const date = new Date(input * 1000)
+  if (Number.isNaN(date.getTime())) throw new JqRuntimeError(`${describe(input)} is out of the date range`)
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+}
+
+function fromDateString(input: any): number {
+  const text = requireString(input, 'fromdate')
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(text)) {
+    throw new JqRuntimeError(`date "${text}" does not match format "%Y-%m-%dT%H:%M:%SZ"`)
+  }
+  return Date.parse(text) / 1000
+}
+
+const MATH_FUNCTIONS: Record<string, (value: number) => number> = {
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: value => Math.sign(value) * Math.round(Math.abs(value)),
+  trunc: Math.trunc,
+  fabs: Math.abs,
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  exp2: value => 2 ** value,
+  exp10: value => 10 ** value,
+  log: Math.log,
+  log2: Math.log2,
+  log10: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan
+}
+
+const BUILTINS: Record<string, Builtin> = {
+  'empty/0': function* () {},
+  'not/0': valueBuiltin(input => !isTruthy(input)),
+  'error/0': valueBuiltin(input => { throw new JqRuntimeError(input) }),
+  'error/1': valueBuiltin((_input, message) => { throw new JqRuntimeError(message) }),
+  'type/0': valueBuiltin(typeOf),
+  'length/0': valueBuiltin(lengthOf),
+  'utf8bytelength/0': valueBuiltin(input => new TextEncoder().encode(requireString(input, 'utf8bytelength')).length),
+  'keys/0': valueBuiltin(input => keysOf(input, true)),
+  'keys_unsorted/0': valueBuiltin(input => keysOf(input, false)),
+  'has/1': valueBuiltin((input, key) => {
+    if (typeOf(input) === 'object' && typeof key === 'string') return hasKey(input, key)
+    if (Array.isArray(input) && typeof key === 'number') return key >= 0 && key < input.length
+    throw new JqRuntimeError(`Cannot check whether ${typeOf(input)} has a ${typeOf(key)} key`)
+  }),
+  'contains/1': valueBuiltin((input, value) => {
+    if (typeOf(input) !== typeOf(value)) {
+      throw new JqRuntimeError(`${describe(input)} and ${describe(value)} cannot have their containment checked`)
+    }
+    return containsValue(input, value)
+  }),
+  'add/0': valueBuiltin(input => {
+    let sum = null
+    for (const value of iterateValues(input)) sum = binaryOperation('+', sum, value)
+    return sum
+  }),
+  'range/1': function* (input, args, env) {
+    for (const [end] of cartesian(args, input, env)) {
+      for (let i = 0; i < end; i++) yield i
+    }
+  },
+  'range/2': function* (input, args, env) {
+    for (const [start, end] of cartesian(args, input, env)) {
+      for (let i = start; i < end; i++) yield i
+    }
+  },
+  'range/3': function* (input, args, env) {
+    for (const [start, end, step] of cartesian(args, input, env)) {
+      if (step > 0) for (let i = start; i < end; i += step) yield i
+      else if (step < 0) for (let i = start; i > end; i += step) yield i
+    }
+  },
+  'pow/2': valueBuiltin((_input, base, exponent) => Math.pow(base, exponent)),
+  'infinite/0': valueBuiltin(() => Infinity),
+  'nan/0': valueBuiltin(() => NaN),
+  'isinfinite/0': valueBuiltin(input => input === Infinity || input === -Infinity),
+  'isnan/0': valueBuiltin(input => Number.isNaN(input)),
+  'isnormal/0': valueBuiltin(input => typeof input === 'number' && Number.isFinite(input) && input !== 0),
+  'tostring/0': valueBuiltin(toText),
+  'tojson/0': valueBuiltin(toJson),
+  'fromjson/0': valueBuiltin(input => {
+    const text = requireString(input, 'fromjson')
+    try {
+      return JSON.parse(text)
+    } catch (error) {
+      throw new JqRuntimeError(`${error instanceof Error ? error.message : error} (while parsing '${text}')`)
+    }
+  }),
+  'tonumber/0': valueBuiltin(input => {
+    if (typeof input === 'number') return input
+    if (typeof input === 'string' && /^\s*-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?\s*$/.test(input)) return Number(input)
+    throw new JqRuntimeError(`Cannot parse ${describe(input)} as a number`)
+  }),
+  'ascii_downcase/0': valueBuiltin(input => requireString(input, 'ascii_downcase').replace(/[A-Z]/g, char => char.toLowerCase())),
+  'ascii_upcase/0': valueBuiltin(input => requireString(input, 'ascii_upcase').replace(/[a-z]/g, char => char.toUpperCase())),
+  'explode/0': valueBuiltin(input => Array.from(requireString(input, 'explode'), char => char.codePointAt(0))),
+  'implode/0': valueBuiltin(input => {
+    const codePoints = requireArray(input, 'imploded')
+    try {
+      return String.fromCodePoint(...codePoints)
+    } catch {
+      throw new JqRuntimeError('Unicode codepoint out of range in implode input')
+    }
+  }),
+  'ltrimstr/1': valueBuiltin((input, prefix) =>
+    typeof input === 'string' && typeof prefix === 'string' && input.startsWith(prefix) ? input.slice(prefix.length) : input
+  ),
+  'rtrimstr/1': valueBuiltin((input, suffix) =>
+    typeof input === 'string' && typeof suffix === 'string' && suffix && input.endsWith(suffix) ? input.slice(0, -suffix.length) : input
+  ),
+  'startswith/1': valueBuiltin((input, prefix) => {
+    if (typeof input !== 'string' || typeof prefix !== 'string') throw new JqRuntimeError('startswith() requires string inputs')
+    return input.startsWith(prefix)
+  }),
+  'endswith/1': valueBuiltin((input, suffix) => {
+    if (typeof input !== 'string' || typeof suffix !== 'string') throw new JqRuntimeError('endswith() requires string inputs')
+    return input.endsWith(suffix)
+  }),
+  'trim/0': valueBuiltin(input => requireString(input, 'trim').trim()),
+  'ltrim/0': valueBuiltin(input => requireString(input, 'ltrim').trimStart()),
+  'rtrim/0': valueBuiltin(input => requireString(input, 'rtrim').trimEnd()),
+  'split/1': valueBuiltin((input, separator) => {
+    if (typeof input !== 'string' || typeof separator !== 'string') throw new JqRuntimeError('split input and separator must be strings')
+    return splitString(input, separator)
+  }),
+  'split/2': valueBuiltin((input, pattern, flags) => splitByRegex(input, pattern, flags)),
+  'join/1': valueBuiltin((input, separator) => {
+    const parts = Array.from(iterateValues(input), item => {
+      if (item === null) return ''
+      if (typeof item === 'string') return item
+      if (typeof item === 'number' || typeof item === 'boolean') return toJson(item)
+      throw new JqRuntimeError(`Cannot join with ${describe(item)}`)
+    })
+    return parts.join(toText(separator))
+  }),
+  'test/1': valueBuiltin((input, pattern) => matchRegex(input, pattern, null).length > 0),
+  'test/2': valueBuiltin((input, pattern, flags) => matchRegex(input, pattern, flags).length > 0),
+  'match/1': function* (input, args, env) {
+    for (const [pattern] of cartesian(args, input, env)) yield* matchRegex(input, pattern, null)
+  },
+  'match/2': function* (input, args, env) {
+    for (const [pattern, flags] of cartesian(args, input, env)) yield* matchRegex(input, pattern, flags)
+  },
+  'capture/1': function* (input, args, env) {
+    for (const [pattern] of cartesian(args, input, env)) yield* matchRegex(input, pattern, null).map(captureObject)
+  },
+  'capture/2': function* (input, args, env) {
+    for (const [pattern, flags] of cartesian(args, input, env)) yield* matchRegex(input, pattern, flags).map(captureObject)
+  },
+  'scan/1': function* (input, args, env) {
+    for (const [pattern] of cartesian(args, input, env)) {
+      for (const match of matchRegex(input, pattern, null, true)) {
+        yield match.captures.length > 0 ? match.captures.map(capture => capture.string) : match.string
+      }
+    }
+  },
+  'scan/2': function* (input, args, env) {
+    for (const [pattern, flags] of cartesian(args, input, env)) {
+      for (const match of matchRegex(input, pattern, flags, true)) {
+        yield match.captures.length > 0 ? match.captures.map(capture => capture.string) : match.string
+      }
+    }
+  },
+  'sub/2': (input, args, env) => substitute(input, args, env, false),
+  'sub/3': (input, args, env) => substitute(input, args, env, false),
+  'gsub/2': (input, args, env) => substitute(input, args, env, true),
+  'gsub/3': (input, args, env) => substitute(input, args, env, true),
+  'sort/0': valueBuiltin(input => [...requireArray(input, 'sorted')].sort(compareValues)),
+  'sort_by/1': function* (input, [filter], env) {
+    yield keyedItems(input, filter, env, 'sorted').map(entry => entry.item)
+  },
+  'group_by/1': function* (input, [filter], env) {
+    yield groupItems(input, filter, env)
+  },
+  'unique/0': valueBuiltin(input =>
+    [...requireArray(input, 'sorted')]
+      .sort(compareValues)
+      .filter((item, index, sorted) => index === 0 || compareValues(sorted[index - 1], item) !== 0)
+  ),
+  'unique_by/1': function* (input, [filter], env) {
+    yield groupItems(input, filter, env).map(group => group[0])
+  },
+  'min/0': valueBuiltin(input => extremeBy(input, item => item, false)),
+  'max/0': valueBuiltin(input => extremeBy(input, item => item, true)),
+  'min_by/1': function* (input, [filter], env) {
+    yield extremeBy(input, item => Array.from(evaluate(filter, item, env)), false)
+  },
+  'max_by/1': function* (input, [filter], env) {
+    yield extremeBy(input, item => Array.from(evaluate(filter, item, env)), true)
+  },
+  'reverse/0': valueBuiltin(input => {
+    if (input === null) return []
+    if (typeof input === 'string') return Array.from(input).reverse().join('')
+    return [...requireArray(input, 'reversed')].reverse()
+  }),
+  'flatten/0': valueBuiltin(input => flatten(requireArray(input, 'flattened'), Infinity)),
+  'flatten/1': valueBuiltin((input, depth) => {
+    if (typeof depth !== 'number' || depth < 0) throw new JqRuntimeError('flatten depth must not be negative')
+    return flatten(requireArray(input, 'flattened'), depth)
+  }),
+  'indices/1': valueBuiltin(findIndices),
+  'to_entries/0': valueBuiltin(input => keysOf(input, false).map(key => ({ key, value: input[key] }))),
+  'from_entries/0': valueBuiltin(input => {
+    const result: Record<string, any> = {}
+    for (const entry of iterateValues(input)) {
+      const key = ['key', 'k', 'name', 'Name', 'K', 'Key']
+        .map(name => indexValue(entry, name))
+        .find(candidate => candidate !== null && candidate !== undefined)
+      if (key === undefined) throw new JqRuntimeError(`Cannot use ${describe(entry)} as an entry`)
+      const value = typeOf(entry) === 'object' && hasKey(entry, 'value') ? entry.value : indexValue(entry, 'v')
+      setProperty(result, toText(key), value)
+    }
+    return result
+  }),
+  'select/1': function* (input, [condition], env) {
+    for (const value of evaluate(condition, input, env)) {
+      if (isTruthy(value)) yield input
+    }
+  },
+  'path/1': function* (input, [filter], env) {
+    for (const [path] of evaluatePaths(filter, input, [], env)) yield path
+  },
+  'getpath/1': valueBuiltin((input, path) => getPath(input, assertPath(path))),
+  'setpath/2': valueBuiltin((input, path, value) => setPath(input, assertPath(path), value, new Set())),
+  'delpaths/1': valueBuiltin((input, paths) => {
+    if (!Array.isArray(paths)) throw new JqRuntimeError('Paths must be specified as an array')
+    return deletePaths(input, paths.map(assertPath))
+  }),
+  'limit/2': function* (input, [countArg, filter], env) {
+    for (const count of evaluate(countArg, input, env)) {
+      if (count <= 0) continue
+      let emitted = 0
+      for (const value of evaluate(filter, input, env)) {
+        yield value
+        if (++emitted >= count) break
+      }
+    }
+  },
+  'first/1': function* (input, [filter], env) {
+    for (const value of evaluate(filter, input, env)) {
+      yield value
+      return
+    }
+  },
+  'last/1': function* (input, [filter], env) {
+    let last: { value: any } | undefined
+    for (const value of evaluate(filter, input, env)) last = { value }
+    if (last) yield last.value
+  },
+  'debug/0': function* (input) {
+    yield input
+  },
+  'env/0': valueBuiltin(() => ({})),
+  'input_filename/0': valueBuiltin(() => null),
+  'now/0': valueBuiltin(() => Date.now() / 1000),
+  'todate/0': valueBuiltin(toDateString),
+  'fromdate/0': valueBuiltin(fromDateString)
+}
+
+Object.entries(MATH_FUNCTIONS).forEach(([name, fn]) => {
+  BUILTINS[`${name}/0`] = valueBuiltin(input => {
+    if (typeof input !== 'number') throw new JqRuntimeError(`${describe(input)} number required`)
+    return fn(input)
+  })
+})
+
+type PathBuiltin = (input: any, args: Ast[], path: JqPath, env: Env) => PathStream
+
+const PATH_BUILTINS: Record<string, PathBuiltin> = {
+  'empty/0': function* () {},
+  'select/1': function* (input, [condition], path, env) {
+    for (const value of evaluate(condition, input, env)) {
+      if (isTruthy(value)) yield [path, input]
+    }
+  },
+  'getpath/1': function* (input, [pathArg], path, env) {
+    for (const target of evaluate(pathArg, input, env)) {
+      yield [[...path, ...assertPath(target)], getPath(input, target)]
+    }
+  },
+  'first/1': function* (input, [filter], path, env) {
+    for (const entry of evaluatePaths(filter, input, path, env)) {
+      yield entry
+      return
+    }
+  },
+  'last/1': function* (input, [filter], path, env) {
+    let last: [JqPath, any] | undefined
+    for (const entry of evaluatePaths(filter, input, path, env)) last = entry
+    if (last) yield last
+  },
+  'limit/2': function* (input, [countArg, filter], path, env) {
+    for (const count of evaluate(countArg, input, env)) {
+      if (count <= 0) continue
+      let emitted = 0
+      for (const entry of evaluatePaths(filter, input, path, env)) {
+        yield entry
+        if (++emitted >= count) break
+      }
+    }
+  }
+}
+
+// Builtins that jq itself defines in jq; each definition can use the ones above it
+const PRELUDE = `
+  def recurse(f): def r: ., (f | r); r;
+  def recurse(f; cond): def r: ., (f | select(cond) | r); r;
+  def recurse: recurse(.[]?);
+  def map(f): [.[] | f];
+  def map_values(f): .[] |= f;
+  def values: select(. != null);
+  def nulls: select(. == null);
+  def booleans: select(type == "boolean");
+  def numbers: select(type == "number");
+  def strings: select(type == "string");
+  def arrays: select(type == "array");
+  def objects: select(type == "object");
+  def iterables: select(type | . == "array" or . == "object");
+  def scalars: select(type | . != "array" and . != "object");
+  def finites: select(isinfinite or isnan | not);
+  def normals: select(isnormal);
+  def toarray: if type == "array" then . else [.] end;
+  def with_entries(f): to_entries | map(f) | from_entries;
+  def paths: path(..) | select(length > 0);
+  def paths(node_filter): . as $dot | paths | select(. as $p | $dot | getpath($p) | node_filter);
+  def leaf_paths: paths(scalars);
+  def del(f): delpaths([path(f)]);
+  def pick(pathexps): . as $top | reduce path(pathexps) as $p (null; setpath($p; $top | getpath($p)));
+  def isempty(g): first((g | false), true);
+  def any: reduce .[] as $x (false; . or $x);
+  def all: reduce .[] as $x (true; . and $x);
+  def any(f): reduce (.[] | f) as $x (false; . or $x);
+  def all(f): reduce (.[] | f) as $x (true; . and $x);
+  def any(generator; condition): isempty(first(generator | condition or empty)) | not;
+  def all(generator; condition): isempty(first(generator | condition and empty));
+  def in(xs): . as $x | xs | has($x);
+  def inside(xs): . as $x | xs | contains($x);
+  def IN(s): any(s == .; .);
+  def IN(src; s): any(src == s; .);
+  def INDEX(stream; idx_expr): reduce stream as $row ({}; .[$row | idx_expr | tostring] |= $row);
+  def INDEX(idx_expr): INDEX(.[]; idx_expr);
+  def first: .[0];
+  def last: .[-1];
+  def nth($n): .[$n];
+  def nth($n; f): if $n < 0 then error("Out of bounds negative array index") else last(limit($n + 1; f)) end;
+  def until(cond; update): def _until: if cond then . else (update | _until) end; _until;
+  def while(cond; update): def _while: if cond then ., (update | _while) else empty end; _while;
+  def repeat(f): def _repeat: f | (., _repeat); _repeat;
+  def index($i): indices($i) | .[0];
+  def rindex($i): indices($i) | .[-1:][0];
+  def splits($re; flags): split($re; flags) | .[];
+  def splits($re): splits($re; null);
+  def walk(f): def w: if type == "object" then map_values(w) elif type == "array" then map(w) else . end | f; w;
+  def transpose: [range(0; map(length) | max // 0) as $i | [.[][$i]]];
+  def combinations: if length == 0 then [] else .[0][] as $x | (.[1:] | combinations) as $w | [$x] + $w end;
+  def combinations(n): . as $dot | [range(n)] | map($dot) | combinations;
+  def todateiso8601: todate;
+  def fromdateiso8601: fromdate;
+  .
+`
+
+let preludeEnv: Env | undefined
+
+function getPreludeEnv(): Env {
+  if (preludeEnv) return preludeEnv
+
+  const vars = Object.create(null)
+  vars.$ENV = {}
+  let env: Env = { vars, funcs: Object.create(null) }
+  let node = new Parser(tokenize(PRELUDE)).parseProgram()
+  while (node.kind === 'define') {
+    env = defineFunction(node, env)
+    node = node.rest
+  }
+
+  preludeEnv = env
+  return env
+}
+
+/**
+ * Runs a jq filter against `data` and collects its outputs. Supports the
+ * commonly used part of the jq language: paths, pipes, object and array
+ * construction, variables and destructuring, reduce/foreach, user-defined
+ * functions, assignment operators and most of the standard library.
+ * Throws `JqSyntaxError` for invalid filters and `JqRuntimeError` for errors
+ * raised while running them.
+ */
+export function runJqFilter(data: any, filter: string, options: JqFilterOptions = {}): JqFilterResult {
+  const { maxOutputs = DEFAULT_MAX_OUTPUTS } = options
+  const program = new Parser(tokenize(filter)).parseProgram()
+  const outputs: any[] = []
+
+  try {
+    for (const value of evaluate(program, data, getPreludeEnv())) {
+      if (outputs.length >= maxOutputs) return { outputs, truncated: true }
+      outputs.push(value)
+    }
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new JqRuntimeError(/call stack/i.test(error.message) ? 'Filter recursion is too deep' : error.message)
+    }
+    throw error
+  }
+
+  return { outputs, truncated: false }
+}
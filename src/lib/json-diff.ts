@@ -0,0 +1,387 @@
+import { getJsonType } from '@/lib/json-parser'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+import { cloneJsonValue, isLosslessNumber, stringifyJson } from '@/lib/lossless-number'
+
+export type DiffChangeKind = 'added' | 'removed' | 'changed' | 'moved'
+
+export interface DiffChange {
+  kind: DiffChangeKind
+  leftPath?: string // Location in the left document (removed, changed, moved)
+  rightPath?: string // Location in the right document (added, changed, moved)
+  oldValue?: any
+  newValue?: any
+}
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move'
+  path: string
+  from?: string
+  value?: any
+}
+
+export interface JsonDiffOptions {
+  arrayMatchKey?: string // Match array elements by this property (e.g. 'id') instead of position
+  detectMoves?: boolean
+}
+
+export interface JsonDiffResult {
+  changes: DiffChange[]
+  patch: JsonPatchOperation[]
+  summary: Record<DiffChangeKind, number>
+}
+
+// Above this many element comparisons arrays are aligned by position only
+const MAX_LCS_CELLS = 4_000_000
+
+interface DiffContext {
+  leftPath: string
+  rightPath: string
+  pointer: string // Pointer into the document as it looks while the patch is being applied
+}
+
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object' || isLosslessNumber(value)) return stringifyJson(value)
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`
+}
+
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true
+  const type = getJsonType(a)
+  if (type !== getJsonType(b)) return false
+
+  if (type === 'array') {
+    return a.length === b.length && a.every((item: any, index: number) => deepEqual(item, b[index]))
+  }
+  if (type === 'object') {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+  }
+  // Lossless numbers are equal when they were written alike
+  return type === 'number' && String(a) === String(b)
+}
+
+/**
+ * Longest increasing subsequence over `values`, returned as a set of the
+ * positions that belong to it. Used to find which matched array elements kept
+ * their relative order; everything else counts as moved.
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = []
+  const previous = new Array<number>(values.length).fill(-1)
+
+  values.forEach((value, index) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (values[tails[mid]] < value) low = mid + 1
+      else high = mid
+    }
+    if (low > 0) previous[index] = tails[low - 1]
+    tails[low] = index
+  })
+
+  const result = new Set<number>()
+  let index = tails.length > 0 ? tails[tails.length - 1] : -1
+  while (index >= 0) {
+    result.add(index)
+    index = previous[index]
+  }
+  return result
+}
+
+/**
+ * Pairs elements of `left` and `right`. Returns, for each right index, the
+ * matched left index or -1 when the element is new.
+ */
+function matchArrayElements(left: any[], right: any[], options: JsonDiffOptions): number[] {
+  const matchKey = options.arrayMatchKey
+  const hasKey = (item: any) => getJsonType(item) === 'object' && matchKey !== undefined && matchKey in item
+
+  // Key-based matching when every element carries the match key
+  if (matchKey && left.length + right.length > 0 && left.every(hasKey) && right.every(hasKey)) {
+    const leftByKey = new Map<string, number>()
+    left.forEach((item, index) => leftByKey.set(stableStringify(item[matchKey]), index))
+    if (leftByKey.size === left.length) {
+      return right.map(item => leftByKey.get(stableStringify(item[matchKey])) ?? -1)
+    }
+  }
+
+  const leftHashes = left.map(stableStringify)
+  const rightHashes = right.map(stableStringify)
+  const match = new Array<number>(right.length).fill(-1)
+  const leftMatched = new Array<boolean>(left.length).fill(false)
+
+  // Equal prefix and suffix need no alignment work
+  let start = 0
+  while (start < left.length && start < right.length && leftHashes[start] === rightHashes[start]) {
+    match[start] = start
+    leftMatched[start] = true
+    start++
+  }
+  let leftEnd = left.length
+  let rightEnd = right.length
+  while (leftEnd > start && rightEnd > start && leftHashes[leftEnd - 1] === rightHashes[rightEnd - 1]) {
+    leftEnd--
+    rightEnd--
+    match[rightEnd] = leftEnd
+    leftMatched[leftEnd] = true
+  }
+
+  const n = leftEnd - start
+  const m = rightEnd - start
+  const anchors: Array<[number, number]> = []
+
+  if (n > 0 && m > 0 && n * m <= MAX_LCS_CELLS) {
+    // Classic LCS table over the unmatched middle section
+    const table = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        table[i][j] = leftHashes[start + i] === rightHashes[start + j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+      if (leftHashes[start + i] === rightHashes[start + j]) {
+        anchors.push([start + i, start + j])
+        i++
+        j++
+      } else if (table[i + 1][j] >= table[i][j + 1]) {
+        i++
+      } else {
+        j++
+      }
+    }
+  }
+
+  anchors.forEach(([i, j]) => {
+    match[j] = i
+    leftMatched[i] = true
+  })
+
+  // Identical elements that changed position
+  if (options.detectMoves !== false) {
+    const unmatchedLeftByHash = new Map<string, number[]>()
+    for (let i = start; i < leftEnd; i++) {
+      if (!leftMatched[i]) {
+        unmatchedLeftByHash.set(leftHashes[i], [...(unmatchedLeftByHash.get(leftHashes[i]) ?? []), i])
+      }
+    }
+    for (let j = start; j < rightEnd; j++) {
+      if (match[j] >= 0) continue
+      const candidates = unmatchedLeftByHash.get(rightHashes[j])
+      if (candidates && candidates.length > 0) {
+        const i = candidates.shift()!
+        match[j] = i
+        leftMatched[i] = true
+      }
+    }
+  }
+
+  // Pair what is left positionally within each gap between anchors, so an
+  // edited element is reported as a change rather than a remove plus an add
+  const bounds: Array<[number, number]> = [[start - 1, start - 1], ...anchors, [leftEnd, rightEnd]]
+  for (let k = 0; k < bounds.length - 1; k++) {
+    const freeLeft: number[] = []
+    const freeRight: number[] = []
+    for (let i = bounds[k][0] + 1; i < bounds[k + 1][0]; i++) {
+      if (!leftMatched[i]) freeLeft.push(i)
+    }
+    for (let j = bounds[k][1] + 1; j < bounds[k + 1][1]; j++) {
+      if (match[j] < 0) freeRight.push(j)
+    }
+    for (let p = 0; p < Math.min(freeLeft.length, freeRight.length); p++) {
+      match[freeRight[p]] = freeLeft[p]
+      leftMatched[freeLeft[p]] = true
+    }
+  }
+
+  return match
+}
+
+function diffArrays(left: any[], right: any[], ctx: DiffContext, options: JsonDiffOptions, result: JsonDiffResult) {
+  const match = matchArrayElements(left, right, options)
+  const rightOf = new Array<number>(left.length).fill(-1)
+  match.forEach((i, j) => {
+    if (i >= 0) rightOf[i] = j
+  })
+
+  // Matched elements outside the longest in-order run were moved
+  const matchedRight = match.map((i, j) => [i, j]).filter(([i]) => i >= 0)
+  const inOrder = longestIncreasingSubsequence(matchedRight.map(([i]) => i))
+  const moved = new Set<number>()
+  matchedRight.forEach(([, j], index) => {
+    if (!inOrder.has(index)) moved.add(j)
+  })
+
+  // Working copy of left indexes, mutated alongside the emitted patch so
+  // every operation uses the indexes valid at the time it is applied
+  const working: number[] = left.map((_, index) => index)
+
+  for (let i = left.length - 1; i >= 0; i--) {
+    if (rightOf[i] >= 0) continue
+    result.changes.push({ kind: 'removed', leftPath: joinIndexPath(ctx.leftPath, i), oldValue: left[i] })
+    result.patch.push({ op: 'remove', path: `${ctx.pointer}/${i}` })
+    working.splice(i, 1)
+  }
+
+  for (let j = 0; j < right.length; j++) {
+    const rightPath = joinIndexPath(ctx.rightPath, j)
+    const i = match[j]
+
+    if (i < 0) {
+      result.changes.push({ kind: 'added', rightPath, newValue: right[j] })
+      result.patch.push({ op: 'add', path: `${ctx.pointer}/${j}`, value: right[j] })
+      working.splice(j, 0, -1)
+      continue
+    }
+
+    const leftPath = joinIndexPath(ctx.leftPath, i)
+    const current = working.indexOf(i)
+    if (current !== j) {
+      result.patch.push({ op: 'move', from: `${ctx.pointer}/${current}`, path: `${ctx.pointer}/${j}` })
+      working.splice(current, 1)
+      working.splice(j, 0, i)
+    }
+    if (moved.has(j)) {
+      result.changes.push({ kind: 'moved', leftPath, rightPath, oldValue: left[i], newValue: right[j] })
+    }
+
+    diffNode(left[i], right[j], { leftPath, rightPath, pointer: `${ctx.pointer}/${j}` }, options, result)
+  }
+}
+
+function diffNode(left: any, right: any, ctx: DiffContext, options: JsonDiffOptions, result: JsonDiffResult) {
+  if (deepEqual(left, right)) return
+
+  const leftType = getJsonType(left)
+  const rightType = getJsonType(right)
+
+  if (leftType === 'array' && rightType === 'array') {
+    diffArrays(left, right, ctx, options, result)
+    return
+  }
+
+  if (leftType === 'object' && rightType === 'object') {
+    Object.keys(left).forEach(key => {
+      if (!Object.prototype.hasOwnProperty.call(right, key)) {
+        result.changes.push({ kind: 'removed', leftPath: joinPropertyPath(ctx.leftPath, key), oldValue: left[key] })
+        result.patch.push({ op: 'remove', path: `${ctx.pointer}/${escapePointerSegment(key)}` })
+      }
+    })
+
+    Object.keys(right).forEach(key => {
+      const pointer = `${ctx.pointer}/${escapePointerSegment(key)}`
+      const rightPath = joinPropertyPath(ctx.rightPath, key)
+
+      if (!Object.prototype.hasOwnProperty.call(left, key)) {
+        result.changes.push({ kind: 'added', rightPath, newValue: right[key] })
+        result.patch.push({ op: 'add', path: pointer, value: right[key] })
+      } else {
+        diffNode(left[key], right[key], { leftPath: joinPropertyPath(ctx.leftPath, key), rightPath, pointer }, options, result)
+      }
+    })
+    return
+  }
+
+  result.changes.push({ kind: 'changed', leftPath: ctx.leftPath, rightPath: ctx.rightPath, oldValue: left, newValue: right })
+  result.patch.push({ op: 'replace', path: ctx.pointer, value: right })
+}
+
+/**
+ * Computes a semantic diff between two parsed documents. `changes` describes
+ * the differences in terms of both documents' paths for display; `patch` is an
+ * RFC 6902 JSON Patch that turns `left` into `right` when applied in order.
+ */
+export function diffJson(left: any, right: any, options: JsonDiffOptions = {}): JsonDiffResult {
+  const result: JsonDiffResult = {
+    changes: [],
+    patch: [],
+    summary: { added: 0, removed: 0, changed: 0, moved: 0 }
+  }
+
+  diffNode(left, right, { leftPath: '', rightPath: '', pointer: '' }, options, result)
+
+  result.changes.forEach(change => {
+    result.summary[change.kind]++
+  })
+
+  return result
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+  return pointer.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Applies an RFC 6902 patch (the subset produced by `diffJson`) to a deep
+ * copy of `document`.
+ */
+export function applyJsonPatch(document: any, patch: JsonPatchOperation[]): any {
+  let root = cloneJsonValue(document)
+
+  const resolveParent = (pointer: string): [any, string] => {
+    const segments = parsePointer(pointer)
+    const last = segments.pop()!
+    const parent = segments.reduce((node, segment) => node?.[Array.isArray(node) ? Number(segment) : segment], root)
+    if (parent === undefined || parent === null || typeof parent !== 'object') {
+      throw new Error(`Patch path ${pointer} does not exist`)
+    }
+    return [parent, last]
+  }
+
+  const remove = (pointer: string): any => {
+    const [parent, key] = resolveParent(pointer)
+    if (Array.isArray(parent)) return parent.splice(Number(key), 1)[0]
+    const value = parent[key]
+    delete parent[key]
+    return value
+  }
+
+  const add = (pointer: string, value: any) => {
+    if (pointer === '') {
+      root = value
+      return
+    }
+    const [parent, key] = resolveParent(pointer)
+    if (Array.isArray(parent)) {
+      parent.splice(key === '-' ? parent.length : Number(key), 0, value)
+    } else {
+      parent[key] = value
+    }
+  }
+
+  patch.forEach(operation => {
+    switch (operation.op) {
+      case 'add':
+        add(operation.path, cloneJsonValue(operation.value))
+        break
+      case 'remove':
+        remove(operation.path)
+        break
+      case 'replace':
+        if (operation.path === '') {
+          root = cloneJsonValue(operation.value)
+        } else {
+          const [parent, key] = resolveParent(operation.path)
+          parent[Array.isArray(parent) ? Number(key) : key] = cloneJsonValue(operation.value)
+        }
+        break
+      case 'move':
+        add(operation.path, remove(operation.from!))
+        break
+    }
+  })
+
+  return root
+}
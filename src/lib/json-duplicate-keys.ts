@@ -0,0 +1,176 @@
+import { DuplicateKey } from '@/types'
+import { createLineLookup, parseJsonSource } from '@/lib/json-source-parser'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+
+// Generated payloads can repeat a key in every record; list the first ones
+// with their values and only count the rest
+export const MAX_DUPLICATE_KEYS = 100
+
+export interface DuplicateKeyScan {
+  duplicates: DuplicateKey[]
+  total: number // All duplicated keys, including those beyond MAX_DUPLICATE_KEYS
+}
+
+interface ScanFrame {
+  isArray: boolean
+  index: number // Current item of an array
+  key: string // Current member of an object
+  keyOffsets: Map<string, number> | null // First occurrence of each key of an object
+  repeats: Map<string, number[]> | null // Every occurrence of the keys seen more than once
+}
+
+const WHITESPACE = /[ \t\n\r]/
+
+// Offset of the quote that closes the string starting at `start`
+function findStringEnd(text: string, start: number): number {
+  let end = text.indexOf('"', start + 1)
+  while (end !== -1) {
+    let backslashes = 0
+    while (text.charCodeAt(end - 1 - backslashes) === 92) backslashes++
+    if (backslashes % 2 === 0) return end
+    end = text.indexOf('"', end + 1)
+  }
+  return text.length
+}
+
+// Offset just past the value that starts at `start`
+function findValueEnd(text: string, start: number): number {
+  let depth = 0
+  let pos = start
+
+  while (pos < text.length) {
+    const char = text[pos]
+    if (char === '"') {
+      pos = findStringEnd(text, pos) + 1
+      if (depth === 0) return pos
+      continue
+    }
+    if (char === '{' || char === '[') {
+      depth++
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) return pos
+      depth--
+      if (depth === 0) return pos + 1
+    } else if (depth === 0 && (char === ',' || WHITESPACE.test(char))) {
+      return pos
+    }
+    pos++
+  }
+
+  return pos
+}
+
+// Reads the member value that follows the key starting at `keyOffset`
+function readMemberValue(text: string, keyOffset: number): any {
+  let pos = findStringEnd(text, keyOffset) + 1
+  while (WHITESPACE.test(text[pos] ?? '')) pos++
+  pos++ // ':'
+  while (WHITESPACE.test(text[pos] ?? '')) pos++
+  return parseJsonSource(text.slice(pos, findValueEnd(text, pos)))
+}
+
+function getObjectPath(stack: ScanFrame[]): string {
+  let path = ''
+  for (let i = 0; i < stack.length - 1; i++) {
+    const frame = stack[i]
+    path = frame.isArray ? joinIndexPath(path, frame.index) : joinPropertyPath(path, frame.key)
+  }
+  return path
+}
+
+/**
+ * Finds keys that occur more than once in the same object of a valid JSON
+ * text. `JSON.parse` silently keeps the last value, so this scans the source
+ * for the keys alone and only reads the conflicting values once a duplicate
+ * turns up.
+ */
+export function findDuplicateKeys(text: string): DuplicateKeyScan {
+  const stack: ScanFrame[] = []
+  const found: Array<{ path: string; key: string; offsets: number[] }> = []
+  let total = 0
+  let expectKey = false
+  let pos = 0
+
+  while (pos < text.length) {
+    const char = text[pos]
+
+    if (char === '"') {
+      const end = findStringEnd(text, pos)
+      if (expectKey) {
+        const frame = stack[stack.length - 1]
+        const raw = text.slice(pos + 1, end)
+        const key: string = raw.includes('\\') ? JSON.parse(`"${raw}"`) : raw
+        const first = frame.keyOffsets!.get(key)
+
+        if (first === undefined) {
+          frame.keyOffsets!.set(key, pos)
+        } else {
+          frame.repeats = frame.repeats ?? new Map()
+          const offsets = frame.repeats.get(key)
+          if (offsets) offsets.push(pos)
+          else frame.repeats.set(key, [first, pos])
+        }
+        frame.key = key
+        expectKey = false
+      }
+      pos = end + 1
+      continue
+    }
+
+    switch (char) {
+      case '{':
+        stack.push({ isArray: false, index: 0, key: '', keyOffsets: new Map(), repeats: null })
+        expectKey = true
+        break
+      case '[':
+        stack.push({ isArray: true, index: 0, key: '', keyOffsets: null, repeats: null })
+        break
+      case ',': {
+        const frame = stack[stack.length - 1]
+        if (frame.isArray) frame.index++
+        else expectKey = true
+        break
+      }
+      case '}': {
+        const frame = stack[stack.length - 1]
+        if (frame.repeats) {
+          const path = getObjectPath(stack)
+          frame.repeats.forEach((offsets, key) => {
+            total++
+            if (found.length < MAX_DUPLICATE_KEYS) {
+              found.push({ path: joinPropertyPath(path, key), key, offsets })
+            }
+          })
+        }
+        stack.pop()
+        expectKey = false
+        break
+      }
+      case ']':
+        stack.pop()
+        expectKey = false
+        break
+    }
+    pos++
+  }
+
+  if (found.length === 0) return { duplicates: [], total }
+
+  // Objects are reported as they close, so inner ones come first
+  found.sort((a, b) => a.offsets[0] - b.offsets[0])
+  const lineOf = createLineLookup(text)
+  return {
+    duplicates: found.map(({ path, key, offsets }) => ({
+      path,
+      key,
+      values: offsets.map(offset => ({ value: readMemberValue(text, offset), line: lineOf(offset) }))
+    })),
+    total
+  }
+}
+
+export function describeDuplicateKey(duplicate: DuplicateKey): string {
+  const lines = Array.from(new Set(duplicate.values.map(value => value.line)))
+  const location = lines.length === 1 ? `line ${lines[0]}` : `lines ${lines.join(', ')}`
+  return `Duplicate key ${duplicate.path}: ${duplicate.values.length} values on ${location}; only the last is kept`
+}
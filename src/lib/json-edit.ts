@@ -0,0 +1,377 @@
+import { getJsonType } from '@/lib/json-parser'
+import { cloneJsonValue } from '@/lib/lossless-number'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+import { JsonAnnotations, JsonEditState } from '@/types'
+
+export type JsonEditOperation =
+  | { type: 'set'; path: string; value: any }
+  | { type: 'rename'; path: string; key: string }
+  | { type: 'add'; path: string } // Appends a child to the container at `path`
+  | { type: 'duplicate'; path: string }
+  | { type: 'delete'; path: string }
+
+export class JsonEditError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JsonEditError'
+  }
+}
+
+type PathSegment = string | number
+
+export const NEW_PROPERTY_KEY = 'newKey'
+
+/**
+ * Returns `base`, or `base` followed by the lowest number that is not already
+ * a key of `object`.
+ */
+export function getUniqueKey(object: Record<string, any>, base: string): string {
+  if (!Object.prototype.hasOwnProperty.call(object, base)) return base
+
+  let suffix = 1
+  while (Object.prototype.hasOwnProperty.call(object, `${base}${suffix}`)) {
+    suffix++
+  }
+  return `${base}${suffix}`
+}
+
+// Tree paths join keys with '.' and '[n]' without escaping, so a key may
+// itself contain those characters. Resolve against the document and
+// backtrack when a shorter key turns out to be the wrong split.
+function resolveSegments(value: any, path: string, position: number): PathSegment[] | null {
+  if (position === path.length) return []
+
+  const type = getJsonType(value)
+  if (type === 'array') {
+    const match = /^\[(\d+)\]/.exec(path.slice(position))
+    if (!match) return null
+    const index = Number(match[1])
+    if (index >= value.length) return null
+    const rest = resolveSegments(value[index], path, position + match[0].length)
+    return rest && [index, ...rest]
+  }
+
+  if (type === 'object') {
+    // Only top-level keys are written without a leading '.'
+    const start = position === 0 ? 0 : path[position] === '.' ? position + 1 : -1
+    if (start < 0) return null
+
+    for (const key of Object.keys(value)) {
+      if (!path.startsWith(key, start)) continue
+      const end = start + key.length
+      if (end < path.length && path[end] !== '.' && path[end] !== '[') continue
+      const rest = resolveSegments(value[key], path, end)
+      if (rest) return [key, ...rest]
+    }
+  }
+
+  return null
+}
+
+function toSegments(data: any, path: string): PathSegment[] {
+  const segments = resolveSegments(data, path, 0)
+  if (!segments) {
+    throw new JsonEditError(`No value at ${path}`)
+  }
+  return segments
+}
+
+function getAt(data: any, segments: PathSegment[]): any {
+  return segments.reduce((value, segment) => value[segment], data)
+}
+
+// Objects are rebuilt from entries so keys such as `__proto__` stay own
+// properties instead of touching the prototype
+function mapEntries(
+  object: Record<string, any>,
+  mapper: (entry: [string, any]) => Array<[string, any]>
+): Record<string, any> {
+  return Object.fromEntries(Object.entries(object).flatMap(mapper))
+}
+
+// Copies every container along `segments` and replaces the value at the end;
+// untouched branches are shared with the previous version
+function updateAt(data: any, segments: PathSegment[], updater: (value: any) => any): any {
+  if (segments.length === 0) return updater(data)
+
+  const [segment, ...rest] = segments
+  if (Array.isArray(data)) {
+    const copy = data.slice()
+    copy[segment as number] = updateAt(data[segment as number], rest, updater)
+    return copy
+  }
+
+  return mapEntries(data, ([key, value]) => [[key, key === segment ? updateAt(value, rest, updater) : value]])
+}
+
+function splitParent(data: any, path: string): { parentSegments: PathSegment[]; segment: PathSegment } {
+  const segments = toSegments(data, path)
+  if (segments.length === 0) {
+    throw new JsonEditError('The root value cannot be renamed, duplicated or deleted')
+  }
+  return { parentSegments: segments.slice(0, -1), segment: segments[segments.length - 1] }
+}
+
+/**
+ * Applies `operation` to `data` without mutating it and returns the new
+ * document. Throws `JsonEditError` when the operation does not fit the
+ * document, e.g. renaming onto an existing key.
+ */
+export function applyJsonEdit(data: any, operation: JsonEditOperation): any {
+  switch (operation.type) {
+    case 'set':
+      return updateAt(data, toSegments(data, operation.path), () => operation.value)
+
+    case 'rename': {
+      const { parentSegments, segment } = splitParent(data, operation.path)
+      if (typeof segment !== 'string') {
+        throw new JsonEditError('Array items cannot be renamed')
+      }
+      if (operation.key === segment) return data
+      if (Object.prototype.hasOwnProperty.call(getAt(data, parentSegments), operation.key)) {
+        throw new JsonEditError(`Property "${operation.key}" already exists`)
+      }
+      return updateAt(data, parentSegments, parent =>
+        mapEntries(parent, ([key, value]) => [[key === segment ? operation.key : key, value]])
+      )
+    }
+
+    case 'add':
+      return updateAt(data, toSegments(data, operation.path), container => {
+        const type = getJsonType(container)
+        if (type === 'array') return [...container, null]
+        if (type === 'object') {
+          return Object.fromEntries([...Object.entries(container), [getUniqueKey(container, NEW_PROPERTY_KEY), null]])
+        }
+        throw new JsonEditError('Children can only be added to objects and arrays')
+      })
+
+    case 'duplicate': {
+      const { parentSegments, segment } = splitParent(data, operation.path)
+      return updateAt(data, parentSegments, parent => {
+        // Copies are deep so later edits to one cannot show through the other
+        const copy = cloneJsonValue(parent[segment])
+        if (Array.isArray(parent)) {
+          const index = segment as number
+          return [...parent.slice(0, index + 1), copy, ...parent.slice(index + 1)]
+        }
+        const copyKey = getUniqueKey(parent, `${segment}_copy`)
+        return mapEntries(parent, ([key, value]) =>
+          key === segment ? [[key, value], [copyKey, copy]] : [[key, value]]
+        )
+      })
+    }
+
+    case 'delete': {
+      const { parentSegments, segment } = splitParent(data, operation.path)
+      return updateAt(data, parentSegments, parent =>
+        Array.isArray(parent)
+          ? parent.filter((_, index) => index !== segment)
+          : mapEntries(parent, ([key, value]) => key === segment ? [] : [[key, value]])
+      )
+    }
+  }
+}
+
+function toPath(segments: PathSegment[]): string {
+  return segments.reduce<string>(
+    (path, segment) => typeof segment === 'number' ? joinIndexPath(path, segment) : joinPropertyPath(path, segment),
+    ''
+  )
+}
+
+function hasPrefix(segments: PathSegment[], prefix: PathSegment[]): boolean {
+  return prefix.length <= segments.length && prefix.every((segment, i) => segments[i] === segment)
+}
+
+// Moves path-keyed items below `prefix` to where an edit put their values.
+// `remap` returns the new segments of an item: none when its value is gone,
+// more than one when the value was copied. Paths are resolved against the
+// document before the edit.
+function remapPaths<T extends { path: string }>(
+  items: T[] | undefined,
+  data: any,
+  prefix: PathSegment[],
+  remap: (segments: PathSegment[], item: T) => PathSegment[][]
+): T[] | undefined {
+  if (!items) return items
+
+  const prefixPath = toPath(prefix)
+  return items.flatMap(item => {
+    if (!item.path.startsWith(prefixPath)) return [item]
+    const segments = resolveSegments(data, item.path, 0)
+    if (!segments || !hasPrefix(segments, prefix)) return [item]
+    return remap(segments, item).map(moved => ({ ...item, path: toPath(moved) }))
+  })
+}
+
+// Siblings after an inserted or removed array item move by `offset`
+function shiftIndexes(segments: PathSegment[], depth: number, from: number, offset: number): PathSegment[] {
+  const index = segments[depth] as number
+  return index >= from ? [...segments.slice(0, depth), index + offset, ...segments.slice(depth + 1)] : segments
+}
+
+interface RemapRules<T> {
+  keepsReplaced: (item: T) => boolean // Whether an item stays with a value that is replaced in place
+  copies: boolean // Whether duplicated values get the items of the original
+}
+
+function remapForEdit<T extends { path: string }>(
+  items: T[] | undefined,
+  data: any,
+  operation: JsonEditOperation,
+  { keepsReplaced, copies }: RemapRules<T>
+): T[] | undefined {
+  switch (operation.type) {
+    case 'add':
+      return items
+
+    case 'set': {
+      // Items inside the replaced value go with it
+      const target = toSegments(data, operation.path)
+      return remapPaths(items, data, target, (segments, item) =>
+        segments.length === target.length && keepsReplaced(item) ? [segments] : []
+      )
+    }
+
+    case 'rename': {
+      const { parentSegments, segment } = splitParent(data, operation.path)
+      const depth = parentSegments.length
+      return remapPaths(items, data, [...parentSegments, segment], segments =>
+        [[...parentSegments, operation.key, ...segments.slice(depth + 1)]]
+      )
+    }
+
+    case 'duplicate': {
+      const { parentSegments, segment } = splitParent(data, operation.path)
+      const depth = parentSegments.length
+      if (typeof segment !== 'number') {
+        if (!copies) return items
+        const copyKey = getUniqueKey(getAt(data, parentSegments), `${segment}_copy`)
+        return remapPaths(items, data, [...parentSegments, segment], segments =>
+          [segments, [...parentSegments, copyKey, ...segments.slice(depth + 1)]]
+        )
+      }
+      return remapPaths(items, data, parentSegments, segments => {
+        if (segments.length === depth) return [segments]
+        const moved = shiftIndexes(segments, depth, segment + 1, 1)
+        return copies && segments[depth] === segment ? [moved, shiftIndexes(segments, depth, segment, 1)] : [moved]
+      })
+    }
+
+    case 'delete': {
+      const { parentSegments, segment } = splitParent(data, operation.path)
+      const depth = parentSegments.length
+      return remapPaths(items, data, parentSegments, segments => {
+        if (segments.length === depth) return [segments]
+        if (segments[depth] === segment) return []
+        return [typeof segment === 'number' ? shiftIndexes(segments, depth, segment + 1, -1) : segments]
+      })
+    }
+  }
+}
+
+/**
+ * Returns the annotations of the document `applyJsonEdit(data, operation)`
+ * produces: kept with the values they belong to, dropped with values that
+ * were removed or replaced. Copies keep the source types of the original
+ * but not its comments.
+ */
+export function remapAnnotations(annotations: JsonAnnotations, data: any, operation: JsonEditOperation): JsonAnnotations {
+  // A value replaced by one of the same JSON type keeps its source type,
+  // e.g. an edited date stays a date
+  const keepsType = operation.type === 'set'
+    ? getJsonType(getAt(data, toSegments(data, operation.path))) === getJsonType(operation.value)
+    : false
+
+  return {
+    ...annotations,
+    comments: remapForEdit(annotations.comments, data, operation, {
+      // Comments inside a replaced container have nothing left to follow
+      keepsReplaced: comment => comment.placement !== 'end',
+      copies: false
+    }),
+    extendedTypes: remapForEdit(annotations.extendedTypes, data, operation, {
+      keepsReplaced: () => keepsType,
+      copies: true
+    })
+  }
+}
+
+export function describeJsonEdit(operation: JsonEditOperation): string {
+  const target = operation.path || 'root'
+  switch (operation.type) {
+    case 'set': return `Edit ${target}`
+    case 'rename': return `Rename ${target} to "${operation.key}"`
+    case 'add': return `Add item to ${target}`
+    case 'duplicate': return `Duplicate ${target}`
+    case 'delete': return `Delete ${target}`
+  }
+}
+
+export function createEditState(data: any, content: string, annotations: JsonAnnotations = {}): JsonEditState {
+  return {
+    originalData: data,
+    originalContent: content,
+    originalAnnotations: annotations,
+    annotations,
+    editedData: data,
+    hasChanges: false,
+    undoStack: [],
+    redoStack: []
+  }
+}
+
+/**
+ * Moves the edit state to `data`, remembering the previous version for undo
+ * and discarding anything that could have been redone.
+ */
+export function recordEdit(
+  state: JsonEditState,
+  data: any,
+  label: string,
+  annotations: JsonAnnotations = state.annotations
+): JsonEditState {
+  return {
+    ...state,
+    editedData: data,
+    annotations,
+    hasChanges: data !== state.originalData,
+    undoStack: [...state.undoStack, { data: state.editedData, annotations: state.annotations, label }],
+    redoStack: []
+  }
+}
+
+export function undoEdit(state: JsonEditState): JsonEditState {
+  const entry = state.undoStack[state.undoStack.length - 1]
+  if (!entry) return state
+
+  return {
+    ...state,
+    editedData: entry.data,
+    annotations: entry.annotations,
+    hasChanges: entry.data !== state.originalData,
+    undoStack: state.undoStack.slice(0, -1),
+    redoStack: [...state.redoStack, { data: state.editedData, annotations: state.annotations, label: entry.label }]
+  }
+}
+
+export function redoEdit(state: JsonEditState): JsonEditState {
+  const entry = state.redoStack[state.redoStack.length - 1]
+  if (!entry) return state
+
+  return {
+    ...state,
+    editedData: entry.data,
+    annotations: entry.annotations,
+    hasChanges: entry.data !== state.originalData,
+    undoStack: [...state.undoStack, { data: state.editedData, annotations: state.annotations, label: entry.label }],
+    redoStack: state.redoStack.slice(0, -1)
+  }
+}
+
+// Reverting is itself an edit so it can be undone
+export function revertEdits(state: JsonEditState): JsonEditState {
+  if (!state.hasChanges) return state
+  return recordEdit(state, state.originalData, 'Revert to original', state.originalAnnotations)
+}
@@ -1,9 +1,31 @@
-import { ValidationResult, ProcessedData } from '@/types'
+import { ValidationResult, ProcessedData, ParseError, JsonLinesInfo, JsonComment, ParseMode, DuplicateKey, DocumentFormat, CsvInfo, CsvOptions, XmlOptions, ExtendedType, BinaryFormat } from '@/types'
+import { locateJsonSyntaxError, parseJsonSource, toParseError } from '@/lib/json-source-parser'
+import { parseJson5Source, describeLenientConstruct } from '@/lib/json5-parser'
+import { validateAgainstSchema } from '@/lib/json-schema-validator'
+import { findDuplicateKeys, describeDuplicateKey, MAX_DUPLICATE_KEYS } from '@/lib/json-duplicate-keys'
+import { joinTreePath } from '@/lib/json-tree-model'
+import { isYamlFile, loadYamlDocuments, toYamlParseError, YAML_EXTENSIONS } from '@/lib/yaml-converter'
+import { isCsvFile, readCsv, toCsvParseError, CsvReadResult, CSV_EXTENSIONS } from '@/lib/csv-converter'
+import { isXmlFile, loadXml, toXmlParseError, XML_EXTENSIONS } from '@/lib/xml-converter'
+import { isTomlFile, loadToml, toTomlParseError, TomlDocument, TOML_EXTENSIONS } from '@/lib/toml-converter'
+import { isIniFile, loadIni, INI_EXTENSIONS } from '@/lib/ini-converter'
+import { base64ToBytes, decodeBinary, getBinaryFormat, toBinaryParseError, BinaryDocument, BINARY_FORMATS, BINARY_EXTENSIONS } from '@/lib/binary-converter'
+import { stripBom } from '@/lib/text-encoding'
+import { countLosslessNumbers, isLosslessNumber, mayLosePrecision, stringifyJson } from '@/lib/lossless-number'
 
 export interface JsonParseOptions {
   maxDepth?: number
   maxNodes?: number
   strict?: boolean
+  jsonLines?: boolean // Parse as newline-delimited JSON, one value per line
+  lenient?: boolean // Accept JSONC/JSON5 syntax such as comments and trailing commas
+  yaml?: boolean // Parse as a YAML stream
+  csv?: CsvOptions // Parse as CSV/TSV into an array of records
+  xml?: XmlOptions // Parse as XML, mapped to JSON with these options
+  toml?: boolean // Parse as a TOML document
+  ini?: boolean // Parse as an INI file
+  binary?: BinaryFormat // Decode base64 content as MessagePack, CBOR or BSON
+  onProgress?: (progress: number, stage: string) => void
 }
 
 export interface ParseResult {
@@ -16,25 +38,35 @@ export interface ParseResult {
     isValid: boolean
     parseTime: number
   }
-  errors?: string[]
+  errors?: ParseError[]
   warnings?: string[]
+  jsonLines?: JsonLinesInfo
+  comments?: JsonComment[]
+  losslessNumbers?: number // Numbers kept as `LosslessNumber` because a double would change them
+  duplicateKeys?: DuplicateKey[]
+  documentCount?: number // Documents in a YAML stream or values in a binary file
+  csv?: CsvInfo
+  extendedTypes?: ExtendedType[] // Values whose source type JSON lacks, e.g. TOML datetimes or BSON ObjectIds
 }
 
-export function parseJsonString(
-  jsonString: string, 
-  options: JsonParseOptions = {}
-): ParseResult {
-  const startTime = performance.now()
-  const {
-    maxDepth = 100,
-    maxNodes = 10000,
-    strict = false
-  } = options
+const JSON_LINES_EXTENSIONS = ['.ndjson', '.jsonl']
+const LENIENT_EXTENSIONS = ['.jsonc', '.json5']
+
+// Every extension `getDocumentFormat` opens; `.txt` is read as JSON or JSON Lines
+export const DOCUMENT_EXTENSIONS = [
+  '.json', ...LENIENT_EXTENSIONS, ...JSON_LINES_EXTENSIONS, ...YAML_EXTENSIONS, ...CSV_EXTENSIONS,
+  ...XML_EXTENSIONS, ...TOML_EXTENSIONS, ...INI_EXTENSIONS, ...BINARY_EXTENSIONS, '.txt'
+]
 
-  const result: ParseResult = {
+// Broken log files can fail on every line; report the first ones in detail
+// and only count the rest
+const MAX_LINE_ERRORS = 100
+
+function createParseResult(size: number): ParseResult {
+  return {
     data: null,
     metadata: {
-      size: jsonString.length,
+      size,
       depth: 0,
       nodeCount: 0,
       type: 'unknown',
@@ -44,52 +76,546 @@ export function parseJsonString(
     errors: [],
     warnings: []
   }
+}
+
+function reportLosslessNumbers(result: ParseResult, data: any): void {
+  const { count, first } = countLosslessNumbers(data)
+  if (count === 0) return
+
+  result.losslessNumbers = count
+  result.warnings?.push(
+    `${count === 1 ? '1 number exceeds' : `${count} numbers exceed`} JavaScript number precision ` +
+    `and ${count === 1 ? 'is' : 'are'} kept exactly as written (e.g. ${first})`
+  )
+}
+
+function reportDuplicateKeys(result: ParseResult, duplicates: DuplicateKey[], total: number): void {
+  if (total === 0) return
+
+  const listed = duplicates.slice(0, MAX_DUPLICATE_KEYS)
+  result.duplicateKeys = listed
+  result.warnings?.push(...listed.map(describeDuplicateKey))
+  if (total > listed.length) {
+    result.warnings?.push(`${total - listed.length} more duplicate keys are not listed`)
+  }
+}
+
+function analyzeParsedData(
+  result: ParseResult,
+  parsed: any,
+  { maxDepth = 100, maxNodes = 10000, strict = false }: JsonParseOptions
+): void {
+  const analysis = analyzeJsonStructure(parsed, maxDepth, maxNodes)
+  result.metadata.depth = analysis.depth
+  result.metadata.nodeCount = analysis.nodeCount
+  result.metadata.type = analysis.type
+
+  // Check for limits
+  if (analysis.depth > maxDepth) {
+    result.warnings?.push(`JSON depth (${analysis.depth}) exceeds recommended limit (${maxDepth})`)
+  }
+
+  if (analysis.nodeCount > maxNodes) {
+    result.warnings?.push(`Node count (${analysis.nodeCount}) exceeds limit (${maxNodes})`)
+    if (strict) {
+      result.errors?.push({ message: 'Too many nodes for processing' })
+      result.metadata.isValid = false
+    }
+  }
+}
+
+export function parseJsonString(
+  jsonString: string, 
+  options: JsonParseOptions = {}
+): ParseResult {
+  // Decoded files have their byte order mark removed, pasted text may not
+  jsonString = stripBom(jsonString)
+
+  if (options.jsonLines) {
+    return parseJsonLines(jsonString, options)
+  }
+  if (options.yaml) {
+    return parseYaml(jsonString, options)
+  }
+  if (options.csv) {
+    return parseCsv(jsonString, options.csv, options)
+  }
+  if (options.xml) {
+    return parseXml(jsonString, options.xml, options)
+  }
+  if (options.toml) {
+    return parseToml(jsonString, options)
+  }
+  if (options.ini) {
+    return parseIni(jsonString, options)
+  }
+  if (options.binary) {
+    return parseBinary(jsonString, options.binary, options)
+  }
+
+  const startTime = performance.now()
+  const { onProgress = () => {} } = options
+  const result = createParseResult(jsonString.length)
 
   try {
-    // Validate JSON syntax
-    if (!isValidJsonSyntax(jsonString)) {
-      result.errors?.push('Invalid JSON syntax')
-      return result
+    // Parse JSON natively first; only re-scan the source to locate the
+    // problem when the fast path fails
+    onProgress(0, 'Parsing')
+    let parsed: any
+    let keepsLexemes = false
+    let duplicateKeys: DuplicateKey[] | null = null
+    try {
+      parsed = JSON.parse(jsonString)
+      // JSON.parse rounds numbers a double cannot hold; re-read sources that
+      // may contain any with the parser that keeps their lexemes
+      if (mayLosePrecision(jsonString)) {
+        parsed = parseJsonSource(jsonString)
+        keepsLexemes = true
+      }
+    } catch (error) {
+      if (options.lenient) {
+        // Standard JSON never gets here, so the slower JSON5 parser only
+        // runs for sources that need it
+        try {
+          const lenientResult = parseJson5Source(jsonString)
+          parsed = lenientResult.value
+          keepsLexemes = true
+          duplicateKeys = lenientResult.duplicateKeys
+          result.comments = lenientResult.comments
+          result.warnings?.push(...lenientResult.constructs.map(describeLenientConstruct))
+        } catch (lenientError) {
+          result.errors?.push(toParseError(jsonString, lenientError))
+          result.metadata.parseTime = performance.now() - startTime
+          return result
+        }
+      } else {
+        result.errors?.push(
+          locateJsonSyntaxError(jsonString) ?? {
+            message: `JSON Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+          }
+        )
+        result.metadata.parseTime = performance.now() - startTime
+        return result
+      }
     }
 
-    // Parse JSON
-    const parsed = JSON.parse(jsonString)
     result.data = parsed
     result.metadata.isValid = true
+    if (keepsLexemes) reportLosslessNumbers(result, parsed)
+
+    // JSON.parse keeps the last of repeated keys without a word
+    onProgress(50, 'Checking keys')
+    if (duplicateKeys) {
+      reportDuplicateKeys(result, duplicateKeys, duplicateKeys.length)
+    } else {
+      const scan = findDuplicateKeys(jsonString)
+      reportDuplicateKeys(result, scan.duplicates, scan.total)
+    }
 
     // Analyze the parsed data
-    const analysis = analyzeJsonStructure(parsed, maxDepth, maxNodes)
-    result.metadata.depth = analysis.depth
-    result.metadata.nodeCount = analysis.nodeCount
-    result.metadata.type = analysis.type
-
-    // Check for limits
-    if (analysis.depth > maxDepth) {
-      result.warnings?.push(`JSON depth (${analysis.depth}) exceeds recommended limit (${maxDepth})`)
+    onProgress(70, 'Analyzing structure')
+    analyzeParsedData(result, parsed, options)
+
+  } catch (error) {
+    result.errors?.push({
+      message: `JSON Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    })
+  }
+
+  result.metadata.parseTime = performance.now() - startTime
+  onProgress(100, 'Done')
+  return result
+}
+
+function toLineError(lines: string[], index: number, lineStart: number): ParseError {
+  const error = locateJsonSyntaxError(lines[index]) ?? { message: 'Invalid JSON' }
+  const first = Math.max(0, index - 2)
+
+  return {
+    ...error,
+    offset: error.offset !== undefined ? lineStart + error.offset : undefined,
+    line: index + 1,
+    context: lines.slice(first, index + 3).map((text, i) => ({ line: first + i + 1, text }))
+  }
+}
+
+/**
+ * Parses newline-delimited JSON (NDJSON / JSON Lines). Every non-blank line
+ * is a separate value and `data` is the array of records. Lines that fail to
+ * parse are skipped and reported in `jsonLines.lineErrors` instead of failing
+ * the whole file.
+ */
+export function parseJsonLines(content: string, options: JsonParseOptions = {}): ParseResult {
+  const startTime = performance.now()
+  const { onProgress = () => {} } = options
+  const result = createParseResult(content.length)
+
+  const rawLines = content.split('\n')
+  // A trailing newline does not start another line
+  if (rawLines.length > 1 && rawLines[rawLines.length - 1] === '') rawLines.pop()
+  const lines = rawLines.map(line => line.replace(/\r$/, ''))
+
+  const records: any[] = []
+  const info: JsonLinesInfo = {
+    lineCount: lines.length,
+    recordCount: 0,
+    recordLines: [],
+    lineErrors: [],
+    skippedLines: 0
+  }
+
+  onProgress(0, 'Parsing lines')
+  const progressStep = Math.max(1, Math.floor(lines.length / 20))
+  let lineStart = 0
+  let keepsLexemes = false
+  const duplicateKeys: DuplicateKey[] = []
+  let duplicateTotal = 0
+
+  for (let index = 0; index < lines.length; index++) {
+    if (index % progressStep === 0) {
+      onProgress((index / lines.length) * 70, 'Parsing lines')
     }
 
-    if (analysis.nodeCount > maxNodes) {
-      result.warnings?.push(`Node count (${analysis.nodeCount}) exceeds limit (${maxNodes})`)
-      if (strict) {
-        result.errors?.push('Too many nodes for processing')
-        result.metadata.isValid = false
+    const line = lines[index]
+    if (line.trim()) {
+      try {
+        let record = JSON.parse(line)
+        if (mayLosePrecision(line)) {
+          record = parseJsonSource(line)
+          keepsLexemes = true
+        }
+        const scan = findDuplicateKeys(line)
+        duplicateTotal += scan.total
+        scan.duplicates.slice(0, MAX_DUPLICATE_KEYS - duplicateKeys.length).forEach(duplicate => duplicateKeys.push({
+          ...duplicate,
+          path: joinTreePath(`[${records.length}]`, duplicate.path),
+          values: duplicate.values.map(value => ({ ...value, line: index + 1 }))
+        }))
+        records.push(record)
+        info.recordLines.push(index + 1)
+      } catch {
+        info.skippedLines++
+        if (info.lineErrors.length < MAX_LINE_ERRORS) {
+          info.lineErrors.push(toLineError(lines, index, lineStart))
+        }
       }
     }
 
+    lineStart += rawLines[index].length + 1
+  }
+
+  info.recordCount = records.length
+  result.jsonLines = info
+
+  if (records.length === 0) {
+    result.errors = info.lineErrors.length > 0
+      ? info.lineErrors.slice(0, 10)
+      : [{ message: 'File contains no JSON records' }]
+    result.metadata.parseTime = performance.now() - startTime
+    return result
+  }
+
+  result.data = records
+  result.metadata.isValid = info.skippedLines === 0
+  if (info.skippedLines > 0) {
+    result.warnings?.push(`${info.skippedLines} of ${lines.length} lines could not be parsed and were skipped`)
+  }
+  if (keepsLexemes) reportLosslessNumbers(result, records)
+  reportDuplicateKeys(result, duplicateKeys, duplicateTotal)
+
+  onProgress(70, 'Analyzing structure')
+  analyzeParsedData(result, records, options)
+
+  result.metadata.parseTime = performance.now() - startTime
+  onProgress(100, 'Done')
+  return result
+}
+
+/**
+ * Parses a YAML stream into the same model as JSON. A single document is the
+ * data itself; a stream of several documents becomes an array of them.
+ */
+export function parseYaml(content: string, options: JsonParseOptions = {}): ParseResult {
+  const startTime = performance.now()
+  const { onProgress = () => {} } = options
+  const result = createParseResult(content.length)
+
+  onProgress(0, 'Parsing YAML')
+  let documents: any[]
+  try {
+    documents = loadYamlDocuments(content)
+  } catch (error) {
+    result.errors?.push(toYamlParseError(content, error))
+    result.metadata.parseTime = performance.now() - startTime
+    return result
+  }
+
+  result.documentCount = documents.length
+  if (documents.length === 0) {
+    result.warnings?.push('YAML file contains no documents')
+  }
+
+  const parsed = documents.length > 1 ? documents : documents[0] ?? null
+  result.data = parsed
+  result.metadata.isValid = true
+  reportLosslessNumbers(result, parsed)
+
+  onProgress(70, 'Analyzing structure')
+  analyzeParsedData(result, parsed, options)
+
+  result.metadata.parseTime = performance.now() - startTime
+  onProgress(100, 'Done')
+  return result
+}
+
+/**
+ * Parses CSV/TSV text into an array with one object per data row, keyed by
+ * the header or by `column1`, `column2`, ... when there is none.
+ */
+export function parseCsv(
+  content: string,
+  csvOptions: CsvOptions,
+  options: JsonParseOptions = {}
+): ParseResult {
+  const startTime = performance.now()
+  const { onProgress = () => {} } = options
+  const result = createParseResult(content.length)
+
+  onProgress(0, 'Parsing CSV')
+  let read: CsvReadResult
+  try {
+    read = readCsv(content, csvOptions)
+  } catch (error) {
+    result.errors?.push(toCsvParseError(content, error))
+    result.metadata.parseTime = performance.now() - startTime
+    return result
+  }
+
+  const { records, info, raggedRows } = read
+  result.csv = info
+  result.data = records
+  result.metadata.isValid = true
+
+  if (info.columns.length === 0) {
+    result.warnings?.push('CSV file contains no rows')
+  }
+  raggedRows.slice(0, MAX_LINE_ERRORS).forEach(({ line, fields, expected }) => {
+    result.warnings?.push(`Line ${line}: row has ${fields} fields, expected ${expected}`)
+  })
+  if (raggedRows.length > MAX_LINE_ERRORS) {
+    result.warnings?.push(`${raggedRows.length - MAX_LINE_ERRORS} more rows have a different number of fields`)
+  }
+
+  reportLosslessNumbers(result, records)
+
+  onProgress(70, 'Analyzing structure')
+  analyzeParsedData(result, records, options)
+
+  result.metadata.parseTime = performance.now() - startTime
+  onProgress(100, 'Done')
+  return result
+}
+
+/**
+ * Converts an XML document into the JSON model: one key for the root
+ * element, attributes and text as described by `xmlOptions`.
+ */
+export function parseXml(
+  content: string,
+  xmlOptions: XmlOptions,
+  options: JsonParseOptions = {}
+): ParseResult {
+  const startTime = performance.now()
+  const { onProgress = () => {} } = options
+  const result = createParseResult(content.length)
+
+  onProgress(0, 'Parsing XML')
+  let parsed: any
+  try {
+    parsed = loadXml(content, xmlOptions)
+  } catch (error) {
+    result.errors?.push(toXmlParseError(content, error))
+    result.metadata.parseTime = performance.now() - startTime
+    return result
+  }
+
+  result.data = parsed
+  result.metadata.isValid = true
+  reportLosslessNumbers(result, parsed)
+
+  onProgress(70, 'Analyzing structure')
+  analyzeParsedData(result, parsed, options)
+
+  result.metadata.parseTime = performance.now() - startTime
+  onProgress(100, 'Done')
+  return result
+}
+
+/**
+ * Parses a TOML document into the JSON model. Datetimes become their TOML
+ * text and are listed in `extendedTypes`, so they can be shown and written
+ * back as datetimes.
+ */
+export function parseToml(content: string, options: JsonParseOptions = {}): ParseResult {
+  const startTime = performance.now()
+  const { onProgress = () => {} } = options
+  const result = createParseResult(content.length)
+
+  onProgress(0, 'Parsing TOML')
+  let document: TomlDocument
+  try {
+    document = loadToml(content)
+  } catch (error) {
+    result.errors?.push(toTomlParseError(content, error))
+    result.metadata.parseTime = performance.now() - startTime
+    return result
+  }
+
+  const { data, extendedTypes } = document
+  result.data = data
+  result.metadata.isValid = true
+  if (extendedTypes.length > 0) result.extendedTypes = extendedTypes
+  reportLosslessNumbers(result, data)
+
+  onProgress(70, 'Analyzing structure')
+  analyzeParsedData(result, data, options)
+
+  result.metadata.parseTime = performance.now() - startTime
+  onProgress(100, 'Done')
+  return result
+}
+
+// INI has no syntax errors as such; lines that cannot be read are warnings
+export function parseIni(content: string, options: JsonParseOptions = {}): ParseResult {
+  const startTime = performance.now()
+  const { onProgress = () => {} } = options
+  const result = createParseResult(content.length)
+
+  onProgress(0, 'Parsing INI')
+  const { data, warnings } = loadIni(content)
+  result.data = data
+  result.metadata.isValid = true
+  result.warnings?.push(...warnings.map(({ line, message }) => `Line ${line}: ${message}`))
+
+  onProgress(70, 'Analyzing structure')
+  analyzeParsedData(result, data, options)
+
+  result.metadata.parseTime = performance.now() - startTime
+  onProgress(100, 'Done')
+  return result
+}
+
+/**
+ * Decodes a MessagePack, CBOR or BSON file held as base64. Values JSON has
+ * no type for are listed in `extendedTypes`; a file of several values
+ * becomes their array, with `documentCount` set.
+ */
+export function parseBinary(content: string, format: BinaryFormat, options: JsonParseOptions = {}): ParseResult {
+  const startTime = performance.now()
+  const { onProgress = () => {} } = options
+  const { label } = BINARY_FORMATS[format]
+
+  onProgress(0, `Decoding ${label}`)
+  let bytes: Uint8Array
+  try {
+    bytes = base64ToBytes(content)
+  } catch {
+    const result = createParseResult(content.length)
+    result.errors?.push({ message: `${label} Parse Error: The file content is not valid base64` })
+    return result
+  }
+
+  const result = createParseResult(bytes.length)
+  let document: BinaryDocument
+  try {
+    document = decodeBinary(bytes, format)
   } catch (error) {
-    result.errors?.push(`JSON Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    result.errors?.push(toBinaryParseError(format, error))
+    result.metadata.parseTime = performance.now() - startTime
+    return result
   }
 
+  const { data, extendedTypes, documentCount } = document
+  result.data = data
+  result.metadata.isValid = true
+  if (documentCount > 1) result.documentCount = documentCount
+  if (extendedTypes.length > 0) result.extendedTypes = extendedTypes
+  reportLosslessNumbers(result, data)
+
+  onProgress(70, 'Analyzing structure')
+  analyzeParsedData(result, data, options)
+
   result.metadata.parseTime = performance.now() - startTime
+  onProgress(100, 'Done')
   return result
 }
 
+// Returns the first `count` non-blank lines without splitting the whole text
+function getLeadingLines(text: string, count: number): string[] {
+  const lines: string[] = []
+  let start = 0
+
+  while (lines.length < count && start < text.length) {
+    const end = text.indexOf('\n', start)
+    const line = text.slice(start, end === -1 ? text.length : end).trim()
+    if (line) lines.push(line)
+    if (end === -1) break
+    start = end + 1
+  }
+
+  return lines
+}
+
+/**
+ * Detects newline-delimited JSON. `.ndjson` and `.jsonl` files always are;
+ * a `.txt` file is when its first lines are JSON values on their own but the
+ * whole text is not a single JSON document.
+ */
+export function isJsonLinesContent(fileName: string, content: string): boolean {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  if (JSON_LINES_EXTENSIONS.includes(extension)) return true
+  if (extension !== '.txt') return false
+
+  const leadingLines = getLeadingLines(content, 2)
+  if (leadingLines.length < 2) return false
+
+  try {
+    leadingLines.forEach(line => JSON.parse(line))
+  } catch {
+    return false
+  }
+
+  return !isValidJsonSyntax(content)
+}
+
+export function getDocumentFormat(fileName: string, content: string): DocumentFormat {
+  if (isYamlFile(fileName)) return 'yaml'
+  if (isCsvFile(fileName)) return 'csv'
+  if (isXmlFile(fileName)) return 'xml'
+  if (isTomlFile(fileName)) return 'toml'
+  if (isIniFile(fileName)) return 'ini'
+  const binaryFormat = getBinaryFormat(fileName)
+  if (binaryFormat) return binaryFormat
+  return isJsonLinesContent(fileName, content) ? 'ndjson' : 'json'
+}
+
+// `.jsonc` and `.json5` files are lenient from the start; anything else can be
+// switched per file
+export function getDefaultParseMode(fileName: string): ParseMode {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  return LENIENT_EXTENSIONS.includes(extension) ? 'lenient' : 'strict'
+}
+
+export function formatJsonLines(records: any[]): string {
+  return records.map(record => stringifyJson(record)).join('\n') + '\n'
+}
+
 export function isValidJsonSyntax(jsonString: string): boolean {
   if (!jsonString || typeof jsonString !== 'string') {
     return false
   }
 
-  const trimmed = jsonString.trim()
+  const trimmed = stripBom(jsonString).trim()
   if (!trimmed) {
     return false
   }
@@ -139,7 +665,7 @@ export function analyzeJsonStructure(
     nodeCount++
     depth = Math.max(depth, currentDepth)
 
-    if (obj && typeof obj === 'object') {
+    if (obj && typeof obj === 'object' && !isLosslessNumber(obj)) {
       if (visited.has(obj)) {
         return // Circular reference detected
       }
@@ -172,6 +698,7 @@ export function analyzeJsonStructure(
 export function getJsonType(data: any): string {
   if (data === null) return 'null'
   if (Array.isArray(data)) return 'array'
+  if (isLosslessNumber(data)) return 'number'
   if (typeof data === 'object') return 'object'
   if (typeof data === 'string') return 'string'
   if (typeof data === 'number') return 'number'
@@ -179,13 +706,25 @@ export function getJsonType(data: any): string {
   return 'unknown'
 }
 
+// Replacer that emits object keys in sorted order. Integer-like keys still
+// come first, as JavaScript objects always enumerate them that way.
+function sortKeysReplacer(_key: string, value: any): any {
+  if (getJsonType(value) !== 'object') return value
+  return Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+}
+
+/**
+ * Serializes `data` with `indent` spaces (or '\t'); an indent of 0 minifies.
+ * Lossless numbers are written with their original digits.
+ */
 export function formatJsonString(
   data: any, 
-  indent: number = 2, 
-  maxLength?: number
+  indent: number | '\t' = 2, 
+  maxLength?: number,
+  sortKeys: boolean = false
 ): string {
   try {
-    const formatted = JSON.stringify(data, null, indent)
+    const formatted = stringifyJson(data, sortKeys ? sortKeysReplacer : undefined, indent)
     
     if (maxLength && formatted.length > maxLength) {
       return formatted.substring(0, maxLength) + '...'
@@ -198,29 +737,39 @@ export function formatJsonString(
 }
 
 export function validateJsonSchema(data: any, schema?: any): ValidationResult {
-  // Basic validation - will be enhanced with proper schema validation later
-  return {
-    isValid: data !== undefined && data !== null,
-    errors: [],
-    warnings: []
+  if (schema === undefined) {
+    // Without a schema only check that there is a document at all
+    return {
+      isValid: data !== undefined && data !== null,
+      errors: [],
+      warnings: []
+    }
   }
+
+  return validateAgainstSchema(data, schema)
 }
 
-export function extractJsonPaths(data: any): string[] {
+/**
+ * Lists the path of every value below `data`, parents before children.
+ * `onPath` also receives each value, for callers that need both.
+ */
+export function extractJsonPaths(data: any, onPath?: (path: string, value: any) => void): string[] {
   const paths: string[] = []
 
   function traverse(obj: any, currentPath: string = ''): void {
-    if (obj && typeof obj === 'object') {
+    if (obj && typeof obj === 'object' && !isLosslessNumber(obj)) {
       if (Array.isArray(obj)) {
         obj.forEach((item, index) => {
           const path = currentPath ? `${currentPath}[${index}]` : `[${index}]`
           paths.push(path)
+          onPath?.(path, item)
           traverse(item, path)
         })
       } else {
         Object.keys(obj).forEach(key => {
           const path = currentPath ? `${currentPath}.${key}` : key
           paths.push(path)
+          onPath?.(path, obj[key])
           traverse(obj[key], path)
         })
       }
@@ -249,7 +798,7 @@ export function searchInJson(
   const searchTerm = caseSensitive ? query : query.toLowerCase()
 
   function traverse(obj: any, currentPath: string = ''): void {
-    if (obj && typeof obj === 'object') {
+    if (obj && typeof obj === 'object' && !isLosslessNumber(obj)) {
       if (Array.isArray(obj)) {
         obj.forEach((item, index) => {
           const path = currentPath ? `${currentPath}[${index}]` : `[${index}]`
@@ -0,0 +1,568 @@
+import { getJsonType } from '@/lib/json-parser'
+import { stringifyJson } from '@/lib/lossless-number'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+
+export interface JsonPathMatch {
+  path: string // Tree path ('' for the root)
+  value: any
+}
+
+export class JsonPathSyntaxError extends Error {
+  readonly position: number
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`)
+    this.name = 'JsonPathSyntaxError'
+    this.position = position
+  }
+}
+
+type TokenType =
+  | 'root' | 'current' | 'dot' | 'descendant' | 'lbracket' | 'rbracket' | 'lparen' | 'rparen'
+  | 'comma' | 'colon' | 'wildcard' | 'question' | 'not' | 'and' | 'or' | 'compare'
+  | 'name' | 'number' | 'string' | 'regex' | 'eof'
+
+interface Token {
+  type: TokenType
+  value: string
+  position: number
+}
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'wildcard' }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number; step?: number }
+  | { kind: 'filter'; expression: Expression }
+
+interface Segment {
+  descendant: boolean
+  selectors: Selector[]
+}
+
+type Expression =
+  | { kind: 'literal'; value: any }
+  | { kind: 'regex'; value: RegExp }
+  | { kind: 'query'; absolute: boolean; segments: Segment[] }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'and' | 'or'; left: Expression; right: Expression }
+  | { kind: 'compare'; operator: string; left: Expression; right: Expression }
+  | { kind: 'call'; name: string; args: Expression[] }
+
+interface Node {
+  value: any
+  path: string
+}
+
+const COMPARE_OPERATORS = ['==', '!=', '<=', '>=', '=~', '<', '>']
+const FUNCTIONS = new Set(['length', 'count', 'match', 'search', 'value'])
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  const push = (type: TokenType, value: string, length: number = value.length) => {
+    tokens.push({ type, value, position: pos })
+    pos += length
+  }
+
+  while (pos < query.length) {
+    const char = query[pos]
+    const next = query[pos + 1]
+
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+
+    if (char === '.' && next === '.') { push('descendant', '..'); continue }
+    if (char === '&' && next === '&') { push('and', '&&'); continue }
+    if (char === '|' && next === '|') { push('or', '||'); continue }
+
+    const operator = COMPARE_OPERATORS.find(op => query.startsWith(op, pos))
+    if (operator) { push('compare', operator); continue }
+
+    switch (char) {
+      case '$': push('root', char); continue
+      case '@': push('current', char); continue
+      case '.': push('dot', char); continue
+      case '[': push('lbracket', char); continue
+      case ']': push('rbracket', char); continue
+      case '(': push('lparen', char); continue
+      case ')': push('rparen', char); continue
+      case ',': push('comma', char); continue
+      case ':': push('colon', char); continue
+      case '*': push('wildcard', char); continue
+      case '?': push('question', char); continue
+      case '!': push('not', char); continue
+    }
+
+    if (char === '\'' || char === '"') {
+      let value = ''
+      let end = pos + 1
+      while (end < query.length && query[end] !== char) {
+        if (query[end] === '\\') {
+          const escaped = query[end + 1]
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped ?? ''
+          end += 2
+        } else {
+          value += query[end]
+          end++
+        }
+      }
+      if (end >= query.length) {
+        throw new JsonPathSyntaxError('Unterminated string', pos)
+      }
+      tokens.push({ type: 'string', value, position: pos })
+      pos = end + 1
+      continue
+    }
+
+    // A slash after a regex-match operator starts a regular expression literal
+    if (char === '/' && tokens[tokens.length - 1]?.value === '=~') {
+      const match = /^\/((?:\\.|[^/\\])*)\/([a-z]*)/.exec(query.slice(pos))
+      if (!match) throw new JsonPathSyntaxError('Unterminated regular expression', pos)
+      push('regex', match[0])
+      continue
+    }
+
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(query.slice(pos))
+    if (number) {
+      push('number', number[0])
+      continue
+    }
+
+    const name = /^[A-Za-z_\u0080-\uffff][\w\u0080-\uffff-]*/.exec(query.slice(pos))
+    if (name) {
+      push('name', name[0])
+      continue
+    }
+
+    throw new JsonPathSyntaxError(`Unexpected character '${char}'`, pos)
+  }
+
+  tokens.push({ type: 'eof', value: '', position: query.length })
+  return tokens
+}
+
+class Parser {
+  private index = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(offset: number = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek()
+    if (token.type !== type) {
+      throw new JsonPathSyntaxError(`Expected ${description} but found ${token.value ? `'${token.value}'` : 'end of query'}`, token.position)
+    }
+    return this.next()
+  }
+
+  parseQuery(): Segment[] {
+    this.expect('root', "'$'")
+    const segments = this.parseSegments()
+    const token = this.peek()
+    if (token.type !== 'eof') {
+      throw new JsonPathSyntaxError(`Unexpected '${token.value}'`, token.position)
+    }
+    return segments
+  }
+
+  private parseSegments(): Segment[] {
+    const segments: Segment[] = []
+
+    while (true) {
+      const token = this.peek()
+
+      if (token.type === 'dot') {
+        this.next()
+        segments.push({ descendant: false, selectors: [this.parseDotSelector()] })
+      } else if (token.type === 'descendant') {
+        this.next()
+        const selectors = this.peek().type === 'lbracket'
+          ? this.parseBracket()
+          : [this.parseDotSelector()]
+        segments.push({ descendant: true, selectors })
+      } else if (token.type === 'lbracket') {
+        segments.push({ descendant: false, selectors: this.parseBracket() })
+      } else {
+        return segments
+      }
+    }
+  }
+
+  private parseDotSelector(): Selector {
+    const token = this.next()
+    if (token.type === 'wildcard') return { kind: 'wildcard' }
+    if (token.type === 'name') return { kind: 'name', name: token.value }
+    throw new JsonPathSyntaxError(`Expected a property name or '*' but found '${token.value}'`, token.position)
+  }
+
+  private parseBracket(): Selector[] {
+    this.expect('lbracket', "'['")
+    const selectors: Selector[] = [this.parseBracketSelector()]
+
+    while (this.peek().type === 'comma') {
+      this.next()
+      selectors.push(this.parseBracketSelector())
+    }
+
+    this.expect('rbracket', "']'")
+    return selectors
+  }
+
+  private parseInteger(): number | undefined {
+    if (this.peek().type !== 'number') return undefined
+    const token = this.next()
+    if (!/^-?\d+$/.test(token.value)) {
+      throw new JsonPathSyntaxError(`Expected an integer but found '${token.value}'`, token.position)
+    }
+    return Number(token.value)
+  }
+
+  private parseBracketSelector(): Selector {
+    const token = this.peek()
+
+    if (token.type === 'string') {
+      this.next()
+      return { kind: 'name', name: token.value }
+    }
+    if (token.type === 'wildcard') {
+      this.next()
+      return { kind: 'wildcard' }
+    }
+    if (token.type === 'question') {
+      this.next()
+      return { kind: 'filter', expression: this.parseOr() }
+    }
+
+    // Index or slice
+    const start = this.parseInteger()
+    if (this.peek().type !== 'colon') {
+      if (start === undefined) {
+        throw new JsonPathSyntaxError(`Unexpected ${token.value ? `'${token.value}'` : 'end of query'} in brackets`, token.position)
+      }
+      return { kind: 'index', index: start }
+    }
+
+    this.next()
+    const end = this.parseInteger()
+    let step: number | undefined
+    if (this.peek().type === 'colon') {
+      this.next()
+      step = this.parseInteger()
+    }
+    return { kind: 'slice', start, end, step }
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd()
+    while (this.peek().type === 'or') {
+      this.next()
+      left = { kind: 'or', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseUnary()
+    while (this.peek().type === 'and') {
+      this.next()
+      left = { kind: 'and', left, right: this.parseUnary() }
+    }
+    return left
+  }
+
+  private parseUnary(): Expression {
+    if (this.peek().type === 'not') {
+      this.next()
+      return { kind: 'not', operand: this.parseUnary() }
+    }
+
+    const left = this.parseOperand()
+    if (this.peek().type === 'compare') {
+      const operator = this.next().value
+      return { kind: 'compare', operator, left, right: this.parseOperand() }
+    }
+    return left
+  }
+
+  private parseOperand(): Expression {
+    const token = this.next()
+
+    switch (token.type) {
+      case 'lparen': {
+        const expression = this.parseOr()
+        this.expect('rparen', "')'")
+        return expression
+      }
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) }
+      case 'string':
+        return { kind: 'literal', value: token.value }
+      case 'regex': {
+        const match = /^\/(.*)\/([a-z]*)$/.exec(token.value)!
+        try {
+          return { kind: 'regex', value: new RegExp(match[1], match[2]) }
+        } catch {
+          throw new JsonPathSyntaxError('Invalid regular expression', token.position)
+        }
+      }
+      case 'root':
+      case 'current':
+        return { kind: 'query', absolute: token.type === 'root', segments: this.parseSegments() }
+      case 'name': {
+        if (token.value === 'true') return { kind: 'literal', value: true }
+        if (token.value === 'false') return { kind: 'literal', value: false }
+        if (token.value === 'null') return { kind: 'literal', value: null }
+        if (FUNCTIONS.has(token.value) && this.peek().type === 'lparen') {
+          this.next()
+          const args: Expression[] = []
+          if (this.peek().type !== 'rparen') {
+            args.push(this.parseOr())
+            while (this.peek().type === 'comma') {
+              this.next()
+              args.push(this.parseOr())
+            }
+          }
+          this.expect('rparen', "')'")
+          return { kind: 'call', name: token.value, args }
+        }
+        throw new JsonPathSyntaxError(`Unknown identifier '${token.value}'`, token.position)
+      }
+      default:
+        throw new JsonPathSyntaxError(`Unexpected ${token.value ? `'${token.value}'` : 'end of query'} in filter`, token.position)
+    }
+  }
+}
+
+function childrenOf(node: Node): Node[] {
+  const type = getJsonType(node.value)
+  if (type === 'array') {
+    return node.value.map((value: any, index: number) => ({ value, path: joinIndexPath(node.path, index) }))
+  }
+  if (type === 'object') {
+    return Object.keys(node.value).map(key => ({ value: node.value[key], path: joinPropertyPath(node.path, key) }))
+  }
+  return []
+}
+
+function descendantsOf(node: Node): Node[] {
+  const result: Node[] = []
+  const stack: Node[] = [node]
+
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    result.push(current)
+    const children = childrenOf(current)
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(children[i])
+    }
+  }
+
+  return result
+}
+
+function normalizeIndex(index: number, length: number): number {
+  return index < 0 ? length + index : index
+}
+
+function applySlice(node: Node, selector: Extract<Selector, { kind: 'slice' }>): Node[] {
+  const array = node.value as any[]
+  const length = array.length
+  const step = selector.step ?? 1
+  if (step === 0) return []
+
+  const clamp = (value: number, low: number, high: number) => Math.min(Math.max(value, low), high)
+  const results: Node[] = []
+
+  if (step > 0) {
+    const start = clamp(normalizeIndex(selector.start ?? 0, length), 0, length)
+    const end = clamp(normalizeIndex(selector.end ?? length, length), 0, length)
+    for (let i = start; i < end; i += step) {
+      results.push({ value: array[i], path: joinIndexPath(node.path, i) })
+    }
+  } else {
+    const start = clamp(normalizeIndex(selector.start ?? length - 1, length), -1, length - 1)
+    const end = clamp(selector.end === undefined ? -1 : normalizeIndex(selector.end, length), -1, length - 1)
+    for (let i = start; i > end; i += step) {
+      results.push({ value: array[i], path: joinIndexPath(node.path, i) })
+    }
+  }
+
+  return results
+}
+
+function applySelector(node: Node, selector: Selector, root: Node): Node[] {
+  const type = getJsonType(node.value)
+
+  switch (selector.kind) {
+    case 'name':
+      return type === 'object' && Object.prototype.hasOwnProperty.call(node.value, selector.name)
+        ? [{ value: node.value[selector.name], path: joinPropertyPath(node.path, selector.name) }]
+        : []
+    case 'wildcard':
+      return childrenOf(node)
+    case 'index': {
+      if (type !== 'array') return []
+      const index = normalizeIndex(selector.index, node.value.length)
+      return index >= 0 && index < node.value.length
+        ? [{ value: node.value[index], path: joinIndexPath(node.path, index) }]
+        : []
+    }
+    case 'slice':
+      return type === 'array' ? applySlice(node, selector) : []
+    case 'filter':
+      return childrenOf(node).filter(child => isTruthy(evaluate(selector.expression, child, root)))
+  }
+}
+
+function evaluateSegments(segments: Segment[], start: Node, root: Node): Node[] {
+  let nodes: Node[] = [start]
+
+  for (const segment of segments) {
+    const next: Node[] = []
+    for (const node of nodes) {
+      const targets = segment.descendant ? descendantsOf(node) : [node]
+      for (const target of targets) {
+        for (const selector of segment.selectors) {
+          next.push(...applySelector(target, selector, root))
+        }
+      }
+    }
+    nodes = next
+  }
+
+  return nodes
+}
+
+// Filter expressions evaluate to node lists (queries) or plain values
+type FilterValue = { nodes: Node[] } | { value: any } | { nothing: true }
+
+function toValue(result: FilterValue): any {
+  if ('nodes' in result) return result.nodes.length === 1 ? result.nodes[0].value : undefined
+  if ('value' in result) return result.value
+  return undefined
+}
+
+function isTruthy(result: FilterValue): boolean {
+  if ('nodes' in result) return result.nodes.length > 0
+  if ('value' in result) return result.value === true
+  return false
+}
+
+function compareValues(operator: string, left: any, right: any): boolean {
+  switch (operator) {
+    case '==': return left !== undefined && right !== undefined && deepEquals(left, right)
+    case '!=': return !(left !== undefined && right !== undefined && deepEquals(left, right))
+  }
+
+  // Lossless numbers order through valueOf, i.e. as their nearest double
+  const comparable = (getJsonType(left) === 'number' && getJsonType(right) === 'number') ||
+    (typeof left === 'string' && typeof right === 'string')
+  if (!comparable) return false
+
+  switch (operator) {
+    case '<': return left < right
+    case '<=': return left <= right
+    case '>': return left > right
+    case '>=': return left >= right
+    default: return false
+  }
+}
+
+function deepEquals(a: any, b: any): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  return stringifyJson(a) === stringifyJson(b)
+}
+
+function evaluate(expression: Expression, current: Node, root: Node): FilterValue {
+  switch (expression.kind) {
+    case 'literal':
+      return { value: expression.value }
+    case 'regex':
+      return { value: expression.value }
+    case 'query':
+      return { nodes: evaluateSegments(expression.segments, expression.absolute ? root : current, root) }
+    case 'not':
+      return { value: !isTruthy(evaluate(expression.operand, current, root)) }
+    case 'and':
+      return { value: isTruthy(evaluate(expression.left, current, root)) && isTruthy(evaluate(expression.right, current, root)) }
+    case 'or':
+      return { value: isTruthy(evaluate(expression.left, current, root)) || isTruthy(evaluate(expression.right, current, root)) }
+    case 'compare': {
+      const left = toValue(evaluate(expression.left, current, root))
+      const right = toValue(evaluate(expression.right, current, root))
+      if (expression.operator === '=~') {
+        return { value: typeof left === 'string' && right instanceof RegExp && right.test(left) }
+      }
+      return { value: compareValues(expression.operator, left, right) }
+    }
+    case 'call':
+      return callFunction(expression.name, expression.args.map(arg => evaluate(arg, current, root)))
+  }
+}
+
+function callFunction(name: string, args: FilterValue[]): FilterValue {
+  const [first, second] = args
+
+  switch (name) {
+    case 'length': {
+      const value = first ? toValue(first) : undefined
+      if (typeof value === 'string') return { value: [...value].length }
+      if (Array.isArray(value)) return { value: value.length }
+      if (getJsonType(value) === 'object') return { value: Object.keys(value).length }
+      return { nothing: true }
+    }
+    case 'count':
+      return first && 'nodes' in first ? { value: first.nodes.length } : { nothing: true }
+    case 'value':
+      return first && 'nodes' in first && first.nodes.length === 1 ? { value: first.nodes[0].value } : { nothing: true }
+    case 'match':
+    case 'search': {
+      const text = first ? toValue(first) : undefined
+      const pattern = second ? toValue(second) : undefined
+      if (typeof text !== 'string' || (typeof pattern !== 'string' && !(pattern instanceof RegExp))) {
+        return { value: false }
+      }
+      try {
+        const source = pattern instanceof RegExp ? pattern.source : pattern
+        const regex = new RegExp(name === 'match' ? `^(?:${source})$` : source, 'u')
+        return { value: regex.test(text) }
+      } catch {
+        return { value: false }
+      }
+    }
+    default:
+      return { nothing: true }
+  }
+}
+
+/**
+ * Evaluates a JSONPath expression (RFC 9535 with common extensions such as
+ * `?()` filters and `=~` regex matching) against `data`.
+ * Throws `JsonPathSyntaxError` when the expression cannot be parsed.
+ */
+export function queryJsonPath(data: any, query: string): JsonPathMatch[] {
+  const segments = new Parser(tokenize(query.trim())).parseQuery()
+  const root: Node = { value: data, path: '' }
+  return evaluateSegments(segments, root, root)
+}
+
+/**
+ * Formats a tree path (`items[0].name`) as a JSONPath expression
+ * (`$.items[0].name`).
+ */
+export function toJsonPathExpression(path: string): string {
+  if (!path) return '$'
+  return path.startsWith('[') ? `$${path}` : `$.${path}`
+}
@@ -0,0 +1,250 @@
+import { getJsonType, analyzeJsonStructure } from '@/lib/json-parser'
+
+export interface SchemaInferenceOptions {
+  draft?: '2020-12' | 'draft-07'
+  detectFormats?: boolean
+  detectEnums?: boolean
+  maxEnumValues?: number // Largest number of distinct strings turned into an enum
+  minEnumSamples?: number // Observations needed before an enum is trusted
+  title?: string
+}
+
+export interface SchemaInferenceResult {
+  schema: Record<string, any>
+  sampleCount: number
+  nodeCount: number
+  warnings: string[]
+}
+
+type InferredType = 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'array' | 'object'
+
+// Distinct string values tracked per node; past this the node cannot be an enum
+const MAX_TRACKED_STRINGS = 50
+
+const FORMAT_PATTERNS: Array<[string, RegExp]> = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['time', /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/i],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^[a-z][a-z0-9+.-]*:\/\/[^\s]+$/i],
+  ['ipv4', /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/]
+]
+
+/**
+ * Accumulates every value observed at one position in the document(s) so a
+ * single schema can describe all of them.
+ */
+interface Shape {
+  count: number
+  types: Set<InferredType>
+  strings: Map<string, number>
+  stringCount: number
+  tooManyStrings: boolean
+  formats: Set<string> | null // Formats every string so far satisfies; null until the first string
+  objectCount: number
+  properties: Map<string, Shape>
+  arrayCount: number
+  items: Shape | null
+  minItems: number
+  maxItems: number
+}
+
+function createShape(): Shape {
+  return {
+    count: 0,
+    types: new Set(),
+    strings: new Map(),
+    stringCount: 0,
+    tooManyStrings: false,
+    formats: null,
+    objectCount: 0,
+    properties: new Map(),
+    arrayCount: 0,
+    items: null,
+    minItems: Infinity,
+    maxItems: 0
+  }
+}
+
+function detectFormats(value: string): Set<string> {
+  const formats = new Set<string>()
+  FORMAT_PATTERNS.forEach(([format, pattern]) => {
+    if (pattern.test(value)) formats.add(format)
+  })
+  return formats
+}
+
+function observe(shape: Shape, value: any, options: Required<Omit<SchemaInferenceOptions, 'title'>>): void {
+  shape.count++
+  const jsonType = getJsonType(value)
+
+  switch (jsonType) {
+    case 'number':
+      shape.types.add(Number.isInteger(value) ? 'integer' : 'number')
+      break
+
+    case 'string': {
+      shape.types.add('string')
+      shape.stringCount++
+
+      if (!shape.tooManyStrings) {
+        shape.strings.set(value, (shape.strings.get(value) ?? 0) + 1)
+        if (shape.strings.size > MAX_TRACKED_STRINGS) {
+          shape.tooManyStrings = true
+          shape.strings.clear()
+        }
+      }
+
+      if (options.detectFormats) {
+        const formats = detectFormats(value)
+        shape.formats = shape.formats === null
+          ? formats
+          : new Set([...shape.formats].filter(format => formats.has(format)))
+      }
+      break
+    }
+
+    case 'array':
+      shape.types.add('array')
+      shape.arrayCount++
+      shape.minItems = Math.min(shape.minItems, value.length)
+      shape.maxItems = Math.max(shape.maxItems, value.length)
+      // All elements are merged into one item shape
+      value.forEach((item: any) => {
+        shape.items = shape.items ?? createShape()
+        observe(shape.items, item, options)
+      })
+      break
+
+    case 'object':
+      shape.types.add('object')
+      shape.objectCount++
+      Object.keys(value).forEach(key => {
+        let property = shape.properties.get(key)
+        if (!property) {
+          property = createShape()
+          shape.properties.set(key, property)
+        }
+        observe(property, value[key], options)
+      })
+      break
+
+    case 'boolean':
+    case 'null':
+      shape.types.add(jsonType)
+      break
+  }
+}
+
+function toSchema(shape: Shape, options: Required<Omit<SchemaInferenceOptions, 'title'>>): Record<string, any> {
+  const types = new Set(shape.types)
+  // An integer is also a number; collapse mixed numeric observations
+  if (types.has('integer') && types.has('number')) {
+    types.delete('integer')
+  }
+
+  const schema: Record<string, any> = {}
+  const typeList = [...types]
+  if (typeList.length === 1) {
+    schema.type = typeList[0]
+  } else if (typeList.length > 1) {
+    schema.type = typeList
+  }
+
+  if (types.has('string')) {
+    const distinct = shape.strings.size
+    const hasFormat = shape.formats !== null && shape.formats.size > 0
+    const isEnum = options.detectEnums &&
+      !hasFormat &&
+      !shape.tooManyStrings &&
+      distinct > 1 &&
+      distinct <= options.maxEnumValues &&
+      shape.stringCount >= options.minEnumSamples &&
+      distinct < shape.stringCount
+
+    if (isEnum) {
+      schema.enum = [...shape.strings.keys()].sort()
+      if (types.has('null')) schema.enum.push(null)
+    } else if (hasFormat) {
+      // Prefer the most specific format when several match (date-time before date)
+      schema.format = FORMAT_PATTERNS.find(([format]) => shape.formats!.has(format))![0]
+    }
+  }
+
+  if (types.has('object')) {
+    const properties: Record<string, any> = {}
+    const required: string[] = []
+
+    shape.properties.forEach((property, key) => {
+      properties[key] = toSchema(property, options)
+      // Keys present in every observed object are required
+      if (property.count === shape.objectCount) {
+        required.push(key)
+      }
+    })
+
+    schema.properties = properties
+    if (required.length > 0) {
+      schema.required = required
+    }
+  }
+
+  if (types.has('array')) {
+    if (shape.items) {
+      schema.items = toSchema(shape.items, options)
+    }
+    if (shape.arrayCount > 1 && shape.minItems > 0) {
+      schema.minItems = shape.minItems
+    }
+  }
+
+  return schema
+}
+
+const SCHEMA_URIS = {
+  '2020-12': 'https://json-schema.org/draft/2020-12/schema',
+  'draft-07': 'http://json-schema.org/draft-07/schema#'
+} as const
+
+/**
+ * Infers a JSON Schema describing all of `samples`. Each sample is treated as
+ * another instance of the same document, so keys missing from some samples
+ * become optional and array item shapes are merged across files.
+ */
+export function inferJsonSchema(
+  samples: any[],
+  options: SchemaInferenceOptions = {}
+): SchemaInferenceResult {
+  const opts = {
+    draft: options.draft ?? '2020-12',
+    detectFormats: options.detectFormats ?? true,
+    detectEnums: options.detectEnums ?? true,
+    maxEnumValues: options.maxEnumValues ?? 8,
+    minEnumSamples: options.minEnumSamples ?? 5
+  }
+  const warnings: string[] = []
+  const root = createShape()
+  let nodeCount = 0
+
+  samples.forEach(sample => {
+    nodeCount += analyzeJsonStructure(sample, Infinity, Infinity).nodeCount
+    observe(root, sample, opts)
+  })
+
+  if (samples.length === 0) {
+    warnings.push('No documents to infer a schema from')
+  }
+
+  if (root.types.size > 1) {
+    warnings.push(`Documents have different top-level types: ${[...root.types].join(', ')}`)
+  }
+
+  const schema: Record<string, any> = {
+    $schema: SCHEMA_URIS[opts.draft],
+    ...(options.title ? { title: options.title } : {}),
+    ...toSchema(root, opts)
+  }
+
+  return { schema, sampleCount: samples.length, nodeCount, warnings }
+}
@@ -0,0 +1,142 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv'
+import Ajv2019 from 'ajv/dist/2019'
+import Ajv2020 from 'ajv/dist/2020'
+import addFormats from 'ajv-formats'
+import { ValidationError, ValidationResult } from '@/types'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+import { toPlainNumbers } from '@/lib/lossless-number'
+
+export type SchemaDraft = 'draft-07' | '2019-09' | '2020-12'
+
+const DEFAULT_DRAFT: SchemaDraft = 'draft-07'
+
+const validators: Partial<Record<SchemaDraft, Ajv>> = {}
+
+// Compiled validators are cached per schema object so re-validating the same
+// document pair (e.g. on every render) does not recompile the schema
+const compiled = new WeakMap<object, ValidateFunction>()
+
+export function detectSchemaDraft(schema: any): SchemaDraft | null {
+  const declared = typeof schema?.$schema === 'string' ? schema.$schema : ''
+  if (declared.includes('2020-12')) return '2020-12'
+  if (declared.includes('2019-09')) return '2019-09'
+  if (declared.includes('draft-07')) return 'draft-07'
+  return null
+}
+
+function getValidator(draft: SchemaDraft): Ajv {
+  if (!validators[draft]) {
+    // addUsedSchema: false lets schemas that share an $id be compiled side by side
+    const options = { allErrors: true, strict: false, addUsedSchema: false }
+    const ajv = draft === '2020-12'
+      ? new Ajv2020(options)
+      : draft === '2019-09'
+        ? new Ajv2019(options)
+        : new Ajv(options)
+    addFormats(ajv)
+    validators[draft] = ajv
+  }
+  return validators[draft]!
+}
+
+function decodePointerSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+/**
+ * Converts a JSON Pointer (`/items/0/name`) into the dotted path format used
+ * by the tree view (`items[0].name`), consulting `data` to tell array indexes
+ * apart from numeric object keys.
+ */
+export function jsonPointerToPath(pointer: string, data: any): string {
+  if (!pointer) return ''
+
+  let path = ''
+  let current = data
+
+  for (const rawSegment of pointer.split('/').slice(1)) {
+    const segment = decodePointerSegment(rawSegment)
+    if (Array.isArray(current)) {
+      const index = Number(segment)
+      path = joinIndexPath(path, index)
+      current = current[index]
+    } else {
+      path = joinPropertyPath(path, segment)
+      current = current?.[segment]
+    }
+  }
+
+  return path
+}
+
+function describeError(error: ErrorObject): string {
+  switch (error.keyword) {
+    case 'required':
+      return `missing required property "${error.params.missingProperty}"`
+    case 'additionalProperties':
+      return `unexpected property "${error.params.additionalProperty}"`
+    case 'enum':
+      return `must be one of ${(error.params.allowedValues as any[]).map(value => JSON.stringify(value)).join(', ')}`
+    default:
+      return error.message ?? `failed "${error.keyword}" constraint`
+  }
+}
+
+export function validateAgainstSchema(data: any, schema: any): ValidationResult {
+  const warnings: string[] = []
+
+  if (typeof schema === 'boolean') {
+    return schema
+      ? { isValid: true, errors: [], warnings }
+      : { isValid: false, errors: [{ path: '', pointer: '', message: 'Schema "false" rejects every value', keyword: 'false schema' }], warnings }
+  }
+
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return {
+      isValid: false,
+      errors: [{ path: '', pointer: '', message: 'Invalid schema: expected an object or boolean' }],
+      warnings
+    }
+  }
+
+  const draft = detectSchemaDraft(schema)
+  if (!draft) {
+    warnings.push(
+      schema.$schema
+        ? `Unsupported $schema "${schema.$schema}"; validating as ${DEFAULT_DRAFT}`
+        : `Schema does not declare $schema; validating as ${DEFAULT_DRAFT}`
+    )
+  }
+
+  let validate = compiled.get(schema)
+  if (!validate) {
+    try {
+      // Drop unrecognised meta-schema references so Ajv does not try to resolve them
+      const { $schema, ...rest } = schema
+      validate = getValidator(draft ?? DEFAULT_DRAFT).compile(draft ? schema : rest)
+      compiled.set(schema, validate)
+    } catch (error) {
+      return {
+        isValid: false,
+        errors: [{
+          path: '',
+          pointer: '',
+          message: `Invalid schema: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }],
+        warnings
+      }
+    }
+  }
+
+  // Ajv only knows plain numbers; lossless ones are checked as their nearest double
+  const isValid = validate(toPlainNumbers(data)) as boolean
+  const errors: ValidationError[] = (validate.errors ?? []).map(error => ({
+    path: jsonPointerToPath(error.instancePath, data),
+    pointer: error.instancePath,
+    message: describeError(error),
+    keyword: error.keyword,
+    schemaPath: error.schemaPath
+  }))
+
+  return { isValid, errors, warnings }
+}
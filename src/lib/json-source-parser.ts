@@ -0,0 +1,364 @@
+import { ParseError, SourceContextLine } from '@/types'
+import { LosslessNumber, toJsonNumber } from '@/lib/lossless-number'
+
+export interface SourcePosition {
+  offset: number
+  line: number
+  column: number
+}
+
+export class JsonSyntaxError extends Error {
+  readonly offset: number
+  readonly expected?: string
+
+  constructor(message: string, offset: number, expected?: string) {
+    super(message)
+    this.name = 'JsonSyntaxError'
+    this.offset = offset
+    this.expected = expected
+  }
+}
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r'])
+
+export function describeChar(char: string | undefined): string {
+  if (char === undefined) return 'end of input'
+  if (char === '\n') return 'line break'
+  if (char === '\t') return 'tab'
+  if (char.charCodeAt(0) < 0x20) return `control character U+${char.charCodeAt(0).toString(16).padStart(4, '0').toUpperCase()}`
+  return `'${char}'`
+}
+
+/**
+ * Strict RFC 8259 parser that tracks source offsets so that syntax errors can
+ * be reported with an exact location. It is slower than `JSON.parse`, so the
+ * parser pipeline only falls back to it when the native parser fails or the
+ * source has numbers a double cannot hold, which it returns as
+ * `LosslessNumber`.
+ */
+export function parseJsonSource(text: string): any {
+  let pos = 0
+
+  const fail = (message: string, expected?: string, at: number = pos): never => {
+    throw new JsonSyntaxError(message, at, expected)
+  }
+
+  const unexpected = (expected: string): never => {
+    const found = describeChar(text[pos])
+    return fail(`Unexpected ${found}, expected ${expected}`, expected)
+  }
+
+  const skipWhitespace = () => {
+    while (pos < text.length && WHITESPACE.has(text[pos])) pos++
+  }
+
+  const parseString = (): string => {
+    const start = pos
+    pos++ // opening quote
+    let value = ''
+    let chunkStart = pos
+
+    while (pos < text.length) {
+      const char = text[pos]
+
+      if (char === '"') {
+        value += text.slice(chunkStart, pos)
+        pos++
+        return value
+      }
+
+      if (char === '\\') {
+        value += text.slice(chunkStart, pos)
+        const escape = text[pos + 1]
+        switch (escape) {
+          case '"': value += '"'; break
+          case '\\': value += '\\'; break
+          case '/': value += '/'; break
+          case 'b': value += '\b'; break
+          case 'f': value += '\f'; break
+          case 'n': value += '\n'; break
+          case 'r': value += '\r'; break
+          case 't': value += '\t'; break
+          case 'u': {
+            const hex = text.slice(pos + 2, pos + 6)
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+              fail('Invalid unicode escape sequence', 'four hexadecimal digits after \\u', pos)
+            }
+            value += String.fromCharCode(parseInt(hex, 16))
+            pos += 4
+            break
+          }
+          case undefined:
+            fail('Unterminated string', 'closing \'"\'', start)
+            break
+          default:
+            fail(`Invalid escape sequence '\\${escape}'`, 'one of \\" \\\\ \\/ \\b \\f \\n \\r \\t \\uXXXX', pos)
+        }
+        pos += 2
+        chunkStart = pos
+        continue
+      }
+
+      if (char.charCodeAt(0) < 0x20) {
+        if (char === '\n') {
+          fail('Unterminated string', 'closing \'"\' before the end of the line', start)
+        }
+        fail(`Unescaped ${describeChar(char)} in string`, 'an escaped character')
+      }
+
+      pos++
+    }
+
+    return fail('Unterminated string', 'closing \'"\'', start)
+  }
+
+  const parseNumber = (): number | LosslessNumber => {
+    const start = pos
+    if (text[pos] === '-') pos++
+
+    if (text[pos] === '0') {
+      pos++
+      if (/[0-9]/.test(text[pos] ?? '')) {
+        fail('Leading zeros are not allowed in numbers', 'a digit other than 0, or a single 0')
+      }
+    } else if (/[1-9]/.test(text[pos] ?? '')) {
+      while (/[0-9]/.test(text[pos] ?? '')) pos++
+    } else {
+      unexpected('a digit')
+    }
+
+    if (text[pos] === '.') {
+      pos++
+      if (!/[0-9]/.test(text[pos] ?? '')) unexpected('a digit after the decimal point')
+      while (/[0-9]/.test(text[pos] ?? '')) pos++
+    }
+
+    if (text[pos] === 'e' || text[pos] === 'E') {
+      pos++
+      if (text[pos] === '+' || text[pos] === '-') pos++
+      if (!/[0-9]/.test(text[pos] ?? '')) unexpected('a digit in the exponent')
+      while (/[0-9]/.test(text[pos] ?? '')) pos++
+    }
+
+    return toJsonNumber(text.slice(start, pos))
+  }
+
+  const parseLiteral = (literal: string, value: any): any => {
+    if (text.startsWith(literal, pos)) {
+      pos += literal.length
+      return value
+    }
+    return unexpected('a JSON value')
+  }
+
+  const parseValue = (): any => {
+    skipWhitespace()
+    const char = text[pos]
+
+    switch (char) {
+      case '{': return parseObject()
+      case '[': return parseArray()
+      case '"': return parseString()
+      case 't': return parseLiteral('true', true)
+      case 'f': return parseLiteral('false', false)
+      case 'n': return parseLiteral('null', null)
+      default:
+        if (char === '-' || /[0-9]/.test(char ?? '')) {
+          return parseNumber()
+        }
+        if (char === undefined) {
+          return fail('Unexpected end of input', 'a JSON value')
+        }
+        if (char === '\'') {
+          return fail('Strings must use double quotes', '\'"\'')
+        }
+        return unexpected('a JSON value')
+    }
+  }
+
+  const parseArray = (): any[] => {
+    const array: any[] = []
+    pos++
+    skipWhitespace()
+
+    if (text[pos] === ']') {
+      pos++
+      return array
+    }
+
+    while (true) {
+      array.push(parseValue())
+      skipWhitespace()
+
+      if (text[pos] === ',') {
+        pos++
+        skipWhitespace()
+        if (text[pos] === ']') {
+          fail('Trailing comma in array', 'a value after \',\'')
+        }
+        continue
+      }
+      if (text[pos] === ']') {
+        pos++
+        return array
+      }
+      if (pos >= text.length) {
+        fail('Unexpected end of input: array is never closed', '\',\' or \']\'')
+      }
+      unexpected('\',\' or \']\' after array element')
+    }
+  }
+
+  const parseObject = (): Record<string, any> => {
+    const object: Record<string, any> = {}
+    pos++
+    skipWhitespace()
+
+    if (text[pos] === '}') {
+      pos++
+      return object
+    }
+
+    while (true) {
+      skipWhitespace()
+      if (text[pos] !== '"') {
+        if (pos >= text.length) {
+          fail('Unexpected end of input: object is never closed', 'a property name or \'}\'')
+        }
+        unexpected('a property name in double quotes')
+      }
+      const key = parseString()
+
+      skipWhitespace()
+      if (text[pos] !== ':') unexpected('\':\' after property name')
+      pos++
+
+      const value = parseValue()
+      if (key === '__proto__') {
+        Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true })
+      } else {
+        object[key] = value
+      }
+
+      skipWhitespace()
+      if (text[pos] === ',') {
+        pos++
+        skipWhitespace()
+        if (text[pos] === '}') {
+          fail('Trailing comma in object', 'a property name after \',\'')
+        }
+        continue
+      }
+      if (text[pos] === '}') {
+        pos++
+        return object
+      }
+      if (pos >= text.length) {
+        fail('Unexpected end of input: object is never closed', '\',\' or \'}\'')
+      }
+      unexpected('\',\' or \'}\' after property value')
+    }
+  }
+
+  const value = parseValue()
+  skipWhitespace()
+  if (pos < text.length) {
+    fail(`Unexpected ${describeChar(text[pos])} after the end of the JSON value`, 'end of input')
+  }
+
+  return value
+}
+
+export function getSourcePosition(text: string, offset: number): SourcePosition {
+  const clamped = Math.max(0, Math.min(offset, text.length))
+  let line = 1
+  let lineStart = 0
+
+  for (let i = 0; i < clamped; i++) {
+    if (text.charCodeAt(i) === 10) {
+      line++
+      lineStart = i + 1
+    }
+  }
+
+  return { offset: clamped, line, column: clamped - lineStart + 1 }
+}
+
+// Resolves offsets to line numbers with one scan of the text instead of one
+// per lookup
+export function createLineLookup(text: string): (offset: number) => number {
+  const lineStarts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) lineStarts.push(i + 1)
+  }
+
+  return (offset: number) => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const middle = (low + high + 1) >> 1
+      if (lineStarts[middle] <= offset) low = middle
+      else high = middle - 1
+    }
+    return low + 1
+  }
+}
+
+export function getSourceContext(
+  text: string,
+  line: number,
+  radius: number = 2
+): SourceContextLine[] {
+  const lines = text.split('\n')
+  const first = Math.max(1, line - radius)
+  const last = Math.min(lines.length, line + radius)
+  const context: SourceContextLine[] = []
+
+  for (let n = first; n <= last; n++) {
+    context.push({ line: n, text: lines[n - 1].replace(/\r$/, '') })
+  }
+
+  return context
+}
+
+/**
+ * Converts any failure thrown while parsing `text` into a structured
+ * `ParseError` with line/column information and surrounding source lines.
+ */
+export function toParseError(text: string, error: unknown): ParseError {
+  if (error instanceof JsonSyntaxError) {
+    const position = getSourcePosition(text, error.offset)
+    return {
+      message: error.message,
+      offset: position.offset,
+      line: position.line,
+      column: position.column,
+      expected: error.expected,
+      context: getSourceContext(text, position.line)
+    }
+  }
+
+  return {
+    message: error instanceof Error ? error.message : 'Unknown error'
+  }
+}
+
+/**
+ * Runs the location-tracking parser over `text` and returns the first syntax
+ * error, or null when the text is valid JSON.
+ */
+export function locateJsonSyntaxError(text: string): ParseError | null {
+  try {
+    parseJsonSource(text)
+    return null
+  } catch (error) {
+    return toParseError(text, error)
+  }
+}
+
+export function formatParseErrorLocation(error: ParseError): string {
+  if (error.line === undefined || error.column === undefined) {
+    return error.message
+  }
+  return `${error.message} (line ${error.line}, column ${error.column})`
+}
@@ -0,0 +1,168 @@
+import { getJsonType } from '@/lib/json-parser'
+import { DuplicateKeyValue } from '@/types'
+
+export interface JsonTreeRow {
+  path: string
+  key: string | number | null // null for the root node
+  value: any
+  type: string
+  level: number
+  childCount: number
+  isExpandable: boolean
+  isExpanded: boolean
+  overriddenLine?: number // Set for an earlier value of a duplicate key, which parsing dropped
+}
+
+export interface FlattenedJsonTree {
+  rows: JsonTreeRow[]
+  truncated: boolean
+}
+
+export function joinPropertyPath(parentPath: string, key: string): string {
+  return parentPath ? `${parentPath}.${key}` : key
+}
+
+export function joinIndexPath(parentPath: string, index: number): string {
+  return `${parentPath}[${index}]`
+}
+
+function getChildCount(value: any, type: string): number {
+  if (type === 'array') return value.length
+  if (type === 'object') return Object.keys(value).length
+  return 0
+}
+
+/**
+ * Flattens the visible part of a JSON document into a list of rows, walking
+ * only into containers whose path is in `expandedPaths`. The traversal is
+ * iterative so very deep documents cannot overflow the call stack.
+ * `overriddenValues` lists earlier values of duplicate keys by path; they get
+ * collapsed rows of their own just before the value that was kept.
+ */
+export function flattenJsonTree(
+  data: any,
+  expandedPaths: Set<string>,
+  maxRows: number = Infinity,
+  overriddenValues?: Map<string, DuplicateKeyValue[]>
+): FlattenedJsonTree {
+  const rows: JsonTreeRow[] = []
+  const stack: Array<{ value: any; path: string; key: string | number | null; level: number }> = [
+    { value: data, path: '', key: null, level: 0 }
+  ]
+
+  while (stack.length > 0) {
+    if (rows.length >= maxRows) {
+      return { rows, truncated: true }
+    }
+
+    const { value, path, key, level } = stack.pop()!
+
+    overriddenValues?.get(path)?.forEach(overridden => {
+      const overriddenType = getJsonType(overridden.value)
+      rows.push({
+        path,
+        key,
+        value: overridden.value,
+        type: overriddenType,
+        level,
+        childCount: getChildCount(overridden.value, overriddenType),
+        isExpandable: false,
+        isExpanded: false,
+        overriddenLine: overridden.line
+      })
+    })
+
+    const type = getJsonType(value)
+    const childCount = getChildCount(value, type)
+    const isExpandable = childCount > 0
+    const isExpanded = isExpandable && expandedPaths.has(path)
+
+    rows.push({ path, key, value, type, level, childCount, isExpandable, isExpanded })
+
+    if (!isExpanded) continue
+
+    // Push children in reverse so they are popped in document order
+    if (type === 'array') {
+      for (let i = value.length - 1; i >= 0; i--) {
+        stack.push({ value: value[i], path: joinIndexPath(path, i), key: i, level: level + 1 })
+      }
+    } else {
+      const keys = Object.keys(value)
+      for (let i = keys.length - 1; i >= 0; i--) {
+        stack.push({ value: value[keys[i]], path: joinPropertyPath(path, keys[i]), key: keys[i], level: level + 1 })
+      }
+    }
+  }
+
+  return { rows, truncated: false }
+}
+
+/**
+ * Returns the path of every non-empty object or array in the document,
+ * including the root, for "expand all". With a `maxDepth` only containers
+ * that many levels deep are included; the root is at depth 0.
+ */
+export function collectExpandablePaths(data: any, maxDepth = Infinity): Set<string> {
+  const paths = new Set<string>()
+  const stack: Array<{ value: any; path: string; depth: number }> = [{ value: data, path: '', depth: 0 }]
+
+  while (stack.length > 0) {
+    const { value, path, depth } = stack.pop()!
+    const type = getJsonType(value)
+    if (depth >= maxDepth || getChildCount(value, type) === 0) continue
+
+    paths.add(path)
+
+    if (type === 'array') {
+      value.forEach((item: any, index: number) => {
+        stack.push({ value: item, path: joinIndexPath(path, index), depth: depth + 1 })
+      })
+    } else {
+      Object.keys(value).forEach(key => {
+        stack.push({ value: value[key], path: joinPropertyPath(path, key), depth: depth + 1 })
+      })
+    }
+  }
+
+  return paths
+}
+
+/**
+ * Returns the root path and every ancestor of `path`, e.g. `a.b[0].c` yields
+ * `''`, `a`, `a.b` and `a.b[0]`.
+ */
+export function getAncestorPaths(path: string): string[] {
+  const ancestors = ['']
+  const pattern = /\.|\[/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(path)) !== null) {
+    if (match.index > 0) {
+      ancestors.push(path.slice(0, match.index))
+    }
+  }
+
+  return ancestors
+}
+
+/**
+ * Returns `path` relative to `ancestor` (e.g. `[3].user.name` relative to
+ * `[3]` is `user.name`), or null when `path` is not inside `ancestor`.
+ */
+export function getRelativePath(path: string, ancestor: string): string | null {
+  if (!ancestor) return path
+  if (path === ancestor) return ''
+  if (!path.startsWith(ancestor)) return null
+
+  const rest = path.slice(ancestor.length)
+  if (rest.startsWith('.')) return rest.slice(1)
+  if (rest.startsWith('[')) return rest
+  return null
+}
+
+// Inverse of getRelativePath
+export function joinTreePath(ancestor: string, relativePath: string): string {
+  if (!relativePath) return ancestor
+  if (!ancestor || relativePath.startsWith('[')) return `${ancestor}${relativePath}`
+  return `${ancestor}.${relativePath}`
+}
@@ -0,0 +1,176 @@
+import { FEATURE_FLAGS } from '@/config/features'
+import { FILE_LIMITS } from '@/config/constants'
+import { JsonParseOptions, ParseResult } from '@/lib/json-parser'
+import { runJqFilter, JqFilterOptions, JqFilterResult } from '@/lib/jq-filter'
+import { countRoundedNumbers, decodeLosslessNumbers, toPlainNumbers } from '@/lib/lossless-number'
+
+export type WorkerParseOptions = Omit<JsonParseOptions, 'onProgress'>
+
+export type ParseWorkerRequest = {
+  type: 'parse'
+  content: string
+  options: WorkerParseOptions
+}
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; progress: number; stage: string }
+  | { type: 'result'; result: ParseResult }
+  | { type: 'error'; message: string }
+
+export interface WorkerParseHandlers {
+  onProgress?: (progress: number, stage: string) => void
+  signal?: AbortSignal
+}
+
+const CANCELLED_MESSAGE = 'Cancelled'
+
+export type JqWorkerRequest = {
+  type: 'filter'
+  data: any
+  filter: string
+  options: JqFilterOptions
+}
+
+export type JqWorkerResponse =
+  | { type: 'result'; result: JqFilterResult }
+  | { type: 'error'; message: string }
+
+function canUseWorkers(): boolean {
+  return FEATURE_FLAGS.enableWebWorkers && typeof Worker !== 'undefined'
+}
+
+export function shouldParseInWorker(size: number): boolean {
+  return canUseWorkers() && size > FILE_LIMITS.webWorkerThreshold
+}
+
+export function isParseCancelled(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+function createCancelledError(): Error {
+  const error = new Error(CANCELLED_MESSAGE)
+  error.name = 'AbortError'
+  return error
+}
+
+function runWorker<TResult>(
+  worker: Worker,
+  request: unknown,
+  signal: AbortSignal | undefined,
+  handleMessage: (message: any, settle: { resolve: (result: TResult) => void; reject: (error: Error) => void }) => void
+): Promise<TResult> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', handleAbort)
+    }
+
+    const handleAbort = () => {
+      cleanup()
+      reject(createCancelledError())
+    }
+
+    signal?.addEventListener('abort', handleAbort)
+
+    const settle = {
+      resolve: (result: TResult) => {
+        cleanup()
+        resolve(result)
+      },
+      reject: (error: Error) => {
+        cleanup()
+        reject(error)
+      }
+    }
+
+    worker.onmessage = (event: MessageEvent) => handleMessage(event.data, settle)
+    worker.onerror = (event) => settle.reject(new Error(event.message || 'Worker failed'))
+    worker.postMessage(request)
+  })
+}
+
+/**
+ * Parses `content` in a dedicated worker so that large files do not block the
+ * main thread. Resolves with the same `ParseResult` as `parseJsonString`.
+ * Aborting `signal` terminates the worker and rejects with an AbortError.
+ */
+export function parseJsonInWorker(
+  content: string,
+  options: WorkerParseOptions = {},
+  { onProgress, signal }: WorkerParseHandlers = {}
+): Promise<ParseResult> {
+  if (signal?.aborted) return Promise.reject(createCancelledError())
+
+  const worker = new Worker(new URL('../workers/json-parser.worker.ts', import.meta.url), {
+    type: 'module'
+  })
+  const request: ParseWorkerRequest = { type: 'parse', content, options }
+
+  return runWorker<ParseResult>(worker, request, signal, (message: ParseWorkerResponse, settle) => {
+    switch (message.type) {
+      case 'progress':
+        onProgress?.(message.progress, message.stage)
+        break
+      case 'result':
+        if (message.result.losslessNumbers) {
+          message.result.data = decodeLosslessNumbers(message.result.data)
+        }
+        message.result.duplicateKeys = decodeLosslessNumbers(message.result.duplicateKeys)
+        settle.resolve(message.result)
+        break
+      case 'error':
+        settle.reject(new Error(message.message))
+        break
+    }
+  })
+}
+
+// Outputs that hold a rounded lossless number no longer match the source
+function reportRoundedNumbers(data: any, result: JqFilterResult): JqFilterResult {
+  const { count, first } = countRoundedNumbers(data, result.outputs)
+  if (count === 0) return result
+
+  return {
+    ...result,
+    warnings: [
+      ...(result.warnings ?? []),
+      `${count === 1 ? '1 number' : `${count} numbers`} in the output lost precision: filters work on ` +
+      `JavaScript numbers, so e.g. ${first} became ${Number(first)}`
+    ]
+  }
+}
+
+/**
+ * Runs a jq filter against `data` in a dedicated worker, falling back to the
+ * main thread when workers are unavailable. Rejects with the filter's syntax
+ * or runtime error, or with an AbortError when `signal` is aborted. Like jq
+ * 1.6, filters see numbers as doubles, so lossless numbers are rounded; the
+ * result warns when rounded numbers reach the output.
+ */
+export function runJqFilterInWorker(
+  data: any,
+  filter: string,
+  options: JqFilterOptions = {},
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<JqFilterResult> {
+  if (signal?.aborted) return Promise.reject(createCancelledError())
+
+  const input = toPlainNumbers(data)
+  if (!canUseWorkers()) {
+    try {
+      return Promise.resolve(reportRoundedNumbers(data, runJqFilter(input, filter, options)))
+    } catch (error) {
+      return Promise.reject(error)
+    }
+  }
+
+  const worker = new Worker(new URL('../workers/jq-filter.worker.ts', import.meta.url), {
+    type: 'module'
+  })
+  const request: JqWorkerRequest = { type: 'filter', data: input, filter, options }
+
+  return runWorker<JqFilterResult>(worker, request, signal, (message: JqWorkerResponse, settle) => {
+    if (message.type === 'result') settle.resolve(reportRoundedNumbers(data, message.result))
+    else settle.reject(new Error(message.message))
+  })
+}
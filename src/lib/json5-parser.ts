@@ -0,0 +1,558 @@
+import { DuplicateKey, JsonComment } from '@/types'
+import { JsonSyntaxError, createLineLookup, describeChar } from '@/lib/json-source-parser'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+import { LosslessNumber, isLosslessNumber, stringifyJson, toJsonNumber } from '@/lib/lossless-number'
+
+export type LenientConstruct =
+  | 'comments'
+  | 'trailingCommas'
+  | 'singleQuotedStrings'
+  | 'unquotedKeys'
+  | 'hexadecimalNumbers'
+  | 'relaxedNumbers'
+  | 'specialNumbers'
+  | 'multilineStrings'
+  | 'extendedEscapes'
+  | 'extendedWhitespace'
+
+export interface LenientConstructUsage {
+  construct: LenientConstruct
+  count: number
+  line: number // 1-based line of the first occurrence
+}
+
+export interface Json5ParseResult {
+  value: any
+  constructs: LenientConstructUsage[]
+  comments: JsonComment[]
+  duplicateKeys: DuplicateKey[]
+}
+
+const CONSTRUCT_LABELS: Record<LenientConstruct, string> = {
+  comments: 'comments',
+  trailingCommas: 'trailing commas',
+  singleQuotedStrings: 'single-quoted strings',
+  unquotedKeys: 'unquoted property names',
+  hexadecimalNumbers: 'hexadecimal numbers',
+  relaxedNumbers: 'numbers with a leading \'+\' or a bare decimal point',
+  specialNumbers: 'Infinity or NaN, which are exported as null',
+  multilineStrings: 'strings continued over several lines',
+  extendedEscapes: 'escape sequences JSON does not allow',
+  extendedWhitespace: 'whitespace characters JSON does not allow'
+}
+
+export function describeLenientConstruct(usage: LenientConstructUsage): string {
+  const times = usage.count === 1 ? 'once' : `${usage.count} times`
+  return `Non-standard JSON: ${CONSTRUCT_LABELS[usage.construct]} (${times}, first at line ${usage.line})`
+}
+
+const JSON_WHITESPACE = new Set([' ', '\t', '\n', '\r'])
+const JSON5_WHITESPACE = /[\v\f\u00a0\u2028\u2029\ufeff\p{Zs}]/u
+const LINE_TERMINATORS = new Set(['\n', '\r', '\u2028', '\u2029'])
+const IDENTIFIER_START = /[\p{ID_Start}$_]/u
+const IDENTIFIER_PART = /[\p{ID_Continue}$\u200c\u200d]/u
+const SINGLE_ESCAPES: Record<string, string> = {
+  '"': '"', '\'': '\'', '\\': '\\', '/': '/',
+  b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v'
+}
+
+interface PendingComment {
+  text: string
+  offset: number
+  newlineBefore: boolean // Whether a line break separates it from the previous token
+}
+
+/**
+ * JSON5 parser (a superset of JSONC) that tracks source offsets like
+ * `parseJsonSource`. Besides the value it reports which non-standard
+ * constructs the text uses, keeps every comment, attached to the tree path
+ * of the member it documents, and lists keys that repeat within an object.
+ */
+export function parseJson5Source(text: string): Json5ParseResult {
+  let pos = 0
+  let sawNewline = false
+  let pending: PendingComment[] = []
+  const comments: Array<Omit<JsonComment, 'line'> & { offset: number }> = []
+  const usage = new Map<LenientConstruct, { count: number; offset: number }>()
+  const duplicates: Array<{ path: string; key: string; values: Array<{ value: any; offset: number }> }> = []
+
+  const fail = (message: string, expected?: string, at: number = pos): never => {
+    throw new JsonSyntaxError(message, at, expected)
+  }
+
+  const unexpected = (expected: string): never => {
+    return fail(`Unexpected ${describeChar(text[pos])}, expected ${expected}`, expected)
+  }
+
+  const use = (construct: LenientConstruct, at: number = pos) => {
+    const entry = usage.get(construct)
+    if (entry) {
+      entry.count++
+    } else {
+      usage.set(construct, { count: 1, offset: at })
+    }
+  }
+
+  // Skips whitespace and comments; comments wait in `pending` until the
+  // parser knows which member they belong to
+  const skipTrivia = () => {
+    while (pos < text.length) {
+      const char = text[pos]
+
+      if (JSON_WHITESPACE.has(char) || JSON5_WHITESPACE.test(char)) {
+        if (!JSON_WHITESPACE.has(char)) use('extendedWhitespace')
+        if (LINE_TERMINATORS.has(char)) sawNewline = true
+        pos++
+        continue
+      }
+
+      if (char === '/' && text[pos + 1] === '/') {
+        const start = pos
+        while (pos < text.length && !LINE_TERMINATORS.has(text[pos])) pos++
+        use('comments', start)
+        pending.push({ text: text.slice(start, pos), offset: start, newlineBefore: sawNewline })
+        continue
+      }
+
+      if (char === '/' && text[pos + 1] === '*') {
+        const start = pos
+        const end = text.indexOf('*/', pos + 2)
+        if (end === -1) fail('Unterminated comment', '\'*/\'', start)
+        pos = end + 2
+        use('comments', start)
+        pending.push({ text: text.slice(start, pos), offset: start, newlineBefore: sawNewline })
+        continue
+      }
+
+      break
+    }
+  }
+
+  const attach = (items: PendingComment[], path: string, placement: JsonComment['placement']) => {
+    items.forEach(({ text, offset }) => comments.push({ path, placement, text, offset }))
+  }
+
+  // Comments on the same line as the previous member trail it
+  const attachPending = (previousPath: string | null, path: string, placement: JsonComment['placement']) => {
+    let sameLine = 0
+    if (previousPath !== null) {
+      while (sameLine < pending.length && !pending[sameLine].newlineBefore) sameLine++
+      attach(pending.slice(0, sameLine), previousPath, 'after')
+    }
+    attach(pending.slice(sameLine), path, placement)
+    pending = []
+  }
+
+  // Marks the end of a token so later comments know whether a line break
+  // separates them from it
+  const endToken = () => {
+    sawNewline = false
+  }
+
+  const parseString = (): string => {
+    const start = pos
+    const quote = text[pos]
+    if (quote === '\'') use('singleQuotedStrings')
+    pos++
+    let value = ''
+    let chunkStart = pos
+
+    while (pos < text.length) {
+      const char = text[pos]
+
+      if (char === quote) {
+        value += text.slice(chunkStart, pos)
+        pos++
+        endToken()
+        return value
+      }
+
+      if (char === '\\') {
+        value += text.slice(chunkStart, pos)
+        const escape = text[pos + 1]
+
+        if (escape === undefined) {
+          fail('Unterminated string', `closing '${quote}'`, start)
+        } else if (escape in SINGLE_ESCAPES) {
+          if (escape === '\'' || escape === 'v') use('extendedEscapes')
+          value += SINGLE_ESCAPES[escape]
+          pos += 2
+        } else if (escape === 'u') {
+          const hex = text.slice(pos + 2, pos + 6)
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            fail('Invalid unicode escape sequence', 'four hexadecimal digits after \\u', pos)
+          }
+          value += String.fromCharCode(parseInt(hex, 16))
+          pos += 6
+        } else if (escape === 'x') {
+          const hex = text.slice(pos + 2, pos + 4)
+          if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+            fail('Invalid hexadecimal escape sequence', 'two hexadecimal digits after \\x', pos)
+          }
+          use('extendedEscapes')
+          value += String.fromCharCode(parseInt(hex, 16))
+          pos += 4
+        } else if (LINE_TERMINATORS.has(escape)) {
+          // Line continuation: the escaped line break is dropped
+          use('multilineStrings')
+          pos += escape === '\r' && text[pos + 2] === '\n' ? 3 : 2
+        } else if (escape === '0' && !/[0-9]/.test(text[pos + 2] ?? '')) {
+          use('extendedEscapes')
+          value += '\0'
+          pos += 2
+        } else if (/[0-9]/.test(escape)) {
+          fail(`Invalid escape sequence '\\${escape}'`, 'an escape other than a digit', pos)
+        } else {
+          // Any other escaped character stands for itself
+          use('extendedEscapes')
+          value += escape
+          pos += 2
+        }
+
+        chunkStart = pos
+        continue
+      }
+
+      if (char === '\n' || char === '\r') {
+        fail('Unterminated string', `closing '${quote}' before the end of the line`, start)
+      }
+
+      pos++
+    }
+
+    return fail('Unterminated string', `closing '${quote}'`, start)
+  }
+
+  const parseIdentifier = (): string => {
+    let name = ''
+
+    const readChar = (pattern: RegExp): boolean => {
+      const char = text[pos]
+      if (char === '\\') {
+        const hex = text.slice(pos + 2, pos + 6)
+        if (text[pos + 1] !== 'u' || !/^[0-9a-fA-F]{4}$/.test(hex)) {
+          fail('Invalid escape in property name', '\\uXXXX')
+        }
+        const decoded = String.fromCharCode(parseInt(hex, 16))
+        if (!pattern.test(decoded)) fail(`Invalid character in property name`, 'an identifier character')
+        name += decoded
+        pos += 6
+        return true
+      }
+      if (char !== undefined && pattern.test(char)) {
+        name += char
+        pos++
+        return true
+      }
+      return false
+    }
+
+    if (!readChar(IDENTIFIER_START)) unexpected('a property name')
+    while (readChar(IDENTIFIER_PART)) { /* consume */ }
+
+    endToken()
+    return name
+  }
+
+  const parseNumber = (): number | LosslessNumber => {
+    const start = pos
+    let sign = 1
+
+    if (text[pos] === '+' || text[pos] === '-') {
+      if (text[pos] === '+') use('relaxedNumbers')
+      if (text[pos] === '-') sign = -1
+      pos++
+    }
+
+    if (text.startsWith('Infinity', pos)) {
+      use('specialNumbers', start)
+      pos += 8
+      endToken()
+      return sign * Infinity
+    }
+    if (text.startsWith('NaN', pos)) {
+      use('specialNumbers', start)
+      pos += 3
+      endToken()
+      return NaN
+    }
+
+    if (text[pos] === '0' && (text[pos + 1] === 'x' || text[pos + 1] === 'X')) {
+      pos += 2
+      const digitsStart = pos
+      while (/[0-9a-fA-F]/.test(text[pos] ?? '')) pos++
+      if (pos === digitsStart) unexpected('a hexadecimal digit')
+      use('hexadecimalNumbers', start)
+      endToken()
+      const digits = text.slice(digitsStart, pos)
+      const magnitude = parseInt(digits, 16)
+      if (Number.isSafeInteger(magnitude)) return sign * magnitude
+      return new LosslessNumber(`${sign < 0 ? '-' : ''}${BigInt(`0x${digits}`)}`)
+    }
+
+    let integerDigits = 0
+    if (text[pos] === '0') {
+      pos++
+      integerDigits = 1
+      if (/[0-9]/.test(text[pos] ?? '')) {
+        fail('Leading zeros are not allowed in numbers', 'a digit other than 0, or a single 0')
+      }
+    } else {
+      while (/[0-9]/.test(text[pos] ?? '')) {
+        pos++
+        integerDigits++
+      }
+    }
+
+    let fractionDigits = 0
+    const hasPoint = text[pos] === '.'
+    if (hasPoint) {
+      pos++
+      while (/[0-9]/.test(text[pos] ?? '')) {
+        pos++
+        fractionDigits++
+      }
+    }
+
+    if (integerDigits === 0 && fractionDigits === 0) {
+      unexpected('a digit')
+    }
+    if (hasPoint && (integerDigits === 0 || fractionDigits === 0)) {
+      use('relaxedNumbers', start)
+    }
+
+    if (text[pos] === 'e' || text[pos] === 'E') {
+      pos++
+      if (text[pos] === '+' || text[pos] === '-') pos++
+      if (!/[0-9]/.test(text[pos] ?? '')) unexpected('a digit in the exponent')
+      while (/[0-9]/.test(text[pos] ?? '')) pos++
+    }
+
+    endToken()
+    return toJsonNumber(text.slice(start, pos).replace(/^\+/, ''))
+  }
+
+  const parseLiteral = (literal: string, value: any): any => {
+    if (text.startsWith(literal, pos)) {
+      pos += literal.length
+      endToken()
+      return value
+    }
+    return unexpected('a JSON5 value')
+  }
+
+  const parseValue = (path: string): any => {
+    const char = text[pos]
+
+    switch (char) {
+      case '{': return parseObject(path)
+      case '[': return parseArray(path)
+      case '"':
+      case '\'':
+        return parseString()
+      case 't': return parseLiteral('true', true)
+      case 'f': return parseLiteral('false', false)
+      case 'n': return parseLiteral('null', null)
+      default:
+        if (char !== undefined && /[-+.0-9]/.test(char)) {
+          return parseNumber()
+        }
+        if (text.startsWith('Infinity', pos) || text.startsWith('NaN', pos)) {
+          return parseNumber()
+        }
+        if (char === undefined) {
+          return fail('Unexpected end of input', 'a JSON5 value')
+        }
+        return unexpected('a JSON5 value')
+    }
+  }
+
+  const parseArray = (path: string): any[] => {
+    const array: any[] = []
+    pos++
+    endToken()
+    let previousPath: string | null = null
+
+    while (true) {
+      skipTrivia()
+
+      if (text[pos] === ']') {
+        attachPending(previousPath, path, 'end')
+        pos++
+        endToken()
+        return array
+      }
+      if (pos >= text.length) {
+        fail('Unexpected end of input: array is never closed', '\',\' or \']\'')
+      }
+
+      const itemPath = joinIndexPath(path, array.length)
+      attachPending(previousPath, itemPath, 'before')
+      array.push(parseValue(itemPath))
+      previousPath = itemPath
+
+      skipTrivia()
+      if (text[pos] === ',') {
+        pos++
+        endToken()
+        skipTrivia()
+        if (text[pos] === ']') use('trailingCommas', pos - 1)
+        continue
+      }
+      if (text[pos] === ']') continue
+      if (pos >= text.length) {
+        fail('Unexpected end of input: array is never closed', '\',\' or \']\'')
+      }
+      unexpected('\',\' or \']\' after array element')
+    }
+  }
+
+  const parseObject = (path: string): Record<string, any> => {
+    const object: Record<string, any> = {}
+    pos++
+    endToken()
+    let previousPath: string | null = null
+    // Latest offset of each key, and every occurrence of repeated ones
+    const keyOffsets = new Map<string, number>()
+    let repeats: Map<string, Array<{ value: any; offset: number }>> | null = null
+
+    while (true) {
+      skipTrivia()
+
+      if (text[pos] === '}') {
+        repeats?.forEach((values, key) => duplicates.push({ path: joinPropertyPath(path, key), key, values }))
+        attachPending(previousPath, path, 'end')
+        pos++
+        endToken()
+        return object
+      }
+      if (pos >= text.length) {
+        fail('Unexpected end of input: object is never closed', 'a property name or \'}\'')
+      }
+
+      const keyOffset = pos
+      let key: string
+      if (text[pos] === '"' || text[pos] === '\'') {
+        key = parseString()
+      } else {
+        use('unquotedKeys')
+        key = parseIdentifier()
+      }
+      const memberPath = joinPropertyPath(path, key)
+      attachPending(previousPath, memberPath, 'before')
+
+      skipTrivia()
+      if (text[pos] !== ':') unexpected('\':\' after property name')
+      pos++
+      endToken()
+      skipTrivia()
+      attachPending(null, memberPath, 'before')
+
+      const value = parseValue(memberPath)
+      const previousOffset = keyOffsets.get(key)
+      if (previousOffset !== undefined) {
+        repeats = repeats ?? new Map()
+        const values = repeats.get(key) ?? [{ value: object[key], offset: previousOffset }]
+        repeats.set(key, [...values, { value, offset: keyOffset }])
+      }
+      keyOffsets.set(key, keyOffset)
+      if (key === '__proto__') {
+        Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true })
+      } else {
+        object[key] = value
+      }
+      previousPath = memberPath
+
+      skipTrivia()
+      if (text[pos] === ',') {
+        pos++
+        endToken()
+        skipTrivia()
+        if (text[pos] === '}') use('trailingCommas', pos - 1)
+        continue
+      }
+      if (text[pos] === '}') continue
+      if (pos >= text.length) {
+        fail('Unexpected end of input: object is never closed', '\',\' or \'}\'')
+      }
+      unexpected('\',\' or \'}\' after property value')
+    }
+  }
+
+  skipTrivia()
+  attachPending(null, '', 'before')
+  const value = parseValue('')
+  skipTrivia()
+  if (pos < text.length) {
+    fail(`Unexpected ${describeChar(text[pos])} after the end of the JSON5 value`, 'end of input')
+  }
+  attachPending(null, '', 'after')
+
+  const lineOf = createLineLookup(text)
+  return {
+    value,
+    constructs: Array.from(usage, ([construct, { count, offset }]) => ({ construct, count, line: lineOf(offset) })),
+    comments: comments.map(({ offset, ...comment }) => ({ ...comment, line: lineOf(offset) })),
+    // Objects are collected as they close, so inner ones come first
+    duplicateKeys: duplicates
+      .sort((a, b) => a.values[0].offset - b.values[0].offset)
+      .map(({ values, ...duplicate }) => ({
+        ...duplicate,
+        values: values.map(({ value, offset }) => ({ value, line: lineOf(offset) }))
+      }))
+  }
+}
+
+/**
+ * Pretty-prints `data` like `formatJsonString` and writes `comments` back
+ * next to the members they were attached to. Comments whose member no longer
+ * exists (e.g. after an edit) are dropped.
+ */
+export function formatJsonWithComments(
+  data: any,
+  comments: JsonComment[],
+  indent: number | '\t' = 2,
+  sortKeys: boolean = false
+): string {
+  const unit = typeof indent === 'number' ? ' '.repeat(indent) : indent
+  const byPath = new Map<string, JsonComment[]>()
+  comments.forEach(comment => {
+    const key = `${comment.placement}:${comment.path}`
+    byPath.set(key, [...(byPath.get(key) ?? []), comment])
+  })
+  const commentsAt = (placement: JsonComment['placement'], path: string) =>
+    (byPath.get(`${placement}:${path}`) ?? []).map(comment => comment.text)
+
+  const write = (value: any, path: string, depth: number): string => {
+    if (value === null || typeof value !== 'object' || isLosslessNumber(value)) {
+      return stringifyJson(value) ?? 'null'
+    }
+    const type = Array.isArray(value) ? 'array' : 'object'
+
+    const padding = unit.repeat(depth + 1)
+    const members: Array<[string | null, any, string]> = type === 'array'
+      ? value.map((item: any, index: number) => [null, item, joinIndexPath(path, index)])
+      : (sortKeys ? Object.keys(value).sort() : Object.keys(value))
+          .map(key => [key, value[key], joinPropertyPath(path, key)])
+
+    const lines: string[] = []
+    members.forEach(([key, item, itemPath], index) => {
+      commentsAt('before', itemPath).forEach(comment => lines.push(padding + comment))
+      const prefix = key === null ? '' : `${JSON.stringify(key)}: `
+      const comma = index < members.length - 1 ? ',' : ''
+      const trailing = commentsAt('after', itemPath)
+      lines.push(`${padding}${prefix}${write(item, itemPath, depth + 1)}${comma}${trailing.length ? ' ' + trailing.join(' ') : ''}`)
+    })
+    commentsAt('end', path).forEach(comment => lines.push(padding + comment))
+
+    const [open, close] = type === 'array' ? ['[', ']'] : ['{', '}']
+    if (lines.length === 0) return `${open}${close}`
+    return `${open}\n${lines.join('\n')}\n${unit.repeat(depth)}${close}`
+  }
+
+  return [
+    ...commentsAt('before', ''),
+    write(data, '', 0),
+    ...commentsAt('after', '')
+  ].join('\n')
+}
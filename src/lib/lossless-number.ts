@@ -0,0 +1,198 @@
+/**
+ * A JSON number that a double cannot hold exactly, such as a 64-bit ID or a
+ * decimal with more significant digits than a double keeps. The source
+ * lexeme is kept so the value can be shown and written back unchanged.
+ */
+export class LosslessNumber {
+  readonly value: string
+
+  constructor(value: string) {
+    this.value = value
+  }
+
+  // Arithmetic and comparisons fall back to the nearest double
+  valueOf(): number {
+    return Number(this.value)
+  }
+
+  toString(): string {
+    return this.value
+  }
+
+  // JSON.stringify cannot write a raw lexeme, so plain calls get the nearest
+  // double; use `stringifyJson` to keep the exact value
+  toJSON(): number {
+    return Number(this.value)
+  }
+}
+
+const JSON_NUMBER_PATTERN = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?$/
+
+// Lexemes that may need more than a double: long digit runs or three-digit
+// exponents. Only sources that contain one take the slower lossless path.
+const UNSAFE_NUMBER_HINT = /\d{16}|[\d.]{17}|[eE][-+]?\d{3}/
+
+const LOSSLESS_MARKER = '\u0000lossless'
+const PLACEHOLDER_PATTERN = /"\\u0000lossless:([-.\deE+]+)"/g
+
+export function isLosslessNumber(value: any): value is LosslessNumber {
+  return value instanceof LosslessNumber
+}
+
+export function isJsonNumberLexeme(text: string): boolean {
+  return JSON_NUMBER_PATTERN.test(text)
+}
+
+export function mayLosePrecision(source: string): boolean {
+  return UNSAFE_NUMBER_HINT.test(source)
+}
+
+function significantDigits(lexeme: string): string {
+  const mantissa = lexeme.replace(/^[-+]/, '').split(/[eE]/)[0].replace('.', '')
+  return mantissa.replace(/^0+/, '').replace(/0+$/, '')
+}
+
+/**
+ * Whether reading `lexeme` into a double changes its value, i.e. the closest
+ * double has other significant digits or the number overflows.
+ */
+export function losesPrecision(lexeme: string): boolean {
+  const number = Number(lexeme)
+  return !Number.isFinite(number) || significantDigits(String(number)) !== significantDigits(lexeme)
+}
+
+/**
+ * Converts a JSON number lexeme to a number, or to a `LosslessNumber` when a
+ * double would change its value.
+ */
+export function toJsonNumber(lexeme: string): number | LosslessNumber {
+  return isJsonNumberLexeme(lexeme) && losesPrecision(lexeme) ? new LosslessNumber(lexeme) : Number(lexeme)
+}
+
+// Rebuilds only the containers on the way to a replaced value
+function replaceValues(value: any, replace: (value: any) => any): any {
+  const replaced = replace(value)
+  if (replaced !== value) return replaced
+
+  if (Array.isArray(value)) {
+    let copy: any[] | null = null
+    value.forEach((item, index) => {
+      const next = replaceValues(item, replace)
+      if (next !== item) {
+        copy = copy ?? value.slice()
+        copy[index] = next
+      }
+    })
+    return copy ?? value
+  }
+
+  if (value !== null && typeof value === 'object') {
+    let changed = false
+    const entries = Object.entries(value).map(([key, item]) => {
+      const next = replaceValues(item, replace)
+      if (next !== item) changed = true
+      return [key, next]
+    })
+    return changed ? Object.fromEntries(entries) : value
+  }
+
+  return value
+}
+
+/**
+ * Replaces every `LosslessNumber` with its nearest double, for consumers that
+ * only understand plain numbers.
+ */
+export function toPlainNumbers(data: any): any {
+  return replaceValues(data, value => isLosslessNumber(value) ? value.valueOf() : value)
+}
+
+export function countLosslessNumbers(data: any): { count: number; first?: string } {
+  let count = 0
+  let first: string | undefined
+  replaceValues(data, value => {
+    if (isLosslessNumber(value)) {
+      count++
+      first = first ?? value.value
+    }
+    return value
+  })
+  return { count, first }
+}
+
+/**
+ * Counts the numbers in `output` that equal the nearest double of a lossless
+ * number in `source`: values that went through a consumer of plain numbers
+ * and came out with other digits. `first` is the source lexeme of one.
+ */
+export function countRoundedNumbers(source: any, output: any): { count: number; first?: string } {
+  const lexemes = new Map<number, string>()
+  replaceValues(source, value => {
+    if (isLosslessNumber(value) && !lexemes.has(value.valueOf())) lexemes.set(value.valueOf(), value.value)
+    return value
+  })
+
+  let count = 0
+  let first: string | undefined
+  if (lexemes.size === 0) return { count }
+  replaceValues(output, value => {
+    if (typeof value === 'number' && lexemes.has(value)) {
+      count++
+      first = first ?? lexemes.get(value)
+    }
+    return value
+  })
+  return { count, first }
+}
+
+// Structured cloning (e.g. posting to a worker) drops the class, so lossless
+// numbers travel as marker objects and are restored on the other side
+export function encodeLosslessNumbers(data: any): any {
+  return replaceValues(data, value => isLosslessNumber(value) ? { [LOSSLESS_MARKER]: value.value } : value)
+}
+
+export function decodeLosslessNumbers(data: any): any {
+  return replaceValues(data, value => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return value
+    const keys = Object.keys(value)
+    return keys.length === 1 && keys[0] === LOSSLESS_MARKER ? new LosslessNumber(value[LOSSLESS_MARKER]) : value
+  })
+}
+
+/**
+ * Deep copies a JSON value. Unlike `structuredClone` it keeps
+ * `LosslessNumber` instances, which are immutable and shared.
+ */
+export function cloneJsonValue(value: any): any {
+  if (Array.isArray(value)) return value.map(cloneJsonValue)
+  if (value !== null && typeof value === 'object' && !isLosslessNumber(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneJsonValue(item)]))
+  }
+  return value
+}
+
+/**
+ * `JSON.stringify` that writes `LosslessNumber` values with their exact
+ * lexeme. They are emitted as placeholder strings first and swapped for the
+ * raw digits afterwards.
+ */
+export function stringifyJson(
+  value: any,
+  replacer?: (key: string, value: any) => any,
+  indent?: number | string
+): string {
+  let hasLossless = false
+  const text = JSON.stringify(value, function (this: any, key: string, item: any) {
+    // `item` has already been through toJSON; the holder still has the original
+    const original = this[key]
+    const current = isLosslessNumber(original) ? original : item
+    const replaced = replacer ? replacer.call(this, key, current) : current
+    if (isLosslessNumber(replaced)) {
+      hasLossless = true
+      return `${LOSSLESS_MARKER}:${replaced.value}`
+    }
+    return replaced
+  }, indent)
+
+  return hasLossless ? text.replace(PLACEHOLDER_PATTERN, (_, lexeme: string) => lexeme) : text
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod'
+import { DateDisplayFormat, IndentSize, NumberDisplayFormat, Preferences, XmlOptions } from '@/types'
+import { DEFAULT_XML_OPTIONS } from '@/lib/xml-converter'
+import { isLosslessNumber, LosslessNumber } from '@/lib/lossless-number'
+
+// Bumped when stored preferences need migrating; version 0 only held the
+// XML mapping and whether files are kept
+export const PREFERENCES_VERSION = 1
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  theme: 'auto',
+  defaultViewMode: 'tree',
+  indentSize: '2',
+  defaultExpandDepth: 1,
+  caseSensitiveSearch: false,
+  numberFormat: 'plain',
+  dateFormat: 'source',
+  xmlOptions: DEFAULT_XML_OPTIONS,
+  persistFiles: true
+}
+
+export const MAX_EXPAND_DEPTH = 10
+
+export const INDENT_SIZES: Array<{ value: IndentSize; label: string }> = [
+  { value: '2', label: '2 spaces' },
+  { value: '4', label: '4 spaces' },
+  { value: 'tab', label: 'Tab' }
+]
+
+// Settings to change; the XML mapping can be changed in part
+export type PreferencesChanges = Partial<Omit<Preferences, 'xmlOptions'>> & { xmlOptions?: Partial<XmlOptions> }
+
+const preferenceSchemas = {
+  theme: z.enum(['light', 'dark', 'auto']),
+  defaultViewMode: z.enum(['tree', 'raw', 'formatted']),
+  indentSize: z.enum(['2', '4', 'tab']),
+  defaultExpandDepth: z.number().int().min(0).max(MAX_EXPAND_DEPTH),
+  caseSensitiveSearch: z.boolean(),
+  numberFormat: z.enum(['plain', 'grouped']),
+  dateFormat: z.enum(['source', 'local', 'utc']),
+  xmlOptions: z.object({
+    attributePrefix: z.string(),
+    textKey: z.string().min(1),
+    ignoreAttributes: z.boolean(),
+    alwaysArray: z.boolean(),
+    namespaces: z.enum(['keep', 'strip']),
+    coerceTypes: z.boolean()
+  }).partial(),
+  persistFiles: z.boolean()
+}
+
+const preferencesSchema = z.object(preferenceSchemas).partial()
+
+export class PreferencesImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PreferencesImportError'
+  }
+}
+
+/**
+ * Brings preferences stored by an earlier version up to date. Settings that
+ * did not exist yet or no longer hold a valid value keep their defaults.
+ */
+export function migratePreferences(persisted: unknown, version: number): PreferencesChanges {
+  if (!persisted || typeof persisted !== 'object' || version > PREFERENCES_VERSION) return {}
+
+  // Version 0 stored a subset of the current settings under the same names
+  const stored = persisted as Record<string, unknown>
+  const migrated: Record<string, unknown> = {}
+  Object.entries(preferenceSchemas).forEach(([key, schema]) => {
+    const result = schema.safeParse(stored[key])
+    if (result.success) migrated[key] = result.data
+  })
+  return migrated as PreferencesChanges
+}
+
+export function mergePreferences(base: Preferences, changes: PreferencesChanges): Preferences {
+  return {
+    ...base,
+    ...changes,
+    xmlOptions: { ...base.xmlOptions, ...changes.xmlOptions }
+  }
+}
+
+export function exportPreferences(preferences: Preferences): string {
+  return JSON.stringify({ version: PREFERENCES_VERSION, preferences }, null, 2)
+}
+
+/**
+ * Reads a file written by `exportPreferences`. Unknown settings are ignored;
+ * invalid values and files from a newer version are rejected as a whole.
+ */
+export function importPreferences(text: string): PreferencesChanges {
+  let parsed: any
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new PreferencesImportError('The file is not valid JSON')
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.preferences || typeof parsed.preferences !== 'object') {
+    throw new PreferencesImportError('The file does not contain JViewPro preferences')
+  }
+  const version = typeof parsed.version === 'number' ? parsed.version : 0
+  if (version > PREFERENCES_VERSION) {
+    throw new PreferencesImportError(`The preferences are from a newer version (${version}) of JViewPro`)
+  }
+
+  const result = preferencesSchema.safeParse(parsed.preferences)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new PreferencesImportError(`Invalid value for ${issue.path.join('.')}: ${issue.message}`)
+  }
+  return result.data
+}
+
+export function toIndent(size: IndentSize): number | '\t' {
+  return size === 'tab' ? '\t' : Number(size)
+}
+
+/**
+ * Text of a number in the tree. Lossless numbers keep their digits; only
+ * integers among them are grouped.
+ */
+export function formatNumberForDisplay(value: number | LosslessNumber, format: NumberDisplayFormat): string {
+  if (format === 'plain') return String(value)
+  if (isLosslessNumber(value)) {
+    return /^-?\d+$/.test(value.value) ? BigInt(value.value).toLocaleString() : value.value
+  }
+  return Number.isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: 20 }) : String(value)
+}
+
+// Dates with a time need an offset to be shown in another zone; plain dates
+// are shown as they are
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i
+
+/**
+ * Text of an ISO 8601 date-time string in the tree, or null when the string
+ * is no such date or is shown as written.
+ */
+export function formatDateForDisplay(text: string, format: DateDisplayFormat): string | null {
+  if (format === 'source' || !ISO_DATE_TIME.test(text)) return null
+  const date = new Date(text.replace(' ', 'T'))
+  if (isNaN(date.getTime())) return null
+  return format === 'local'
+    ? date.toLocaleString()
+    : date.toISOString().replace('T', ' ').replace(/\.000Z$|Z$/, ' UTC')
+}
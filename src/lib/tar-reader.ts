@@ -0,0 +1,155 @@
+const BLOCK_SIZE = 512
+
+export interface TarEntry {
+  name: string
+  size: number
+  lastModified: number
+  data: Uint8Array
+}
+
+export class TarError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TarError'
+  }
+}
+
+/**
+ * Inflates gzip data as it streams in. Throws once more than `maxBytes`
+ * would be produced, so a small file cannot expand without bound.
+ * `onData` sees the running total after each chunk and may throw to stop
+ * inflating, e.g. when the data expands too much for its compressed size.
+ */
+export async function gunzip(
+  data: Blob,
+  maxBytes: number = Infinity,
+  onData?: (total: number) => void
+): Promise<Uint8Array> {
+  const reader = data.stream().pipeThrough(new DecompressionStream('gzip')).getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.length
+    try {
+      if (total > maxBytes) {
+        throw new TarError(`Decompressed data exceeds the limit of ${maxBytes.toLocaleString()} bytes`)
+      }
+      onData?.(total)
+    } catch (error) {
+      await reader.cancel()
+      throw error
+    }
+    chunks.push(value)
+  }
+
+  return concatChunks(chunks)
+}
+
+export function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let offset = 0
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  })
+  return bytes
+}
+
+/**
+ * Reads the uncompressed size a gzip stream declares in its trailer. It is
+ * stored modulo 2^32 and may be forged, so it only allows an early check.
+ */
+export async function readGzipDeclaredSize(data: Blob): Promise<number> {
+  if (data.size < 18) return 0
+  const trailer = new Uint8Array(await data.slice(data.size - 4).arrayBuffer())
+  return (trailer[0] | (trailer[1] << 8) | (trailer[2] << 16) | (trailer[3] << 24)) >>> 0
+}
+
+function readString(block: Uint8Array, start: number, length: number): string {
+  const field = block.subarray(start, start + length)
+  const end = field.indexOf(0)
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end))
+}
+
+// Numeric fields are octal text, or big-endian binary when the high bit of
+// the first byte is set (GNU tar's form for large files)
+function readNumber(block: Uint8Array, start: number, length: number): number {
+  if (block[start] & 0x80) {
+    let value = block[start] & 0x7f
+    for (let i = start + 1; i < start + length; i++) value = value * 256 + block[i]
+    return value
+  }
+  const text = readString(block, start, length).trim()
+  return text === '' ? 0 : parseInt(text, 8)
+}
+
+function isZeroBlock(block: Uint8Array): boolean {
+  return block.every(byte => byte === 0)
+}
+
+function hasValidChecksum(block: Uint8Array): boolean {
+  let sum = 0
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i]
+  }
+  return sum === readNumber(block, 148, 8)
+}
+
+// Pax headers are `<length> <key>=<value>\n` records
+function readPaxPath(data: Uint8Array): string | undefined {
+  const text = new TextDecoder().decode(data)
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(text)
+  return match?.[1]
+}
+
+/**
+ * Lists the regular files of a tar archive (ustar, GNU and pax). Long names
+ * from GNU `L` entries and pax `path` records are applied; directories,
+ * links and other special entries are left out.
+ */
+export function readTarEntries(bytes: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = []
+  let longName: string | undefined
+  let offset = 0
+
+  while (offset + BLOCK_SIZE <= bytes.length) {
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE)
+    if (isZeroBlock(header)) break
+    if (!hasValidChecksum(header)) {
+      throw new TarError(`Invalid tar header at byte ${offset}`)
+    }
+
+    const size = readNumber(header, 124, 12)
+    const dataStart = offset + BLOCK_SIZE
+    if (dataStart + size > bytes.length) {
+      throw new TarError(`Tar entry at byte ${offset} is truncated`)
+    }
+    const data = bytes.subarray(dataStart, dataStart + size)
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+
+    const type = String.fromCharCode(header[156])
+    if (type === 'L') {
+      longName = readString(data, 0, data.length)
+      continue
+    }
+    if (type === 'x') {
+      longName = readPaxPath(data) ?? longName
+      continue
+    }
+
+    const isUstar = readString(header, 257, 5) === 'ustar'
+    const prefix = isUstar ? readString(header, 345, 155) : ''
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100))
+    longName = undefined
+
+    if (type === '0' || type === '\0' || type === '7') {
+      entries.push({ name, size, lastModified: readNumber(header, 136, 12) * 1000, data })
+    }
+  }
+
+  return entries
+}
@@ -0,0 +1,202 @@
+import { TextEncoding } from '@/types'
+
+export const TEXT_ENCODINGS: Array<{ value: TextEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'utf-32le', label: 'UTF-32 LE' },
+  { value: 'utf-32be', label: 'UTF-32 BE' },
+  { value: 'latin1', label: 'Latin-1 (Windows-1252)' }
+]
+
+// Byte order marks, longest first so UTF-32 LE is not taken for UTF-16 LE
+const BOMS: Array<{ encoding: TextEncoding; bytes: number[] }> = [
+  { encoding: 'utf-32le', bytes: [0xff, 0xfe, 0x00, 0x00] },
+  { encoding: 'utf-32be', bytes: [0x00, 0x00, 0xfe, 0xff] },
+  { encoding: 'utf-8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf-16be', bytes: [0xfe, 0xff] }
+]
+
+// Bytes looked at to tell UTF-16 and UTF-32 without a BOM
+const SAMPLE_SIZE = 4096
+
+export interface DecodedText {
+  text: string
+  encoding: TextEncoding
+  hasBom: boolean
+}
+
+export class TextEncodingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TextEncodingError'
+  }
+}
+
+export function getEncodingLabel(encoding: TextEncoding): string {
+  return TEXT_ENCODINGS.find(option => option.value === encoding)?.label ?? encoding
+}
+
+export function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte)
+}
+
+function detectBom(bytes: Uint8Array): TextEncoding | null {
+  return BOMS.find(bom => startsWith(bytes, bom.bytes))?.encoding ?? null
+}
+
+// Text made of mostly ASCII characters has zero bytes in fixed positions
+// of each code unit when stored as UTF-16 or UTF-32
+function detectWideEncoding(bytes: Uint8Array): TextEncoding | null {
+  const sample = bytes.subarray(0, Math.min(bytes.length, SAMPLE_SIZE))
+
+  if (bytes.length % 4 === 0 && sample.length >= 4) {
+    let little = 0
+    let big = 0
+    for (let i = 0; i + 3 < sample.length; i += 4) {
+      if (sample[i + 1] === 0 && sample[i + 2] === 0 && sample[i + 3] === 0) little++
+      if (sample[i] === 0 && sample[i + 1] === 0 && sample[i + 2] === 0) big++
+    }
+    const units = Math.floor(sample.length / 4)
+    if (little > units / 2 && big === 0) return 'utf-32le'
+    if (big > units / 2 && little === 0) return 'utf-32be'
+  }
+
+  if (bytes.length % 2 === 0 && sample.length >= 2) {
+    let evenZeros = 0
+    let oddZeros = 0
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++
+      if (sample[i + 1] === 0) oddZeros++
+    }
+    const units = Math.floor(sample.length / 2)
+    if (oddZeros > units / 2 && evenZeros < units / 10) return 'utf-16le'
+    if (evenZeros > units / 2 && oddZeros < units / 10) return 'utf-16be'
+  }
+
+  return null
+}
+
+function decodeUtf32(bytes: Uint8Array, littleEndian: boolean): string {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const parts: string[] = []
+  let codePoints: number[] = []
+
+  for (let offset = 0; offset + 3 < bytes.length; offset += 4) {
+    const codePoint = view.getUint32(offset, littleEndian)
+    const isValid = codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff)
+    codePoints.push(isValid ? codePoint : 0xfffd)
+    if (codePoints.length === 0x2000) {
+      parts.push(String.fromCodePoint(...codePoints))
+      codePoints = []
+    }
+  }
+  if (bytes.length % 4 !== 0) codePoints.push(0xfffd) // Truncated last character
+  parts.push(String.fromCodePoint(...codePoints))
+  return parts.join('')
+}
+
+function decodeWith(bytes: Uint8Array, encoding: TextEncoding): string {
+  switch (encoding) {
+    case 'utf-32le':
+    case 'utf-32be':
+      return decodeUtf32(bytes, encoding === 'utf-32le')
+    case 'latin1':
+      return new TextDecoder('windows-1252').decode(bytes)
+    default:
+      return new TextDecoder(encoding, { ignoreBOM: true }).decode(bytes)
+  }
+}
+
+/**
+ * Decodes file bytes to text. A byte order mark decides the encoding and is
+ * dropped; otherwise UTF-16 and UTF-32 are recognized by their zero bytes,
+ * and anything that is not valid UTF-8 is read as Latin-1. Passing an
+ * encoding skips the detection.
+ */
+export function decodeText(bytes: Uint8Array, encoding?: TextEncoding): DecodedText {
+  if (encoding) {
+    const bom = BOMS.find(bom => bom.encoding === encoding)?.bytes ?? []
+    const hasBom = bom.length > 0 && startsWith(bytes, bom)
+    return { text: decodeWith(bytes.subarray(hasBom ? bom.length : 0), encoding), encoding, hasBom }
+  }
+
+  const bomEncoding = detectBom(bytes)
+  if (bomEncoding) return decodeText(bytes, bomEncoding)
+
+  const wideEncoding = detectWideEncoding(bytes)
+  if (wideEncoding) return { text: decodeWith(bytes, wideEncoding), encoding: wideEncoding, hasBom: false }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(bytes), encoding: 'utf-8', hasBom: false }
+  } catch {
+    return { text: decodeWith(bytes, 'latin1'), encoding: 'latin1', hasBom: false }
+  }
+}
+
+let latin1Bytes: Map<number, number> | undefined
+
+// Windows-1252 maps 0x80-0x9f to assorted characters; the table is built
+// from the decoder itself
+function getLatin1Bytes(): Map<number, number> {
+  if (!latin1Bytes) {
+    const all = new Uint8Array(256).map((_, i) => i)
+    const text = new TextDecoder('windows-1252').decode(all)
+    latin1Bytes = new Map(Array.from(text, (char, i) => [char.charCodeAt(0), i]))
+  }
+  return latin1Bytes
+}
+
+/**
+ * Encodes text back to bytes, optionally with a byte order mark. Throws
+ * `TextEncodingError` for characters Latin-1 cannot hold.
+ */
+export function encodeText(text: string, encoding: TextEncoding, withBom: boolean = false): Uint8Array {
+  const bom = withBom ? BOMS.find(bom => bom.encoding === encoding)?.bytes ?? [] : []
+  let body: Uint8Array
+
+  switch (encoding) {
+    case 'utf-8':
+      body = new TextEncoder().encode(text)
+      break
+    case 'utf-16le':
+    case 'utf-16be': {
+      body = new Uint8Array(text.length * 2)
+      const view = new DataView(body.buffer)
+      for (let i = 0; i < text.length; i++) view.setUint16(i * 2, text.charCodeAt(i), encoding === 'utf-16le')
+      break
+    }
+    case 'utf-32le':
+    case 'utf-32be': {
+      const codePoints = Array.from(text, char => char.codePointAt(0)!)
+      body = new Uint8Array(codePoints.length * 4)
+      const view = new DataView(body.buffer)
+      codePoints.forEach((codePoint, i) => view.setUint32(i * 4, codePoint, encoding === 'utf-32le'))
+      break
+    }
+    case 'latin1': {
+      const table = getLatin1Bytes()
+      body = new Uint8Array(text.length)
+      for (let i = 0; i < text.length; i++) {
+        const byte = table.get(text.charCodeAt(i))
+        if (byte === undefined) {
+          const char = String.fromCodePoint(text.codePointAt(i)!)
+          throw new TextEncodingError(`Character "${char}" at position ${i} cannot be written as Latin-1`)
+        }
+        body[i] = byte
+      }
+      break
+    }
+  }
+
+  if (bom.length === 0) return body
+  const bytes = new Uint8Array(bom.length + body.length)
+  bytes.set(bom)
+  bytes.set(body, bom.length)
+  return bytes
+}
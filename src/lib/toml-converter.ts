@@ -0,0 +1,160 @@
+import { parse, stringify, TomlDate, TomlError } from 'smol-toml'
+import { ExtendedType, ParseError } from '@/types'
+import { getSourceContext } from '@/lib/json-source-parser'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+import { isLosslessNumber, LosslessNumber } from '@/lib/lossless-number'
+
+export const TOML_EXTENSIONS = ['.toml']
+
+// Badges of TOML's four date/time kinds and of floats JSON cannot hold
+const TOML_DATE_TYPES = ['datetime', 'local datetime', 'local date', 'local time']
+const TOML_FLOAT_TYPE = 'float'
+
+const INT64_MIN = BigInt('-9223372036854775808')
+const INT64_MAX = BigInt('9223372036854775807')
+
+export class TomlExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TomlExportError'
+  }
+}
+
+// Writes a date as the text it is held as, without the milliseconds that
+// `toISOString` would add
+class TomlDateText extends TomlDate {
+  private readonly text: string
+
+  constructor(text: string) {
+    super(text)
+    this.text = text
+  }
+
+  toISOString(): string {
+    return this.text
+  }
+}
+
+export interface TomlDocument {
+  data: Record<string, any>
+  extendedTypes: ExtendedType[]
+}
+
+export function isTomlFile(fileName: string): boolean {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  return TOML_EXTENSIONS.includes(extension)
+}
+
+function getDateType(date: TomlDate): string {
+  if (date.isDateTime()) return date.isLocal() ? 'local datetime' : 'datetime'
+  return date.isDate() ? 'local date' : 'local time'
+}
+
+// Datetimes become their TOML text (without the milliseconds the date class
+// adds), 64-bit integers stay exact and nan/inf are kept as text
+function toJsonValue(value: any, path: string, extendedTypes: ExtendedType[]): any {
+  if (value instanceof TomlDate) {
+    extendedTypes.push({ path, type: getDateType(value) })
+    return value.toISOString().replace(/\.000(?=$|[Z+-])/, '')
+  }
+  if (typeof value === 'bigint') return new LosslessNumber(String(value))
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    extendedTypes.push({ path, type: TOML_FLOAT_TYPE })
+    return Number.isNaN(value) ? 'nan' : value > 0 ? 'inf' : '-inf'
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => toJsonValue(item, joinIndexPath(path, index), extendedTypes))
+  }
+  if (value !== null && typeof value === 'object') {
+    // The parser returns tables without a prototype
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => (
+      [key, toJsonValue(item, joinPropertyPath(path, key), extendedTypes)]
+    )))
+  }
+  return value
+}
+
+/**
+ * Parses a TOML document. Throws smol-toml's `TomlError`, which
+ * `toTomlParseError` turns into a positioned `ParseError`.
+ */
+export function loadToml(text: string): TomlDocument {
+  const extendedTypes: ExtendedType[] = []
+  const data = toJsonValue(parse(text, { integersAsBigInt: 'asNeeded' }), '', extendedTypes)
+  return { data, extendedTypes }
+}
+
+export function toTomlParseError(text: string, error: unknown): ParseError {
+  if (!(error instanceof TomlError)) {
+    return { message: `TOML Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}` }
+  }
+
+  // The message ends with a code frame; the context lines replace it
+  return {
+    message: `TOML Parse Error: ${error.message.split('\n')[0].replace(/^Invalid TOML document: /, '')}`,
+    line: error.line,
+    column: error.column,
+    context: getSourceContext(text, error.line)
+  }
+}
+
+function toTomlNumber(number: LosslessNumber, path: string): bigint {
+  if (/^-?\d+$/.test(number.value)) {
+    const integer = BigInt(number.value)
+    if (integer >= INT64_MIN && integer <= INT64_MAX) return integer
+    throw new TomlExportError(`${path}: ${number.value} does not fit in a 64-bit TOML integer`)
+  }
+  throw new TomlExportError(`${path}: ${number.value} cannot be written as a TOML float without losing precision`)
+}
+
+function toTomlValue(value: any, path: string, types: Map<string, string>): any {
+  const label = path || 'Root'
+  if (value === null || value === undefined) {
+    throw new TomlExportError(`${label}: TOML has no null value`)
+  }
+  if (isLosslessNumber(value)) return toTomlNumber(value, label)
+
+  if (typeof value === 'string') {
+    const type = types.get(path)
+    if (type && TOML_DATE_TYPES.includes(type)) {
+      const date = new TomlDateText(value)
+      if (date.isValid()) return date
+    }
+    if (type === TOML_FLOAT_TYPE && /^[-+]?(nan|inf)$/.test(value)) {
+      return value.endsWith('nan') ? NaN : value.startsWith('-') ? -Infinity : Infinity
+    }
+    return value
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => toTomlValue(item, joinIndexPath(path, index), types))
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => (
+      [key, toTomlValue(item, joinPropertyPath(path, key), types)]
+    )))
+  }
+  return value
+}
+
+/**
+ * Serializes `data` as TOML. Values listed in `extendedTypes` are written
+ * with their TOML type again, e.g. dates unquoted. Throws `TomlExportError`
+ * naming the first value TOML cannot represent, such as a null or a
+ * document that is not a table. Arrays may mix types, as TOML 1.0 allows.
+ */
+export function formatToml(data: any, extendedTypes: ExtendedType[] = []): string {
+  if (data === null || typeof data !== 'object' || isLosslessNumber(data)) {
+    throw new TomlExportError('A TOML document must be a table, not a single value')
+  }
+  if (Array.isArray(data)) {
+    throw new TomlExportError('A TOML document must be a table, not an array; wrap the items in a key')
+  }
+
+  const types = new Map(extendedTypes.map(({ path, type }) => [path, type]))
+  return stringify(toTomlValue(data, '', types))
+}
+
+export function toTomlFileName(fileName: string): string {
+  return fileName.replace(/\.[^./]*$/, '') + '.toml'
+}
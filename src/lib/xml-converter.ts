@@ -0,0 +1,177 @@
+import { XMLParser } from 'fast-xml-parser'
+import XMLBuilder from 'fast-xml-builder'
+import { SyntaxValidator } from 'fast-xml-validator'
+import { ParseError, XmlOptions } from '@/types'
+import { getSourceContext } from '@/lib/json-source-parser'
+import { joinIndexPath, joinPropertyPath } from '@/lib/json-tree-model'
+import { isJsonNumberLexeme, isLosslessNumber, toJsonNumber } from '@/lib/lossless-number'
+
+export const XML_EXTENSIONS = ['.xml']
+
+export const DEFAULT_XML_OPTIONS: XmlOptions = {
+  attributePrefix: '@',
+  textKey: '#text',
+  ignoreAttributes: false,
+  alwaysArray: false,
+  namespaces: 'keep',
+  coerceTypes: true
+}
+
+// Conventions of common XML/JSON mappings (BadgerFish-like, xml2js, ...)
+export const XML_ATTRIBUTE_PREFIXES = ['@', '_', '-', '$']
+export const XML_TEXT_KEYS = ['#text', '_text', '$t', '$']
+
+// Element used when a document has no single root to write
+const ROOT_ELEMENT = 'root'
+const ITEM_ELEMENT = 'item'
+
+const XML_NAME_PATTERN = /^[\p{L}_][\p{L}\p{N}_.-]*(?::[\p{L}_][\p{L}\p{N}_.-]*)?$/u
+
+export class XmlExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'XmlExportError'
+  }
+}
+
+export function isXmlFile(fileName: string): boolean {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  return XML_EXTENSIONS.includes(extension)
+}
+
+function mapStrings(value: any, map: (text: string) => any): any {
+  if (typeof value === 'string') return map(value)
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map))
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]))
+  }
+  return value
+}
+
+function coerceText(text: string): any {
+  if (text === 'true') return true
+  if (text === 'false') return false
+  return isJsonNumberLexeme(text) ? toJsonNumber(text) : text
+}
+
+/**
+ * Converts an XML document to JSON with the given mapping. Throws the
+ * validator's error for malformed XML, which `toXmlParseError` turns into a
+ * positioned `ParseError`.
+ */
+export function loadXml(text: string, options: XmlOptions = DEFAULT_XML_OPTIONS): any {
+  SyntaxValidator.validate(text)
+
+  const parser = new XMLParser({
+    ignoreAttributes: options.ignoreAttributes,
+    attributeNamePrefix: options.attributePrefix,
+    textNodeName: options.textKey,
+    removeNSPrefix: options.namespaces === 'strip',
+    // The root element stays an object
+    isArray: (_name, jPath, _isLeaf, isAttribute) =>
+      options.alwaysArray && !isAttribute && String(jPath).includes('.'),
+    // Values are typed below so big numbers stay exact and "007" stays text
+    parseTagValue: false,
+    parseAttributeValue: false,
+    ignoreDeclaration: true,
+    ignorePiTags: true
+  })
+
+  const data = parser.parse(text)
+  return options.coerceTypes ? mapStrings(data, coerceText) : data
+}
+
+export function toXmlParseError(text: string, error: unknown): ParseError {
+  const { line, col } = (error ?? {}) as { line?: unknown; col?: unknown }
+  const message = `XML Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+  if (typeof line !== 'number') return { message }
+
+  return {
+    message,
+    line,
+    column: typeof col === 'number' ? col : undefined,
+    context: getSourceContext(text, line)
+  }
+}
+
+function checkName(name: string, path: string, kind: string): void {
+  if (!XML_NAME_PATTERN.test(name)) {
+    throw new XmlExportError(`${path || 'Root'}: "${name}" is not a valid XML ${kind} name`)
+  }
+}
+
+// Checks the names the builder would write and turns values it cannot write
+// into text. `path` is the tree path in the original data, for messages.
+function prepareElement(value: any, path: string, options: XmlOptions): any {
+  if (isLosslessNumber(value)) return value.value
+  if (value === null || typeof value !== 'object') return value ?? ''
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => {
+      const itemPath = joinIndexPath(path, index)
+      if (Array.isArray(item)) {
+        throw new XmlExportError(`${itemPath}: arrays of arrays have no XML form`)
+      }
+      return prepareElement(item, itemPath, options)
+    })
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+    const memberPath = joinPropertyPath(path, key)
+    if (key === options.textKey) {
+      return [key, prepareElement(item, memberPath, options)]
+    }
+    if (options.attributePrefix && key.startsWith(options.attributePrefix)) {
+      checkName(key.slice(options.attributePrefix.length), memberPath, 'attribute')
+      if (item !== null && typeof item === 'object' && !isLosslessNumber(item)) {
+        throw new XmlExportError(`${memberPath}: attribute values must be text, numbers or booleans`)
+      }
+      return [key, prepareElement(item, memberPath, options)]
+    }
+    checkName(key, memberPath, 'element')
+    return [key, prepareElement(item, memberPath, options)]
+  }))
+}
+
+function isElementName(key: string, options: XmlOptions): boolean {
+  if (key === options.textKey) return false
+  if (options.attributePrefix && key.startsWith(options.attributePrefix)) return false
+  return XML_NAME_PATTERN.test(key)
+}
+
+// XML needs exactly one root element; anything else is wrapped in <root>,
+// with the items of an array as <item> elements
+function toRootElement(data: any, options: XmlOptions): Record<string, any> {
+  if (Array.isArray(data)) {
+    return { [ROOT_ELEMENT]: { [ITEM_ELEMENT]: prepareElement(data, '', options) } }
+  }
+  if (data !== null && typeof data === 'object' && !isLosslessNumber(data)) {
+    const keys = Object.keys(data)
+    if (keys.length === 1 && isElementName(keys[0], options) && !Array.isArray(data[keys[0]])) {
+      return prepareElement(data, '', options)
+    }
+  }
+  return { [ROOT_ELEMENT]: prepareElement(data, '', options) }
+}
+
+/**
+ * Serializes `data` as XML with the same mapping used to read it: prefixed
+ * keys become attributes, `textKey` becomes the element text and arrays
+ * become repeated elements. Throws `XmlExportError` naming the first value
+ * that XML cannot represent.
+ */
+export function formatXml(data: any, options: XmlOptions = DEFAULT_XML_OPTIONS): string {
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: options.attributePrefix,
+    textNodeName: options.textKey,
+    format: true,
+    indentBy: '  ',
+    suppressEmptyNode: true
+  })
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${builder.build(toRootElement(data, options))}`
+}
+
+export function toXmlFileName(fileName: string): string {
+  return fileName.replace(/\.[^./]*$/, '') + '.xml'
+}
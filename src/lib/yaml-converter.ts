@@ -0,0 +1,148 @@
+import yaml from 'js-yaml'
+import { ParseError } from '@/types'
+import { getSourceContext } from '@/lib/json-source-parser'
+import { LosslessNumber, toJsonNumber } from '@/lib/lossless-number'
+
+export const YAML_EXTENSIONS = ['.yaml', '.yml']
+
+// Same definition as js-yaml's own merge type, which its typings do not expose
+const MERGE_KEY_TYPE = new yaml.Type('tag:yaml.org,2002:merge', {
+  kind: 'scalar',
+  resolve: (data: any) => data === '<<' || data === null
+})
+
+// Integers and floats of the YAML 1.2 core schema. js-yaml's own types read
+// them as doubles; these keep the lexeme of any number a double would change.
+const YAML_INT_PATTERN = /^[-+]?(?:[0-9]+|0b[01]+|0o[0-7]+|0x[0-9a-fA-F]+)$/
+const YAML_FLOAT_PATTERN = /^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/
+const YAML_SPECIAL_FLOATS = new Map([['.inf', Infinity], ['+.inf', Infinity], ['-.inf', -Infinity], ['.nan', NaN]])
+
+// Rewrites a YAML number as a JSON lexeme so precision checks apply to it
+function toYamlNumber(lexeme: string): number | LosslessNumber {
+  const sign = lexeme.startsWith('-') ? '-' : ''
+  const unsigned = lexeme.replace(/^[-+]/, '')
+  const decimal = /^0[box]/.test(unsigned)
+    ? BigInt(unsigned).toString()
+    : unsigned.replace(/^\./, '0.').replace(/\.(?=[eE]|$)/, '').replace(/^0+(?=\d)/, '')
+  return toJsonNumber(sign + decimal)
+}
+
+const LOSSLESS_INT_TYPE = new yaml.Type('tag:yaml.org,2002:int', {
+  kind: 'scalar',
+  resolve: (data: any) => typeof data === 'string' && YAML_INT_PATTERN.test(data),
+  construct: toYamlNumber
+})
+
+const LOSSLESS_FLOAT_TYPE = new yaml.Type('tag:yaml.org,2002:float', {
+  kind: 'scalar',
+  resolve: (data: any) => typeof data === 'string' &&
+    (YAML_FLOAT_PATTERN.test(data) || YAML_SPECIAL_FLOATS.has(data.toLowerCase())),
+  construct: (data: string) => YAML_SPECIAL_FLOATS.get(data.toLowerCase()) ?? toYamlNumber(data)
+})
+
+// Lets the dumper write lossless numbers as plain scalars. Its own tag keeps
+// js-yaml's float type in place for ordinary numbers.
+const LOSSLESS_NUMBER_TYPE = new yaml.Type('tag:jviewpro:lossless-number', {
+  kind: 'scalar',
+  resolve: () => false,
+  instanceOf: LosslessNumber,
+  represent: (number: object) => (number as LosslessNumber).value
+})
+
+// YAML 1.2 core types plus `<<` merge keys. Timestamps, binary and sets are
+// left out because they have no JSON equivalent; such values stay strings.
+const YAML_SCHEMA = yaml.CORE_SCHEMA.extend({ implicit: [MERGE_KEY_TYPE] })
+const YAML_LOAD_SCHEMA = YAML_SCHEMA.extend({ implicit: [LOSSLESS_INT_TYPE, LOSSLESS_FLOAT_TYPE] })
+const YAML_DUMP_SCHEMA = YAML_SCHEMA.extend({ implicit: [LOSSLESS_NUMBER_TYPE] })
+
+// Aliases share one value, but each use is a full copy once the data is
+// walked or written out, so a few nested aliases can stand for billions of
+// nodes
+const MAX_ALIAS_NODES = 1_000_000
+
+export function isYamlFile(fileName: string): boolean {
+  const extension = '.' + fileName.split('.').pop()?.toLowerCase()
+  return YAML_EXTENSIONS.includes(extension)
+}
+
+/**
+ * Loads every document of a YAML stream. Throws js-yaml's `YAMLException`,
+ * which `toYamlParseError` turns into a positioned `ParseError`, also when
+ * aliases expand to more than `MAX_ALIAS_NODES` nodes.
+ */
+export function loadYamlDocuments(text: string): any[] {
+  // Nodes each collection stands for once its aliases are expanded
+  const expandedSizes = new WeakMap<object, number>()
+  const starts: number[] = []
+  let aliasNodes = 0
+
+  const listener = (event: 'open' | 'close', state: yaml.State) => {
+    if (event === 'open') {
+      starts.push(state.position)
+      return
+    }
+
+    const start = starts.pop() ?? state.position
+    const value = state.result
+    if (value === null || typeof value !== 'object') return
+
+    const size = expandedSizes.get(value)
+    if (size === undefined) {
+      // First close of a collection; its items have closed before it
+      const items: any[] = Array.isArray(value) ? value : Object.values(value)
+      expandedSizes.set(value, items.reduce<number>((total, item) => total + (expandedSizes.get(item) ?? 1), 1))
+      return
+    }
+
+    // A collection that closes again was reached through an alias
+    aliasNodes += size
+    if (aliasNodes > MAX_ALIAS_NODES) {
+      const line = text.slice(0, start).split('\n').length - 1
+      throw new yaml.YAMLException(
+        `Aliases expand to more than ${MAX_ALIAS_NODES.toLocaleString()} nodes`,
+        { name: '', buffer: text, snippet: '', position: start, line, column: start - text.lastIndexOf('\n', start - 1) - 1 }
+      )
+    }
+  }
+
+  return yaml.loadAll(text, null, { schema: YAML_LOAD_SCHEMA, listener })
+}
+
+export function toYamlParseError(text: string, error: unknown): ParseError {
+  if (!(error instanceof yaml.YAMLException)) {
+    return { message: `YAML Parse Error: ${error instanceof Error ? error.message : 'Unknown error'}` }
+  }
+
+  // js-yaml marks are 0-based
+  const { mark } = error
+  const line = mark ? mark.line + 1 : undefined
+  return {
+    message: `YAML Parse Error: ${error.reason}`,
+    offset: mark?.position,
+    line,
+    column: mark ? mark.column + 1 : undefined,
+    context: line !== undefined ? getSourceContext(text, line) : undefined
+  }
+}
+
+/**
+ * Serializes `data` as YAML. With `multiDocument`, `data` must be an array
+ * and each item becomes a document of the stream.
+ */
+export function formatYaml(data: any, multiDocument: boolean = false): string {
+  const dump = (value: any) => yaml.dump(value, {
+    schema: YAML_DUMP_SCHEMA,
+    indent: 2,
+    lineWidth: -1, // Never fold long strings
+    noRefs: true // Shared objects are written out again instead of as anchors
+  })
+
+  if (multiDocument && Array.isArray(data)) {
+    return data.map(document => `---\n${dump(document)}`).join('')
+  }
+  return dump(data)
+}
+
+export function toYamlFileName(fileName: string): string {
+  return fileName.replace(/\.[^./]*$/, '') + '.yaml'
+}
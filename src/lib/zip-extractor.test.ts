@@ -0,0 +1,134 @@
+import { gzipSync } from 'node:zlib'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import JSZip from 'jszip'
+import { extractArchiveFile } from '@/lib/zip-extractor'
+
+const MB = 1024 * 1024
+
+// Zeros compress about a thousandfold
+function zeros(size: number): Uint8Array {
+  return new Uint8Array(size)
+}
+
+// Random bytes do not compress, so stored and compressed sizes match
+function noise(size: number): Uint8Array {
+  const bytes = new Uint8Array(size)
+  for (let i = 0; i < size; i++) bytes[i] = (i * 7919 + (i >> 3) * 104729) & 0xff
+  return bytes
+}
+
+async function createZip(entries: Record<string, Uint8Array | string>): Promise<Uint8Array> {
+  const zip = new JSZip()
+  Object.entries(entries).forEach(([name, content]) => zip.file(name, content))
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+}
+
+// Overwrites the uncompressed size in the local and central directory
+// headers, as a crafted archive would
+function forgeDeclaredSize(zip: Uint8Array, size: number): Uint8Array {
+  const forged = zip.slice()
+  const view = new DataView(forged.buffer)
+  for (let offset = 0; offset + 4 <= forged.length; offset++) {
+    const signature = view.getUint32(offset, true)
+    if (signature === 0x04034b50) view.setUint32(offset + 22, size, true)
+    if (signature === 0x02014b50) view.setUint32(offset + 24, size, true)
+  }
+  return forged
+}
+
+function toFile(bytes: Uint8Array, name: string): File {
+  return new File([new Uint8Array(bytes)], name)
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('extractArchiveFile limits', () => {
+  it('stops an entry whose declared size understates how far it inflates', async () => {
+    const zip = forgeDeclaredSize(await createZip({ 'big.json': zeros(4 * MB) }), 100)
+    const result = await extractArchiveFile(toFile(zip, 'forged.zip'))
+
+    expect(result.files).toHaveLength(0)
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatch(/^Skipped big\.json: Compression ratio of \d+:1 exceeds the limit of 100:1$/)
+  })
+
+  it('rejects an entry whose declared size exceeds the file limit before inflating it', async () => {
+    const zip = forgeDeclaredSize(await createZip({ 'big.json': '{}' }), 20 * MB)
+    const result = await extractArchiveFile(toFile(zip, 'forged.zip'))
+
+    expect(result.errors).toEqual(['Skipped big.json: Declared size of 20MB exceeds the limit of 10MB'])
+  })
+
+  it('rejects entries past the compression ratio limit', async () => {
+    const zip = await createZip({ 'zeros.json': zeros(2 * MB), 'small.json': '{"ok":true}' })
+    const result = await extractArchiveFile(toFile(zip, 'bomb.zip'))
+
+    expect(result.files.map(file => file.name)).toEqual(['small.json'])
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatch(/^Skipped zeros\.json: Compression ratio of \d+:1 exceeds the limit of 100:1$/)
+  })
+
+  it('checks the ratio of a gzip file while inflating, whatever its trailer declares', async () => {
+    const gzip = gzipSync(zeros(4 * MB))
+    // The trailer holds the uncompressed size modulo 2^32
+    new DataView(gzip.buffer, gzip.byteOffset).setUint32(gzip.length - 4, 100, true)
+    const result = await extractArchiveFile(toFile(gzip, 'big.json.gz'))
+
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatch(/^Skipped big\.json: Compression ratio of \d+:1 exceeds the limit of 100:1$/)
+  })
+
+  it('shares the total size limit between entries', async () => {
+    const zip = await createZip({ 'a.json': noise(600), 'b.json': noise(600) })
+    const result = await extractArchiveFile(toFile(zip, 'total.zip'), { maxTotalSize: 1000 })
+
+    expect(result.files.map(file => file.name)).toEqual(['a.json'])
+    expect(result.errors).toEqual([
+      'Skipped b.json: Declared size of 600 bytes exceeds the 400 bytes left for all extracted files'
+    ])
+  })
+
+  it('does not inflate a compressed file of an unsupported type', async () => {
+    const inner = gzipSync(zeros(64 * 1024))
+    const zip = await createZip({ 'image.png.gz': inner, 'data.json': noise(600) })
+    const result = await extractArchiveFile(toFile(zip, 'mixed.zip'), { maxTotalSize: inner.length + 1000 })
+
+    expect(result.files.map(file => file.name)).toEqual(['data.json'])
+    expect(result.warnings).toContain('Skipped image.png.gz/image.png: Unsupported file type')
+  })
+
+  it('skips entries with absolute paths or paths outside the archive', async () => {
+    const zip = await createZip({ '../evil.json': '{}', '/etc/abs.json': '{}', 'ok/../safe.json': '{}' })
+    const result = await extractArchiveFile(toFile(zip, 'slip.zip'))
+
+    expect(result.files.map(file => file.name)).toEqual(['safe.json'])
+    expect(result.errors).toEqual([
+      'Skipped ../evil.json: Unsafe path (absolute or outside the archive)',
+      'Skipped /etc/abs.json: Unsafe path (absolute or outside the archive)'
+    ])
+  })
+
+  it('stops extracting entries after the time limit', async () => {
+    const zip = await createZip({ 'a.json': '{}', 'b.json': '{}' })
+    // The clock passes the deadline right after it is set
+    let calls = 0
+    vi.spyOn(Date, 'now').mockImplementation(() => (calls++ === 0 ? 0 : 60_000))
+    const result = await extractArchiveFile(toFile(zip, 'slow.zip'))
+
+    expect(result.files).toHaveLength(0)
+    expect(result.errors).toEqual(['Extraction stopped after 30s; 2 more entries in slow.zip were not extracted'])
+  })
+
+  it('stops an entry that is still inflating at the time limit', async () => {
+    const gzip = gzipSync(noise(256 * 1024))
+    // The deadline and the check before the entry see the start time
+    let calls = 0
+    vi.spyOn(Date, 'now').mockImplementation(() => (calls++ < 2 ? 0 : 60_000))
+    const result = await extractArchiveFile(toFile(gzip, 'slow.json.gz'))
+
+    expect(result.files).toHaveLength(0)
+    expect(result.errors).toEqual(['Skipped slow.json: Extraction stopped after 30s'])
+  })
+})
@@ -1,9 +1,18 @@
 import JSZip from 'jszip'
 import { FileData } from '@/types'
+import { generateId } from '@/lib/utils'
+import { getDocumentFormat, getDefaultParseMode, DOCUMENT_EXTENSIONS } from '@/lib/json-parser'
+import { bytesToBase64, isBinaryFile } from '@/lib/binary-converter'
+import { decodeText } from '@/lib/text-encoding'
+import { concatChunks, gunzip, readGzipDeclaredSize, readTarEntries } from '@/lib/tar-reader'
 
 export interface ZipExtractionOptions {
   maxFileSize?: number
   maxFiles?: number
+  maxDepth?: number // Levels of archives inside archives to extract; 0 leaves nested archives alone
+  maxTotalSize?: number // Bytes all entries may inflate to, nested archives and skipped entries included
+  maxCompressionRatio?: number // Largest uncompressed-to-compressed size ratio of an entry
+  maxExtractionTime?: number // Milliseconds after which the remaining entries are left out
   supportedExtensions?: string[]
   onProgress?: (progress: number, current: string) => void
 }
@@ -16,113 +25,501 @@ export interface ZipExtractionResult {
   totalSkipped: number
 }
 
+type ArchiveKind = 'zip' | 'tar' | 'gzip'
+
+// Names `isArchiveFile` recognizes without a MIME type
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.gz', '.tgz']
+
 const DEFAULT_OPTIONS: Required<ZipExtractionOptions> = {
   maxFileSize: 10 * 1024 * 1024, // 10MB
   maxFiles: 50,
-  supportedExtensions: ['.json', '.txt'],
+  maxDepth: 3,
+  maxTotalSize: 100 * 1024 * 1024, // 100MB
+  maxCompressionRatio: 100,
+  maxExtractionTime: 30 * 1000,
+  supportedExtensions: DOCUMENT_EXTENSIONS,
   onProgress: () => {}
 }
 
-export async function extractZipFile(
-  file: File,
-  options: ZipExtractionOptions = {}
-): Promise<ZipExtractionResult> {
-  const opts = { ...DEFAULT_OPTIONS, ...options }
-  const result: ZipExtractionResult = {
+// Small entries compress well without being suspicious; the ratio limit
+// only applies from this size on
+const RATIO_CHECK_MIN_SIZE = 1024 * 1024
+
+// A file inside an archive; its content is only read once the name and the
+// declared sizes pass
+interface ArchiveEntry {
+  name: string
+  lastModified?: number
+  size?: number // Uncompressed size the archive declares
+  compressedSize?: number
+  // Throws `ExtractionLimitError` past `maxBytes`; bytes it inflates count
+  // towards the total size
+  read: (maxBytes: number) => Promise<Uint8Array>
+}
+
+// JSZip's chunked reader, which its typings leave out
+interface ZipObjectStream {
+  on(event: 'data', callback: (chunk: Uint8Array) => void): ZipObjectStream
+  on(event: 'end', callback: () => void): ZipObjectStream
+  on(event: 'error', callback: (error: Error) => void): ZipObjectStream
+  pause(): ZipObjectStream
+  resume(): ZipObjectStream
+}
+
+class ExtractionLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExtractionLimitError'
+  }
+}
+
+// State shared by an uploaded archive and the archives nested in it
+interface ExtractionContext {
+  opts: Required<ZipExtractionOptions>
+  result: ZipExtractionResult
+  archiveName: string // The uploaded archive
+  archiveId: string
+  progress: number // Of the uploaded archive's entries; nested archives report within it
+  totalSize: number // Bytes inflated so far
+  deadline: number
+}
+
+function createResult(): ZipExtractionResult {
+  return {
     files: [],
     errors: [],
     warnings: [],
     totalExtracted: 0,
     totalSkipped: 0
   }
+}
 
-  try {
-    // Load the ZIP file
-    const zip = new JSZip()
-    const zipContent = await zip.loadAsync(file)
-
-    // Get all files in the ZIP
-    const zipFiles = Object.keys(zipContent.files)
-      .map(name => zipContent.files[name])
-      .filter(zipFile => !zipFile.dir) // Skip directories
-      .slice(0, opts.maxFiles) // Limit number of files
-
-    if (zipFiles.length === 0) {
-      result.warnings.push('ZIP file contains no extractable files')
-      return result
-    }
+function getArchiveKind(name: string, type: string = ''): ArchiveKind | null {
+  const lowerName = name.toLowerCase()
+  if (type === 'application/zip' || type === 'application/x-zip-compressed' || lowerName.endsWith('.zip')) return 'zip'
+  if (type === 'application/gzip' || type === 'application/x-gzip' || lowerName.endsWith('.gz') || lowerName.endsWith('.tgz')) return 'gzip'
+  if (type === 'application/x-tar' || lowerName.endsWith('.tar')) return 'tar'
+  return null
+}
+
+function getArchiveLabel(kind: ArchiveKind): string {
+  return kind === 'gzip' ? 'gzip' : kind.toUpperCase()
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`
+  return `${Math.round(bytes / (1024 * 1024))}MB`
+}
+
+/**
+ * Normalizes the path of an archive entry: backslashes become slashes and
+ * `.` segments and inner `..` segments are resolved. Returns null for
+ * absolute paths and paths that climb out of the archive ("zip slip").
+ */
+export function sanitizeEntryPath(path: string): string | null {
+  const normalized = path.replace(/\\/g, '/')
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) return null
 
-    if (Object.keys(zipContent.files).length > opts.maxFiles) {
-      result.warnings.push(`ZIP contains ${Object.keys(zipContent.files).length} files, only processing first ${opts.maxFiles}`)
+  const segments: string[] = []
+  for (const segment of normalized.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      if (segments.length === 0) return null
+      segments.pop()
+    } else {
+      segments.push(segment)
     }
+  }
+  return segments.length > 0 ? segments.join('/') : null
+}
 
-    // Process each file
-    for (let i = 0; i < zipFiles.length; i++) {
-      const zipFile = zipFiles[i]
-      const fileName = zipFile.name
-      
-      opts.onProgress(((i + 1) / zipFiles.length) * 100, fileName)
-
-      try {
-        // Check file extension
-        const fileExtension = '.' + fileName.split('.').pop()?.toLowerCase()
-        if (!opts.supportedExtensions.includes(fileExtension)) {
-          result.totalSkipped++
-          result.warnings.push(`Skipped ${fileName}: Unsupported file type`)
-          continue
-        }
+function checkCompressionRatio(size: number, compressedSize: number | undefined, context: ExtractionContext): void {
+  if (compressedSize === undefined || size < RATIO_CHECK_MIN_SIZE) return
+  const { maxCompressionRatio } = context.opts
+  const ratio = size / Math.max(compressedSize, 1)
+  if (ratio > maxCompressionRatio) {
+    throw new ExtractionLimitError(
+      `Compression ratio of ${Math.round(ratio)}:1 exceeds the limit of ${maxCompressionRatio}:1`
+    )
+  }
+}
 
-        // Extract file content
-        const content = await zipFile.async('string')
-        
-        // Check actual content size
-        if (content.length > opts.maxFileSize) {
-          result.totalSkipped++
-          result.warnings.push(`Skipped ${fileName}: Extracted content too large (${Math.round(content.length / (1024 * 1024))}MB)`)
-          continue
+function checkDeadline(context: ExtractionContext): void {
+  if (Date.now() > context.deadline) {
+    throw new ExtractionLimitError(`Extraction stopped after ${Math.round(context.opts.maxExtractionTime / 1000)}s`)
+  }
+}
+
+// Checks the sizes an entry declares before anything is inflated. They may
+// be forged, so `checkInflation` checks the real sizes again while inflating
+function checkDeclaredSize(
+  size: number | undefined,
+  compressedSize: number | undefined,
+  maxBytes: number,
+  context: ExtractionContext
+): void {
+  if (size === undefined) return
+  const { maxTotalSize } = context.opts
+
+  const remainingSize = Math.max(maxTotalSize - context.totalSize, 0)
+  if (size > maxBytes) {
+    throw new ExtractionLimitError(
+      size > remainingSize
+        ? `Declared size of ${formatSize(size)} exceeds the ${formatSize(remainingSize)} left for all extracted files`
+        : `Declared size of ${formatSize(size)} exceeds the limit of ${formatSize(maxBytes)}`
+    )
+  }
+  checkCompressionRatio(size, compressedSize, context)
+}
+
+// Runs after every inflated chunk: charges it to the total size and stops
+// at the size limit, the ratio limit and the deadline
+function checkInflation(
+  chunkSize: number,
+  total: number,
+  compressedSize: number,
+  maxBytes: number,
+  context: ExtractionContext
+): void {
+  context.totalSize += chunkSize
+  if (total > maxBytes) {
+    throw new ExtractionLimitError(`Content exceeds the limit of ${formatSize(maxBytes)}`)
+  }
+  checkCompressionRatio(total, compressedSize, context)
+  checkDeadline(context)
+}
+
+function readLimited(bytes: Uint8Array, maxBytes: number): Uint8Array {
+  if (bytes.length > maxBytes) {
+    throw new ExtractionLimitError(`Content exceeds the limit of ${formatSize(maxBytes)}`)
+  }
+  return bytes
+}
+
+// Inflates a ZIP entry chunk by chunk, so one whose header understates its
+// size stops at `maxBytes` instead of filling memory
+function readZipObject(
+  zipFile: JSZip.JSZipObject,
+  compressedSize: number,
+  maxBytes: number,
+  context: ExtractionContext
+): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = []
+    let total = 0
+    const stream = (zipFile as unknown as { internalStream(type: 'uint8array'): ZipObjectStream })
+      .internalStream('uint8array')
+
+    stream
+      .on('data', chunk => {
+        total += chunk.length
+        try {
+          checkInflation(chunk.length, total, compressedSize, maxBytes, context)
+        } catch (error) {
+          stream.pause()
+          reject(error)
+          return
         }
+        chunks.push(chunk)
+      })
+      .on('error', reject)
+      .on('end', () => resolve(concatChunks(chunks)))
+      .resume()
+  })
+}
+
+// Inflates a gzip stream with the same checks as ZIP entries
+function readGzip(data: Blob, maxBytes: number, context: ExtractionContext): Promise<Uint8Array> {
+  let previous = 0
+  return gunzip(data, Infinity, total => {
+    checkInflation(total - previous, total, data.size, maxBytes, context)
+    previous = total
+  })
+}
+
+async function extractEntries(
+  entries: ArchiveEntry[],
+  prefix: string, // Path of the archive inside the uploaded one, e.g. `logs/day1.zip/`
+  depth: number,
+  context: ExtractionContext
+): Promise<void> {
+  const { opts, result } = context
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    const archivePath = prefix ? prefix.slice(0, -1) : context.archiveName
+
+    if (Date.now() > context.deadline) {
+      const remaining = entries.length - i
+      result.totalSkipped += remaining
+      result.errors.push(
+        `Extraction stopped after ${Math.round(opts.maxExtractionTime / 1000)}s; ${remaining} more ` +
+        `${remaining === 1 ? 'entry' : 'entries'} in ${archivePath} ${remaining === 1 ? 'was' : 'were'} not extracted`
+      )
+      return
+    }
+
+    const path = sanitizeEntryPath(entry.name)
+    if (path === null) {
+      result.totalSkipped++
+      result.errors.push(`Skipped ${prefix}${entry.name}: Unsafe path (absolute or outside the archive)`)
+      continue
+    }
+    const fileName = prefix + path
+
+    if (result.files.length >= opts.maxFiles) {
+      const remaining = entries.length - i
+      result.totalSkipped += remaining
+      result.warnings.push(
+        `Stopped at the limit of ${opts.maxFiles} files; ${remaining} more ` +
+        `${remaining === 1 ? 'entry' : 'entries'} in ${archivePath} ` +
+        `${remaining === 1 ? 'was' : 'were'} not extracted`
+      )
+      return
+    }
 
-        if (content.length === 0) {
+    if (depth === 0) context.progress = ((i + 1) / entries.length) * 100
+    opts.onProgress(context.progress, fileName)
+
+    try {
+      const remainingSize = opts.maxTotalSize - context.totalSize
+
+      // Archives inside the archive become folders of their own
+      const nestedKind = getArchiveKind(path)
+      if (nestedKind) {
+        if (depth >= opts.maxDepth) {
           result.totalSkipped++
-          result.warnings.push(`Skipped ${fileName}: File is empty`)
+          result.warnings.push(`Skipped ${fileName}: Archives nested more than ${opts.maxDepth} level${opts.maxDepth === 1 ? '' : 's'} deep are not extracted`)
           continue
         }
+        checkDeclaredSize(entry.size, entry.compressedSize, remainingSize, context)
+        const bytes = await entry.read(remainingSize)
+        await extractArchive(new Blob([new Uint8Array(bytes)]), path, nestedKind, `${fileName}/`, depth + 1, context)
+        continue
+      }
 
-        // Create FileData object
-        const extractedFile: FileData = {
-          name: fileName,
-          size: content.length,
-          type: fileExtension,
-          content: content,
-          lastModified: zipFile.date?.getTime() || Date.now(),
-          extractedFrom: file.name
-        }
+      // Check file extension
+      const fileExtension = '.' + fileName.split('.').pop()?.toLowerCase()
+      if (!opts.supportedExtensions.includes(fileExtension)) {
+        result.totalSkipped++
+        result.warnings.push(`Skipped ${fileName}: Unsupported file type`)
+        continue
+      }
 
-        result.files.push(extractedFile)
-        result.totalExtracted++
+      // Extract file content; binary formats are kept as base64 and text is
+      // decoded in the encoding it was detected in
+      const maxBytes = Math.min(opts.maxFileSize, remainingSize)
+      checkDeclaredSize(entry.size, entry.compressedSize, maxBytes, context)
+      const bytes = await entry.read(maxBytes)
+      const text = isBinaryFile(fileName) ? null : decodeText(bytes)
+      const content = text ? text.text : bytesToBase64(bytes)
+      const size = bytes.length
 
-      } catch (error) {
+      if (size === 0) {
         result.totalSkipped++
-        result.errors.push(`Failed to extract ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        result.warnings.push(`Skipped ${fileName}: File is empty`)
+        continue
       }
-    }
 
-    // Final validation
-    if (result.files.length === 0 && result.errors.length === 0) {
-      result.warnings.push('No compatible files found in ZIP archive')
+      // Create FileData object
+      const extractedFile: FileData = {
+        id: generateId(),
+        name: fileName,
+        size,
+        type: fileExtension,
+        content: content,
+        encoding: text?.encoding,
+        hasBom: text?.hasBom,
+        lastModified: entry.lastModified || Date.now(),
+        format: getDocumentFormat(fileName, content),
+        parseMode: getDefaultParseMode(fileName),
+        extractedFrom: context.archiveName,
+        archiveId: context.archiveId
+      }
+
+      result.files.push(extractedFile)
+      result.totalExtracted++
+
+    } catch (error) {
+      result.totalSkipped++
+      if (error instanceof ExtractionLimitError) {
+        result.errors.push(`Skipped ${fileName}: ${error.message}`)
+        continue
+      }
+      result.errors.push(`Failed to extract ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
+  }
+}
 
+async function readZipEntries(data: Blob, context: ExtractionContext): Promise<ArchiveEntry[]> {
+  const zip = await new JSZip().loadAsync(await data.arrayBuffer())
+  return Object.values(zip.files)
+    .filter(zipFile => !zipFile.dir) // Skip directories
+    .map(zipFile => {
+      // Sizes from the central directory, kept in a private JSZip field.
+      // Entries cannot hold more compressed data than the archive does.
+      const sizes = (zipFile as unknown as { _data?: { compressedSize?: number; uncompressedSize?: number } })._data
+      const compressedSize = Math.min(sizes?.compressedSize ?? data.size, data.size)
+      return {
+        // JSZip resolves `..` itself; the original name is checked instead
+        name: zipFile.unsafeOriginalName ?? zipFile.name,
+        lastModified: zipFile.date?.getTime(),
+        size: sizes?.uncompressedSize,
+        compressedSize,
+        read: (maxBytes: number) => readZipObject(zipFile, compressedSize, maxBytes, context)
+      }
+    })
+}
+
+async function readTarGzipEntries(
+  data: Blob,
+  name: string,
+  kind: ArchiveKind,
+  context: ExtractionContext
+): Promise<ArchiveEntry[]> {
+  const { opts } = context
+  // `logs.json.gz` holds `logs.json` and `logs.tgz` holds `logs.tar`
+  const innerName = name.replace(/\.t?gz$/i, match => (match.toLowerCase() === '.tgz' ? '.tar' : ''))
+  const isTar = kind === 'tar' || innerName.toLowerCase().endsWith('.tar')
+
+  // A single compressed file is only inflated once its name has been
+  // checked, like any other entry
+  if (kind === 'gzip' && !isTar) {
+    return [{
+      name: innerName.split('/').pop() ?? innerName,
+      size: await readGzipDeclaredSize(data),
+      compressedSize: data.size,
+      read: (maxBytes: number) => readGzip(data, maxBytes, context)
+    }]
+  }
+
+  let bytes: Uint8Array
+  if (kind === 'gzip') {
+    // A compressed tar archive may inflate up to the limit of all the files it may contribute
+    const maxBytes = Math.min(opts.maxFileSize * opts.maxFiles, opts.maxTotalSize - context.totalSize)
+    checkDeclaredSize(await readGzipDeclaredSize(data), data.size, maxBytes, context)
+    bytes = await readGzip(data, maxBytes, context)
+  } else {
+    bytes = new Uint8Array(await data.arrayBuffer())
+  }
+
+  // Tar entries are slices of bytes already in memory; a compressed archive
+  // was counted as it inflated
+  return readTarEntries(bytes).map(entry => ({
+    name: entry.name,
+    lastModified: entry.lastModified,
+    size: entry.size,
+    read: async (maxBytes: number) => readLimited(entry.data, maxBytes)
+  }))
+}
+
+async function extractArchive(
+  data: Blob,
+  name: string,
+  kind: ArchiveKind,
+  prefix: string,
+  depth: number,
+  context: ExtractionContext
+): Promise<void> {
+  const label = getArchiveLabel(kind)
+  const archivePath = prefix ? prefix.slice(0, -1) : name
+
+  let entries: ArchiveEntry[]
+  try {
+    entries = kind === 'zip'
+      ? await readZipEntries(data, context)
+      : await readTarGzipEntries(data, name, kind, context)
   } catch (error) {
-    result.errors.push(`Failed to process ZIP file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    context.result.errors.push(`Failed to process ${label} file ${archivePath}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    return
+  }
+
+  if (entries.length === 0) {
+    context.result.warnings.push(`${label} file ${archivePath} contains no extractable files`)
+    return
+  }
+
+  await extractEntries(entries, prefix, depth, context)
+}
+
+async function extractUploadedArchive(
+  file: File,
+  kind: ArchiveKind,
+  options: ZipExtractionOptions
+): Promise<ZipExtractionResult> {
+  const context: ExtractionContext = {
+    opts: { ...DEFAULT_OPTIONS, ...options },
+    result: createResult(),
+    archiveName: file.name,
+    archiveId: generateId(),
+    progress: 0,
+    totalSize: 0,
+    deadline: Date.now() + (options.maxExtractionTime ?? DEFAULT_OPTIONS.maxExtractionTime)
+  }
+  const { result } = context
+
+  context.opts.onProgress(0, file.name)
+  await extractArchive(file, file.name, kind, '', 0, context)
+
+  // Final validation
+  if (result.files.length === 0 && result.errors.length === 0) {
+    result.warnings.push(`No compatible files found in ${getArchiveLabel(kind)} archive`)
   }
 
   return result
 }
 
+/**
+ * Extracts the supported files of a ZIP archive. Archives inside it are
+ * extracted too, up to `maxDepth` levels, with their files named by their
+ * path through the outer archive (`logs/day1.zip/events.json`).
+ */
+export function extractZipFile(
+  file: File,
+  options: ZipExtractionOptions = {}
+): Promise<ZipExtractionResult> {
+  return extractUploadedArchive(file, 'zip', options)
+}
+
+/**
+ * Extracts a tar archive, a gzip-compressed tar archive (`.tar.gz`, `.tgz`)
+ * or a single gzip-compressed file such as `logs.json.gz`, with the same
+ * limits and reporting as ZIP archives.
+ */
+export function extractTarGzipFile(
+  file: File,
+  options: ZipExtractionOptions = {}
+): Promise<ZipExtractionResult> {
+  return extractUploadedArchive(file, isGzipFile(file) ? 'gzip' : 'tar', options)
+}
+
+/**
+ * Extracts any supported archive: ZIP, tar, tar.gz/.tgz or a single
+ * gzip-compressed file.
+ */
+export function extractArchiveFile(
+  file: File,
+  options: ZipExtractionOptions = {}
+): Promise<ZipExtractionResult> {
+  return extractUploadedArchive(file, getArchiveKind(file.name, file.type) ?? 'zip', options)
+}
+
 export function isZipFile(file: File): boolean {
-  return file.type === 'application/zip' || 
-         file.type === 'application/x-zip-compressed' || 
-         file.name.toLowerCase().endsWith('.zip')
+  return getArchiveKind(file.name, file.type) === 'zip'
+}
+
+export function isGzipFile(file: File): boolean {
+  return getArchiveKind(file.name, file.type) === 'gzip'
+}
+
+export function isTarFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return getArchiveKind(file.name, file.type) === 'tar' || name.endsWith('.tar.gz') || name.endsWith('.tgz')
+}
+
+export function isArchiveFile(file: File): boolean {
+  return getArchiveKind(file.name, file.type) !== null
 }
 
 export function getZipExtractionSummary(result: ZipExtractionResult): string {
@@ -0,0 +1,58 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { Preferences, XmlOptions } from '@/types'
+import { STORAGE_KEYS } from '@/config/constants'
+import {
+  DEFAULT_PREFERENCES,
+  PREFERENCES_VERSION,
+  mergePreferences,
+  migratePreferences,
+  PreferencesChanges
+} from '@/lib/preferences'
+
+interface PreferencesState extends Preferences {
+  setPreferences: (changes: PreferencesChanges) => void
+  resetPreferences: () => void
+  setXmlOptions: (changes: Partial<XmlOptions>) => void
+  setPersistFiles: (persistFiles: boolean) => void
+}
+
+// The stored part of the state: every setting, none of the actions. A new
+// object each time, so components select it with `useShallow`
+export function selectPreferences(state: Preferences): Preferences {
+  return {
+    theme: state.theme,
+    defaultViewMode: state.defaultViewMode,
+    indentSize: state.indentSize,
+    defaultExpandDepth: state.defaultExpandDepth,
+    caseSensitiveSearch: state.caseSensitiveSearch,
+    numberFormat: state.numberFormat,
+    dateFormat: state.dateFormat,
+    xmlOptions: state.xmlOptions,
+    persistFiles: state.persistFiles
+  }
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_PREFERENCES,
+      setPreferences: (changes) => set(state => mergePreferences(selectPreferences(state), changes)),
+      resetPreferences: () => set(DEFAULT_PREFERENCES),
+      setXmlOptions: (changes) => set(state => ({ xmlOptions: { ...state.xmlOptions, ...changes } })),
+      setPersistFiles: (persistFiles) => set({ persistFiles })
+    }),
+    {
+      name: STORAGE_KEYS.preferences,
+      version: PREFERENCES_VERSION,
+      partialize: (state) => selectPreferences(state),
+      // Older versions are read with the current settings; `merge` then fills
+      // in defaults for settings added since they were saved
+      migrate: (persisted, version) => migratePreferences(persisted, version) as PreferencesState,
+      merge: (persisted, current) => ({
+        ...current,
+        ...mergePreferences(selectPreferences(current), migratePreferences(persisted, PREFERENCES_VERSION))
+      })
+    }
+  )
+)
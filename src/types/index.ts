@@ -1,14 +1,113 @@
+export type BinaryFormat = 'msgpack' | 'cbor' | 'bson';
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'utf-32le' | 'utf-32be' | 'latin1';
+export type DocumentFormat = 'json' | 'ndjson' | 'yaml' | 'csv' | 'xml' | 'toml' | 'ini' | BinaryFormat;
+export type ParseMode = 'strict' | 'lenient'; // 'lenient' accepts JSONC and JSON5
+
+// Text as first decoded from the file's bytes, which re-encodes to those bytes
+export interface SourceText {
+  content: string;
+  encoding: TextEncoding;
+  hasBom: boolean;
+}
+
 export interface FileData {
+  id: string;
   name: string;
   size: number;
   type: string;
-  content: string;
+  content: string; // Base64 of the bytes for binary formats
+  encoding?: TextEncoding; // Encoding the text was decoded from; unset for binary formats and derived documents
+  hasBom?: boolean; // Whether the source bytes started with a byte order mark
+  sourceText?: SourceText; // Set once the text is decoded in another encoding; later switches start from it
   lastModified: number;
+  format?: DocumentFormat; // Defaults to 'json'
+  parseMode?: ParseMode; // Defaults to 'strict'
+  csvOptions?: CsvOptions; // How a CSV/TSV source is read; defaults to detecting everything
+  xmlOptions?: XmlOptions; // How XML maps to JSON; taken from the preferences when the file is added
   parsedData?: any;
   metadata?: JsonMetadata;
-  errors?: string[];
+  errors?: ParseError[];
   warnings?: string[];
-  extractedFrom?: string; // For files extracted from ZIP archives
+  jsonLines?: JsonLinesInfo; // Set for newline-delimited JSON documents
+  documentCount?: number; // Documents in a YAML stream or values in a binary file; parsedData is their array when there are several
+  csv?: CsvInfo; // Layout of a CSV/TSV source as it was read
+  comments?: JsonComment[]; // Comments kept from leniently parsed sources
+  duplicateKeys?: DuplicateKey[]; // Keys that occur more than once in the same object of the source
+  extendedTypes?: ExtendedType[]; // Values whose source type JSON lacks, such as TOML datetimes
+  serializeError?: string; // Why the edited data cannot be written in its format; `content` keeps the last version that could
+  extractedFrom?: string; // For files extracted from ZIP, tar or gzip archives
+  archiveId?: string; // Shared by the files extracted from one uploaded archive, including nested ones
+  derivedFrom?: string; // For documents produced from another file (e.g. query results)
+  readOnly?: boolean;
+}
+
+export type CsvDelimiter = ',' | '\t' | ';' | '|';
+
+export interface CsvOptions {
+  delimiter: CsvDelimiter | 'auto';
+  header: 'auto' | 'yes' | 'no'; // Whether the first row holds the column names
+  coerceTypes: boolean; // Read numbers, booleans and empty cells as typed values instead of strings
+}
+
+export interface CsvInfo {
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  columns: string[]; // Keys of the records, in column order
+  rowCount: number; // Data rows, excluding the header
+}
+
+export interface XmlOptions {
+  attributePrefix: string; // Prepended to attribute names, e.g. '@' for '@id'
+  textKey: string; // Key of the text of an element that also has attributes or children
+  ignoreAttributes: boolean;
+  alwaysArray: boolean; // Put every child element in an array, not only repeated ones
+  namespaces: 'keep' | 'strip'; // 'strip' drops prefixes such as 'soap:' and the xmlns attributes
+  coerceTypes: boolean; // Read numeric and boolean text as typed values
+}
+
+export interface SourceContextLine {
+  line: number;
+  text: string;
+}
+
+export interface ParseError {
+  message: string;
+  offset?: number; // 0-based character offset into the source
+  line?: number; // 1-based
+  column?: number; // 1-based
+  expected?: string; // Human readable description of the expected token
+  context?: SourceContextLine[]; // Source lines surrounding the error
+}
+
+export interface JsonComment {
+  path: string; // Tree path of the member the comment belongs to
+  placement: 'before' | 'after' | 'end'; // 'end' is inside the container at `path`, after its last member
+  text: string; // Source text including the comment markers
+  line: number; // 1-based
+}
+
+export interface DuplicateKeyValue {
+  value: any;
+  line: number; // 1-based line of the key
+}
+
+export interface DuplicateKey {
+  path: string; // Tree path of the member, e.g. 'user.id'
+  key: string;
+  values: DuplicateKeyValue[]; // In source order; the last one is the value that is kept
+}
+
+export interface ExtendedType {
+  path: string; // Tree path of the value
+  type: string; // Type in the source format, shown as a badge, e.g. 'local date'
+}
+
+export interface JsonLinesInfo {
+  lineCount: number;
+  recordCount: number;
+  recordLines: number[]; // 1-based source line of each record
+  lineErrors: ParseError[]; // Lines that failed to parse; they are left out of the records
+  skippedLines: number; // Failed lines, including those beyond the reported errors
 }
 
 export interface JsonMetadata {
@@ -26,9 +125,17 @@ export interface ProcessedData {
   fileInfo?: FileData;
 }
 
+export interface ValidationError {
+  path: string; // Tree path of the failing node, '' for the root
+  pointer: string; // JSON Pointer of the failing node
+  message: string;
+  keyword?: string; // Schema keyword that failed, e.g. 'required'
+  schemaPath?: string;
+}
+
 export interface ValidationResult {
   isValid: boolean;
-  errors?: string[];
+  errors?: ValidationError[];
   warnings?: string[];
 }
 
@@ -40,6 +147,21 @@ export interface JsonFile {
 
 export type ViewMode = 'tree' | 'raw' | 'formatted';
 export type Theme = 'light' | 'dark' | 'auto';
+export type IndentSize = '2' | '4' | 'tab';
+export type NumberDisplayFormat = 'plain' | 'grouped'; // 'grouped' adds the locale's thousands separators
+export type DateDisplayFormat = 'source' | 'local' | 'utc'; // How ISO 8601 date strings are shown in the tree
+
+export interface Preferences {
+  theme: Theme; // 'auto' follows the operating system
+  defaultViewMode: ViewMode;
+  indentSize: IndentSize; // For formatted output and edited JSON documents
+  defaultExpandDepth: number; // Tree levels open when a document is first shown; 0 keeps the root closed
+  caseSensitiveSearch: boolean;
+  numberFormat: NumberDisplayFormat;
+  dateFormat: DateDisplayFormat;
+  xmlOptions: XmlOptions; // Mapping for XML files added later
+  persistFiles: boolean; // Keep open documents in IndexedDB across reloads
+}
 export type SubscriptionStatus = 'free' | 'active' | 'expired' | 'cancelled';
 
 export interface AppState {
@@ -58,6 +180,26 @@ export interface JsonState {
   expandedPaths: Set<string>;
 }
 
+// Details of a document kept by tree path, which edits move along with the values
+export interface JsonAnnotations {
+  comments?: JsonComment[];
+  extendedTypes?: ExtendedType[];
+}
+
+export interface JsonEditEntry {
+  data: any;
+  annotations: JsonAnnotations;
+  label: string; // Description of the edit, e.g. 'Delete items[2]'
+}
+
+export interface JsonEditState extends Pick<JsonState, 'originalData' | 'editedData' | 'hasChanges'> {
+  originalContent: string;
+  originalAnnotations: JsonAnnotations;
+  annotations: JsonAnnotations; // Of `editedData`
+  undoStack: JsonEditEntry[]; // Most recent last
+  redoStack: JsonEditEntry[];
+}
+
 export interface SubscriptionState {
   status: SubscriptionStatus;
   validUntil: Date | null;
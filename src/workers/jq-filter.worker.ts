@@ -0,0 +1,21 @@
+import { runJqFilter } from '@/lib/jq-filter'
+import type { JqWorkerRequest, JqWorkerResponse } from '@/lib/json-worker'
+
+// See json-parser.worker.ts for why the worker scope is typed locally
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<JqWorkerRequest>) => void) | null
+  postMessage: (message: JqWorkerResponse) => void
+}
+
+ctx.onmessage = (event) => {
+  const { data, filter, options } = event.data
+
+  try {
+    ctx.postMessage({ type: 'result', result: runJqFilter(data, filter, options) })
+  } catch (error) {
+    ctx.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
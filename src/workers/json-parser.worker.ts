@@ -0,0 +1,32 @@
+import { parseJsonString } from '@/lib/json-parser'
+import { encodeLosslessNumbers } from '@/lib/lossless-number'
+import type { ParseWorkerRequest, ParseWorkerResponse } from '@/lib/json-worker'
+
+// The project compiles against the DOM lib, so type the worker scope locally
+// instead of pulling in the conflicting "webworker" lib
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseWorkerRequest>) => void) | null
+  postMessage: (message: ParseWorkerResponse) => void
+}
+
+ctx.onmessage = (event) => {
+  const { content, options } = event.data
+
+  try {
+    const result = parseJsonString(content, {
+      ...options,
+      onProgress: (progress, stage) => ctx.postMessage({ type: 'progress', progress, stage })
+    })
+    if (result.losslessNumbers) {
+      result.data = encodeLosslessNumbers(result.data)
+    }
+    // Overridden values are not counted above, and there are few of them
+    result.duplicateKeys = encodeLosslessNumbers(result.duplicateKeys)
+    ctx.postMessage({ type: 'result', result })
+  } catch (error) {
+    ctx.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}